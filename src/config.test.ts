@@ -2,7 +2,10 @@
  * Tests for ThinkingLevel type and thinkingOverrides in config
  */
 
-import { describe, it, expect } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
 import {
 	type ThinkingLevel,
 	VALID_THINKING_LEVELS,
@@ -82,3 +85,221 @@ describe("v0.3 config keys", () => {
 		expect(config).toHaveProperty("gitIgnorePatterns");
 	});
 });
+
+describe("testOutputFormat config", () => {
+	let tmpDir: string | undefined;
+
+	afterEach(() => {
+		if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+		tmpDir = undefined;
+		vi.restoreAllMocks();
+		getConfig("/nonexistent-path-for-test", true);
+	});
+
+	function configWith(values: Record<string, unknown>): SuperteamConfig {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "config-test-"));
+		fs.writeFileSync(path.join(tmpDir, ".superteam.json"), JSON.stringify(values));
+		return getConfig(tmpDir, true);
+	}
+
+	it("defaults to 'auto'", () => {
+		const config = getConfig("/nonexistent-path-for-test", true);
+		expect(config.testOutputFormat).toBe("auto");
+	});
+
+	it("accepts a known format", () => {
+		expect(configWith({ testOutputFormat: "pytest" }).testOutputFormat).toBe("pytest");
+	});
+
+	it("falls back to 'auto' with a warning for unknown formats", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		expect(configWith({ testOutputFormat: "nunit" }).testOutputFormat).toBe("auto");
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("Invalid testOutputFormat"));
+	});
+});
+
+describe("coverageReport config", () => {
+	let tmpDir: string | undefined;
+
+	afterEach(() => {
+		if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+		tmpDir = undefined;
+		vi.restoreAllMocks();
+		getConfig("/nonexistent-path-for-test", true);
+	});
+
+	function configWith(values: Record<string, unknown>): SuperteamConfig {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "config-test-"));
+		fs.writeFileSync(path.join(tmpDir, ".superteam.json"), JSON.stringify(values));
+		return getConfig(tmpDir, true);
+	}
+
+	it("is unset by default", () => {
+		expect(getConfig("/nonexistent-path-for-test", true).coverageReport).toBeUndefined();
+	});
+
+	it("accepts a command, report path and format", () => {
+		const coverageReport = { command: "npx vitest run --coverage", path: "coverage/coverage-final.json", format: "istanbul" };
+		expect(configWith({ coverageReport }).coverageReport).toEqual(coverageReport);
+	});
+
+	it.each([
+		["a string", "coverage/lcov.info"],
+		["no command", { path: "coverage/lcov.info" }],
+		["an empty path", { command: "npm test -- --coverage", path: " " }],
+		["an unknown format", { command: "npm test -- --coverage", path: "coverage/cobertura.xml", format: "cobertura" }],
+	])("drops it with a warning when given %s", (_label, coverageReport) => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		expect(configWith({ coverageReport }).coverageReport).toBeUndefined();
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("Invalid coverageReport"));
+	});
+});
+
+describe("failureActions config", () => {
+	let tmpDir: string | undefined;
+
+	afterEach(() => {
+		if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+		tmpDir = undefined;
+		vi.restoreAllMocks();
+		getConfig("/nonexistent-path-for-test", true);
+	});
+
+	function configWith(values: Record<string, unknown>): SuperteamConfig {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "config-test-"));
+		fs.writeFileSync(path.join(tmpDir, ".superteam.json"), JSON.stringify(values));
+		return getConfig(tmpDir, true);
+	}
+
+	it("defaults to no overrides", () => {
+		expect(getConfig("/nonexistent-path-for-test", true).failureActions).toEqual({});
+	});
+
+	it("keeps valid overrides", () => {
+		const config = configWith({ failureActions: { "impl-crash": "escalate", "test-flake": "ignore" } });
+		expect(config.failureActions).toEqual({ "impl-crash": "escalate", "test-flake": "ignore" });
+	});
+
+	it("drops unknown failure types and invalid actions with a warning", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const config = configWith({
+			failureActions: { "impl-crash": "panic", "disk-full": "escalate", "parse-error": "checkpoint" },
+		});
+		expect(config.failureActions).toEqual({ "parse-error": "checkpoint" });
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('Invalid failure action "panic"'));
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unknown failure type "disk-full"'));
+	});
+});
+
+describe("agents.modelFallbacks config", () => {
+	let tmpDir: string | undefined;
+
+	afterEach(() => {
+		if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+		tmpDir = undefined;
+		vi.restoreAllMocks();
+		getConfig("/nonexistent-path-for-test", true);
+	});
+
+	function configWith(values: Record<string, unknown>): SuperteamConfig {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "config-test-"));
+		fs.writeFileSync(path.join(tmpDir, ".superteam.json"), JSON.stringify(values));
+		return getConfig(tmpDir, true);
+	}
+
+	it("defaults to no fallbacks", () => {
+		expect(getConfig("/nonexistent-path-for-test", true).agents.modelFallbacks).toEqual({});
+	});
+
+	it("keeps model chains and drops malformed entries with a warning", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const config = configWith({
+			agents: { modelFallbacks: { "claude-sonnet-4-5": ["claude-haiku-4-5"], "gpt-5": "gpt-5-mini", broken: [""] } },
+		});
+		expect(config.agents.modelFallbacks).toEqual({ "claude-sonnet-4-5": ["claude-haiku-4-5"] });
+		expect(config.agents.defaultModel).toBe("claude-sonnet-4-5");
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('Invalid modelFallbacks entry for "gpt-5"'));
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('Invalid modelFallbacks entry for "broken"'));
+	});
+});
+
+describe("review.profiles config", () => {
+	let tmpDir: string | undefined;
+
+	afterEach(() => {
+		if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+		tmpDir = undefined;
+		vi.restoreAllMocks();
+		getConfig("/nonexistent-path-for-test", true);
+	});
+
+	function configWith(values: Record<string, unknown>): SuperteamConfig {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "config-test-"));
+		fs.writeFileSync(path.join(tmpDir, ".superteam.json"), JSON.stringify(values));
+		return getConfig(tmpDir, true);
+	}
+
+	it("defaults to no profiles", () => {
+		expect(getConfig("/nonexistent-path-for-test", true).review.profiles).toEqual([]);
+	});
+
+	it("keeps valid profiles and drops malformed ones with a warning", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const config = configWith({
+			review: {
+				required: ["spec"],
+				profiles: [
+					{ paths: ["src/auth/**"], required: ["security"] },
+					{ paths: [], required: ["security"] },
+					{ paths: ["src/ui/**"], optional: "a11y" },
+				],
+			},
+		});
+		expect(config.review.required).toEqual(["spec"]);
+		expect(config.review.profiles).toEqual([{ paths: ["src/auth/**"], required: ["security"] }]);
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("Invalid review.profiles[1]"));
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("Invalid review.profiles[2]"));
+	});
+});
+
+describe("testFileMapping presets", () => {
+	let tmpDir: string | undefined;
+
+	afterEach(() => {
+		if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+		tmpDir = undefined;
+		vi.restoreAllMocks();
+		getConfig("/nonexistent-path-for-test", true);
+	});
+
+	function configWith(values: Record<string, unknown>): SuperteamConfig {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "config-test-"));
+		fs.writeFileSync(path.join(tmpDir, ".superteam.json"), JSON.stringify(values));
+		return getConfig(tmpDir, true);
+	}
+
+	it("replaces the TypeScript defaults with the preset's strategies, test patterns and commands", () => {
+		const config = configWith({ testFileMapping: { preset: "python" } });
+		expect(config.testFileMapping.strategies.map((s) => s.type)).toEqual(["prefix", "prefix"]);
+		expect(config.testFilePatterns).toEqual(["test_*.py", "*_test.py"]);
+		expect(config.testCommands).toContain("pytest");
+	});
+
+	it("keeps explicit strategies first and explicit patterns and commands as set", () => {
+		const config = configWith({
+			testFilePatterns: ["*_check.go"],
+			testFileMapping: { preset: ["go", "ruby"], strategies: [{ type: "suffix", implSuffix: ".go", testSuffix: "_check.go" }] },
+		});
+		expect(config.testFileMapping.strategies[0].testSuffix).toBe("_check.go");
+		expect(config.testFileMapping.strategies).toHaveLength(4);
+		expect(config.testFilePatterns).toEqual(["*_check.go"]);
+		expect(config.testCommands).toEqual(["go test", "bundle exec rspec", "rspec"]);
+	});
+
+	it("drops unknown presets with a warning", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		const config = configWith({ testFileMapping: { preset: ["cobol"] } });
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('Unknown testFileMapping preset "cobol"'));
+		expect(config.testFilePatterns).toEqual(["*.test.ts", "*.spec.ts", "__tests__/*.ts"]);
+	});
+});
@@ -7,6 +7,7 @@
 
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { FAILURE_TYPES, VALID_FAILURE_ACTIONS, type FailureAction, type FailureType } from "./workflow/failure-taxonomy.js";
 
 // --- Types ---
 
@@ -16,26 +17,110 @@ export const VALID_THINKING_LEVELS: readonly ThinkingLevel[] = [
 	"off", "minimal", "low", "medium", "high", "xhigh",
 ] as const;
 
+export type TestOutputFormat = "auto" | "vitest" | "pytest" | "go" | "cargo" | "tap" | "junit";
+
+export const VALID_TEST_OUTPUT_FORMATS: readonly TestOutputFormat[] = [
+	"auto", "vitest", "pytest", "go", "cargo", "tap", "junit",
+] as const;
+
+/**
+ * How an impl file maps to its test file:
+ *   suffix    — foo.go → foo_test.go (same directory)
+ *   directory — foo.ts → __tests__/foo.test.ts
+ *   mirror    — srcRoot/a/Foo.java → testRoot/a/FooTest.java
+ *   prefix    — a/foo.py → a/test_foo.py, or testRoot/a/test_foo.py (mirroring the package path)
+ *   inline    — tests live in the module itself (Rust #[cfg(test)])
+ * `implSuffix` scopes non-suffix strategies to one extension.
+ */
 export interface MappingStrategy {
-	type: "suffix" | "directory" | "mirror";
+	type: "suffix" | "directory" | "mirror" | "prefix" | "inline";
 	implSuffix?: string;
 	testSuffix?: string;
 	testDir?: string;
 	srcRoot?: string;
 	testRoot?: string;
+	testPrefix?: string;
+	/** Text that marks an inline test module (default "#[cfg(test)]") */
+	inlineMarker?: string;
 }
 
 export interface TestFileMapping {
+	/** Language preset(s) — see TEST_MAPPING_PRESETS */
+	preset?: string | string[];
 	strategies: MappingStrategy[];
 	overrides: Record<string, string>;
 }
 
+/** Mapping strategies plus the test file patterns and test commands a language needs */
+export interface TestMappingPreset {
+	strategies: MappingStrategy[];
+	testFilePatterns: string[];
+	testCommands: string[];
+}
+
+export const TEST_MAPPING_PRESETS: Record<string, TestMappingPreset> = {
+	// The defaults, with __tests__ scoped to .ts so other presets' files fall through
+	typescript: {
+		strategies: [
+			{ type: "suffix", implSuffix: ".ts", testSuffix: ".test.ts" },
+			{ type: "suffix", implSuffix: ".ts", testSuffix: ".spec.ts" },
+			{ type: "directory", testDir: "__tests__", implSuffix: ".ts" },
+		],
+		testFilePatterns: ["*.test.ts", "*.spec.ts", "__tests__/*.ts"],
+		testCommands: ["npm test", "bun test", "npx jest", "npx vitest"],
+	},
+	python: {
+		strategies: [
+			{ type: "prefix", testPrefix: "test_", implSuffix: ".py", testRoot: "tests" },
+			{ type: "prefix", testPrefix: "test_", implSuffix: ".py" },
+		],
+		testFilePatterns: ["test_*.py", "*_test.py"],
+		testCommands: ["pytest", "python -m pytest"],
+	},
+	go: {
+		strategies: [{ type: "suffix", implSuffix: ".go", testSuffix: "_test.go" }],
+		testFilePatterns: ["*_test.go"],
+		testCommands: ["go test"],
+	},
+	rust: {
+		strategies: [{ type: "inline", implSuffix: ".rs", inlineMarker: "#[cfg(test)]" }],
+		testFilePatterns: ["tests/*.rs"],
+		testCommands: ["cargo test"],
+	},
+	java: {
+		strategies: [{ type: "mirror", srcRoot: "src/main/java", testRoot: "src/test/java", implSuffix: ".java", testSuffix: "Test.java" }],
+		testFilePatterns: ["*Test.java", "*Tests.java"],
+		testCommands: ["mvn test", "./mvnw test", "gradle test", "./gradlew test"],
+	},
+	kotlin: {
+		strategies: [{ type: "mirror", srcRoot: "src/main/kotlin", testRoot: "src/test/kotlin", implSuffix: ".kt", testSuffix: "Test.kt" }],
+		testFilePatterns: ["*Test.kt", "*Tests.kt"],
+		testCommands: ["gradle test", "./gradlew test"],
+	},
+	ruby: {
+		strategies: [
+			{ type: "mirror", srcRoot: "lib", testRoot: "spec", implSuffix: ".rb", testSuffix: "_spec.rb" },
+			{ type: "mirror", srcRoot: "app", testRoot: "spec", implSuffix: ".rb", testSuffix: "_spec.rb" },
+		],
+		testFilePatterns: ["*_spec.rb"],
+		testCommands: ["bundle exec rspec", "rspec"],
+	},
+};
+
+/** Extra reviewers for tasks that change files matching `paths` (globs, e.g. "src/auth/**") */
+export interface ReviewProfile {
+	paths: string[];
+	required?: string[];
+	optional?: string[];
+}
+
 export interface ReviewConfig {
 	maxIterations: number;
 	required: string[];
 	optional: string[];
 	parallelOptional: boolean;
 	escalateOnMaxIterations: boolean;
+	profiles: ReviewProfile[];
 }
 
 export interface AgentConfig {
@@ -43,6 +128,8 @@ export interface AgentConfig {
 	scoutModel: string;
 	modelOverrides: Record<string, string>;
 	thinkingOverrides: Record<string, ThinkingLevel>;
+	/** Models to try, in order, when a model errors or is rate limited (keyed by model) */
+	modelFallbacks: Record<string, string[]>;
 }
 
 export interface CostConfig {
@@ -50,9 +137,25 @@ export interface CostConfig {
 	hardLimitUsd: number;
 }
 
+export type CoverageFormat = "auto" | "lcov" | "istanbul";
+
+export const VALID_COVERAGE_FORMATS: readonly CoverageFormat[] = ["auto", "lcov", "istanbul"] as const;
+
+/** Coverage run for the execute phase's GREEN check — lines a task adds must be covered */
+export interface CoverageReportConfig {
+	/** Runs the tests with coverage, e.g. "npx vitest run --coverage" */
+	command: string;
+	/** Report the command writes: lcov.info, or Istanbul coverage-final.json */
+	path: string;
+	/** "auto" detects the format from the report */
+	format?: CoverageFormat;
+}
+
 export interface SuperteamConfig {
 	configVersion: number;
 	tddMode: "off" | "tdd" | "atdd";
+	/** Require the mapped test to be seen failing before the first write to an impl file */
+	tddStrict: boolean;
 	testFilePatterns: string[];
 	acceptanceTestPatterns: string[];
 	testCommands: string[];
@@ -64,10 +167,22 @@ export interface SuperteamConfig {
 	validationCommand: string;
 	// v0.3 additions
 	testCommand: string;
+	/** How to parse testCommand output — "auto" detects the format from the output */
+	testOutputFormat: TestOutputFormat;
 	validationCadence: "every" | "every-N" | "on-demand";
 	validationInterval: number;
 	budgetCheckpointUsd: number;
 	gitIgnorePatterns: string[];
+	/** Max tasks implemented side by side in separate git worktrees (1 = sequential) */
+	maxParallelTasks: number;
+	/** After reviews pass, re-run the task's tests with its implementation reverted; passing tests are vacuous */
+	vacuousTestCheck: boolean;
+	/** Uncovered lines a task adds become review findings (unset = no coverage check) */
+	coverageReport?: CoverageReportConfig;
+	/** Per-type overrides of the failure taxonomy defaults (see failure-taxonomy.ts) */
+	failureActions: Partial<Record<FailureType, FailureAction>>;
+	/** Start the next queued workflow without asking when a workflow finalizes */
+	autoStartQueue: boolean;
 }
 
 // --- Defaults ---
@@ -75,6 +190,7 @@ export interface SuperteamConfig {
 const DEFAULT_CONFIG: SuperteamConfig = {
 	configVersion: 1,
 	tddMode: "off",
+	tddStrict: false,
 	testFilePatterns: ["*.test.ts", "*.spec.ts", "__tests__/*.ts"],
 	acceptanceTestPatterns: ["*.acceptance.test.ts", "*.e2e.test.ts"],
 	testCommands: ["npm test", "bun test", "npx jest", "npx vitest"],
@@ -93,12 +209,14 @@ const DEFAULT_CONFIG: SuperteamConfig = {
 		optional: ["security", "performance"],
 		parallelOptional: true,
 		escalateOnMaxIterations: true,
+		profiles: [],
 	},
 	agents: {
 		defaultModel: "claude-sonnet-4-5",
 		scoutModel: "claude-haiku-4-5",
 		modelOverrides: {},
 		thinkingOverrides: {},
+		modelFallbacks: {},
 	},
 	costs: {
 		warnAtUsd: 5.0,
@@ -107,10 +225,15 @@ const DEFAULT_CONFIG: SuperteamConfig = {
 	validationCommand: "tsc --noEmit",
 	// v0.3 additions
 	testCommand: "",
+	testOutputFormat: "auto",
 	validationCadence: "every",
 	validationInterval: 3,
 	budgetCheckpointUsd: 0,
 	gitIgnorePatterns: [],
+	maxParallelTasks: 1,
+	vacuousTestCheck: false,
+	failureActions: {},
+	autoStartQueue: false,
 };
 
 // --- Discovery ---
@@ -144,6 +267,34 @@ function deepMerge(defaults: any, overrides: any): any {
 	return result;
 }
 
+/**
+ * Apply `testFileMapping.preset`: preset strategies follow any explicit ones, and
+ * test file patterns / test commands come from the presets unless set explicitly.
+ * Unknown preset names are dropped with a warning.
+ */
+function applyTestMappingPresets(config: SuperteamConfig, parsed: any): void {
+	const requested = config.testFileMapping.preset;
+	if (requested === undefined) return;
+	const names = (Array.isArray(requested) ? requested : [requested]).filter((name) => {
+		const known = typeof name === "string" && name in TEST_MAPPING_PRESETS;
+		if (!known) {
+			console.warn(
+				`[superteam] Unknown testFileMapping preset "${name}" in config. ` +
+				`Valid presets: ${Object.keys(TEST_MAPPING_PRESETS).join(", ")}. Ignoring preset.`
+			);
+		}
+		return known;
+	});
+	if (names.length === 0) return;
+
+	const presets = names.map((name) => TEST_MAPPING_PRESETS[name]);
+	const unique = (lists: string[][]) => [...new Set(lists.flat())];
+	const explicitStrategies = Array.isArray(parsed.testFileMapping?.strategies) ? parsed.testFileMapping.strategies : [];
+	config.testFileMapping.strategies = [...explicitStrategies, ...presets.flatMap((p) => p.strategies)];
+	if (parsed.testFilePatterns === undefined) config.testFilePatterns = unique(presets.map((p) => p.testFilePatterns));
+	if (parsed.testCommands === undefined) config.testCommands = unique(presets.map((p) => p.testCommands));
+}
+
 // --- Public API ---
 
 let cachedConfig: SuperteamConfig | null = null;
@@ -168,6 +319,7 @@ export function getConfig(cwd: string, force = false): SuperteamConfig {
 		const raw = fs.readFileSync(configPath, "utf-8");
 		const parsed = JSON.parse(raw);
 		cachedConfig = deepMerge(DEFAULT_CONFIG, parsed) as SuperteamConfig;
+		applyTestMappingPresets(cachedConfig, parsed);
 
 		// Validate thinkingOverrides: drop invalid values with a warning
 		if (cachedConfig.agents.thinkingOverrides) {
@@ -185,6 +337,84 @@ export function getConfig(cwd: string, force = false): SuperteamConfig {
 			cachedConfig.agents.thinkingOverrides = validOverrides;
 		}
 
+		// Validate modelFallbacks: drop chains that aren't lists of model names with a warning
+		if (cachedConfig.agents.modelFallbacks) {
+			const validFallbacks: Record<string, string[]> = {};
+			for (const [model, chain] of Object.entries(cachedConfig.agents.modelFallbacks)) {
+				if (Array.isArray(chain) && chain.every((m) => typeof m === "string" && m.trim() !== "")) {
+					validFallbacks[model] = chain;
+				} else {
+					console.warn(
+						`[superteam] Invalid modelFallbacks entry for "${model}" in config. ` +
+						`Expected a list of model names. Ignoring fallbacks.`
+					);
+				}
+			}
+			cachedConfig.agents.modelFallbacks = validFallbacks;
+		}
+
+		// Validate review.profiles: drop profiles without path globs or reviewer lists with a warning
+		if (cachedConfig.review.profiles) {
+			const isNameList = (v: unknown) => v === undefined || (Array.isArray(v) && v.every((n) => typeof n === "string"));
+			cachedConfig.review.profiles = (Array.isArray(cachedConfig.review.profiles) ? cachedConfig.review.profiles : []).filter((profile, i) => {
+				const valid = Array.isArray(profile?.paths) && profile.paths.length > 0
+					&& profile.paths.every((p: unknown) => typeof p === "string")
+					&& isNameList(profile.required) && isNameList(profile.optional);
+				if (!valid) {
+					console.warn(
+						`[superteam] Invalid review.profiles[${i}] in config. ` +
+						`Expected { "paths": [globs], "required"?: [reviewers], "optional"?: [reviewers] }. Ignoring profile.`
+					);
+				}
+				return valid;
+			});
+		}
+
+		// Validate testOutputFormat: fall back to auto-detection with a warning
+		if (!VALID_TEST_OUTPUT_FORMATS.includes(cachedConfig.testOutputFormat)) {
+			console.warn(
+				`[superteam] Invalid testOutputFormat "${cachedConfig.testOutputFormat}" in config. ` +
+				`Valid formats: ${VALID_TEST_OUTPUT_FORMATS.join(", ")}. Using "auto".`
+			);
+			cachedConfig.testOutputFormat = "auto";
+		}
+
+		// Validate coverageReport: drop it with a warning unless it names a command and a report path
+		if (cachedConfig.coverageReport !== undefined) {
+			const coverage = cachedConfig.coverageReport as Partial<CoverageReportConfig> | null;
+			const valid = typeof coverage?.command === "string" && coverage.command.trim() !== ""
+				&& typeof coverage.path === "string" && coverage.path.trim() !== ""
+				&& (coverage.format === undefined || VALID_COVERAGE_FORMATS.includes(coverage.format));
+			if (!valid) {
+				console.warn(
+					`[superteam] Invalid coverageReport in config. ` +
+					`Expected { "command": "<test command with coverage>", "path": "<report file>", "format"?: ${VALID_COVERAGE_FORMATS.map((f) => `"${f}"`).join(" | ")} }. Ignoring coverage check.`
+				);
+				delete cachedConfig.coverageReport;
+			}
+		}
+
+		// Validate failureActions: drop unknown failure types and actions with a warning
+		if (cachedConfig.failureActions) {
+			const validActions: Partial<Record<FailureType, FailureAction>> = {};
+			for (const [type, action] of Object.entries(cachedConfig.failureActions)) {
+				if (!FAILURE_TYPES.includes(type as FailureType)) {
+					console.warn(
+						`[superteam] Unknown failure type "${type}" in failureActions. ` +
+						`Valid types: ${FAILURE_TYPES.join(", ")}. Ignoring override.`
+					);
+				} else if (!VALID_FAILURE_ACTIONS.includes(action as FailureAction)) {
+					console.warn(
+						`[superteam] Invalid failure action "${action}" for "${type}" in failureActions. ` +
+						`Valid actions: ${VALID_FAILURE_ACTIONS.join(", ")}. Ignoring override.`
+					);
+				} else {
+					validActions[type as FailureType] = action as FailureAction;
+				}
+			}
+			cachedConfig.failureActions = validActions;
+		}
+
 		return cachedConfig;
 	} catch {
 		// Invalid JSON or read error — use defaults
@@ -0,0 +1,191 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { EventEmitter } from "node:events";
+import { Readable } from "node:stream";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+// Mock child_process.spawn to emit controlled JSON lines
+vi.mock("node:child_process", () => {
+  return {
+    spawn: vi.fn(),
+  };
+});
+
+import { spawn } from "node:child_process";
+import { getConfig } from "./config.js";
+import { AGENT_ENV_VAR, PHASE_ENV_VAR, RULES_DIR_ENV_VAR, dispatchAgent, setSubprocessEnv, fallbackBackoffMs, resolveModelChain, shouldFallback, formatUsage, type DispatchResult } from "./dispatch.js";
+
+const mockSpawn = vi.mocked(spawn);
+
+function assistantEnd(fields: Record<string, unknown>, cost = 0.01): string {
+  return JSON.stringify({
+    type: "message_end",
+    message: { role: "assistant", content: [{ type: "text", text: "out" }], usage: { input: 10, output: 5, cost: { total: cost } }, ...fields },
+  });
+}
+
+function createFakeProcess(jsonLines: string[]) {
+  const stdout = new Readable({ read() {} });
+  const stderr = new Readable({ read() {} });
+  const proc = Object.assign(new EventEmitter(), {
+    stdout,
+    stderr,
+    stdin: null,
+    pid: 1234,
+    killed: false,
+    kill: vi.fn(),
+  });
+
+  setImmediate(() => {
+    for (const line of jsonLines) stdout.push(line + "\n");
+    stdout.push(null);
+    proc.emit("close", 0);
+  });
+
+  return proc;
+}
+
+/** Drive fake backoff timers until the dispatch settles */
+async function settle<T>(promise: Promise<T>): Promise<T> {
+  let done = false;
+  promise.finally(() => { done = true; });
+  while (!done) {
+    await new Promise((r) => setImmediate(r));
+    await vi.advanceTimersByTimeAsync(1000);
+  }
+  return promise;
+}
+
+function spawnedModels(): string[] {
+  return mockSpawn.mock.calls.map(([, args]) => {
+    const list = args as string[];
+    return list[list.indexOf("--model") + 1];
+  });
+}
+
+const agent = { name: "implementer", description: "test", systemPrompt: "", source: "package" as const, filePath: "/test.md" };
+
+describe("model fallbacks", () => {
+  let tmpDir: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ["setTimeout"] });
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "dispatch-fallback-"));
+    fs.writeFileSync(path.join(tmpDir, ".superteam.json"), JSON.stringify({
+      agents: { defaultModel: "model-a", modelFallbacks: { "model-a": ["model-b", "model-c"] } },
+    }));
+    getConfig(tmpDir, true);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+    getConfig("/nonexistent-path-for-test", true);
+  });
+
+  it("retries with the next model on a rate limit and records model and attempts", async () => {
+    const runs = [
+      [assistantEnd({ stopReason: "error", errorMessage: "429 Too Many Requests" })],
+      [assistantEnd({ stopReason: "stop" }, 0.02)],
+    ];
+    mockSpawn.mockImplementation(() => createFakeProcess(runs.shift()!) as any);
+
+    const result = await settle(dispatchAgent(agent, "task", tmpDir));
+
+    expect(spawnedModels()).toEqual(["model-a", "model-b"]);
+    expect(result.model).toBe("model-b");
+    expect(result.attempts).toBe(2);
+    expect(result.stopReason).toBe("stop");
+    expect(result.usage.cost).toBeCloseTo(0.03);
+    expect(result.usage.turns).toBe(2);
+  });
+
+  it("stops at the end of the chain and returns the last failure", async () => {
+    mockSpawn.mockImplementation(() => createFakeProcess([assistantEnd({ stopReason: "error", errorMessage: "overloaded" })]) as any);
+
+    const result = await settle(dispatchAgent(agent, "task", tmpDir));
+
+    expect(spawnedModels()).toEqual(["model-a", "model-b", "model-c"]);
+    expect(result.attempts).toBe(3);
+    expect(result.model).toBe("model-c");
+    expect(result.errorMessage).toBe("overloaded");
+  });
+
+  it("does not fall back on a successful run", async () => {
+    mockSpawn.mockImplementation(() => createFakeProcess([assistantEnd({ stopReason: "stop" })]) as any);
+
+    const result = await settle(dispatchAgent(agent, "task", tmpDir));
+
+    expect(mockSpawn).toHaveBeenCalledTimes(1);
+    expect(result.attempts).toBe(1);
+    expect(result.model).toBe("model-a");
+  });
+});
+
+describe("subprocess environment", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("names the dispatched agent so the extension can scope rules to it", async () => {
+    mockSpawn.mockImplementation(() => createFakeProcess([assistantEnd({ stopReason: "stop" })]) as any);
+
+    await dispatchAgent(agent, "task", os.tmpdir());
+
+    const options = mockSpawn.mock.calls[0][2] as { env?: Record<string, string> };
+    expect(options.env?.[AGENT_ENV_VAR]).toBe("implementer");
+    expect(options.env?.PATH).toBe(process.env.PATH);
+  });
+
+  it("passes the workflow phase and trusted project rules on until they're cleared", async () => {
+    mockSpawn.mockImplementation(() => createFakeProcess([assistantEnd({ stopReason: "stop" })]) as any);
+
+    setSubprocessEnv(PHASE_ENV_VAR, "execute");
+    setSubprocessEnv(RULES_DIR_ENV_VAR, "/repo/.pi/rules");
+    await dispatchAgent(agent, "task", os.tmpdir());
+    setSubprocessEnv(PHASE_ENV_VAR, undefined);
+    setSubprocessEnv(RULES_DIR_ENV_VAR, undefined);
+    await dispatchAgent(agent, "task", os.tmpdir());
+
+    const [first, second] = mockSpawn.mock.calls.map((call) => (call[2] as { env: Record<string, string> }).env);
+    expect(first).toMatchObject({ [PHASE_ENV_VAR]: "execute", [RULES_DIR_ENV_VAR]: "/repo/.pi/rules" });
+    expect(second[PHASE_ENV_VAR]).toBeUndefined();
+    expect(second[RULES_DIR_ENV_VAR]).toBeUndefined();
+  });
+});
+
+describe("fallback helpers", () => {
+  function result(fields: Partial<DispatchResult>): DispatchResult {
+    return {
+      agent: "a", agentSource: "package", task: "", exitCode: 0, messages: [], stderr: "",
+      usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 0 },
+      ...fields,
+    };
+  }
+
+  it("falls back on provider errors and rate limits, not on aborts or clean runs", () => {
+    expect(shouldFallback(result({ stopReason: "error" }))).toBe(true);
+    expect(shouldFallback(result({ exitCode: 1, errorMessage: "Rate limit exceeded" }))).toBe(true);
+    expect(shouldFallback(result({ stopReason: "aborted", errorMessage: "Subagent was aborted" }))).toBe(false);
+    expect(shouldFallback(result({ stopReason: "stop" }))).toBe(false);
+  });
+
+  it("doubles the backoff on each attempt", () => {
+    expect([1, 2, 3].map(fallbackBackoffMs)).toEqual([2000, 4000, 8000]);
+  });
+
+  it("builds a de-duplicated chain from the resolved model", () => {
+    const config = getConfig("/nonexistent-path-for-test", true);
+    const withFallbacks = { ...config, agents: { ...config.agents, modelFallbacks: { "claude-sonnet-4-5": ["claude-haiku-4-5", "claude-sonnet-4-5"] } } };
+    expect(resolveModelChain(agent, withFallbacks)).toEqual(["claude-sonnet-4-5", "claude-haiku-4-5"]);
+    expect(resolveModelChain({ ...agent, model: "other" }, withFallbacks)).toEqual(["other"]);
+  });
+
+  it("shows attempts in the usage line only after a fallback", () => {
+    const usage = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 1 };
+    expect(formatUsage(usage, "model-b", 2)).toBe("1 turn model-b (2 attempts)");
+    expect(formatUsage(usage, "model-a", 1)).toBe("1 turn model-a");
+  });
+});
@@ -110,4 +110,26 @@ describe("hasWriteToolCalls", () => {
 		const messages = [makeToolCallMessage("bash", { command: "mkdir -p src/new" })];
 		expect(hasWriteToolCalls(messages)).toBe(true);
 	});
+
+	it("returns false for stderr redirects and quoted >", () => {
+		const messages = [
+			makeToolCallMessage("bash", { command: "npm test 2>&1 | tail -20" }),
+			makeToolCallMessage("bash", { command: "grep -n \"a > b\" src/index.ts" }),
+			makeToolCallMessage("bash", { command: "ls missing 2>/dev/null" }),
+		];
+		expect(hasWriteToolCalls(messages)).toBe(false);
+	});
+
+	it.each([
+		"python -c \"open('out.txt', 'w').write('x')\"",
+		"node -e \"require('fs').writeFileSync('a.js', '')\"",
+		"perl -pi -e 's/a/b/' file.txt",
+		"dd if=/dev/zero of=disk.img bs=1M count=1",
+		"install -m 755 build/tool bin/tool",
+		"patch -p1 < fix.diff",
+		"git apply fix.patch",
+		"git checkout -- src/index.ts",
+	])("returns true for bash command %s", (command) => {
+		expect(hasWriteToolCalls([makeToolCallMessage("bash", { command })])).toBe(true);
+	});
 });
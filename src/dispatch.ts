@@ -18,11 +18,22 @@ import type { AgentToolResult } from "@mariozechner/pi-agent-core";
 import type { Message } from "@mariozechner/pi-ai";
 import { parseFrontmatter } from "@mariozechner/pi-coding-agent";
 import { getConfig, getPackageDir, VALID_THINKING_LEVELS, type ThinkingLevel, type SuperteamConfig } from "./config.js";
+import { findBashMutations } from "./shell-mutations.js";
 
 // --- Constants ---
 
 const MAX_PARALLEL_TASKS = 8;
 const MAX_CONCURRENCY = 4;
+/** First wait before retrying with a fallback model; doubles on each further attempt */
+const FALLBACK_BACKOFF_MS = 2000;
+const RATE_LIMIT_RE = /rate.?limit|too many requests|\b429\b|overloaded/i;
+/** Environment variable naming the dispatched agent in its subprocess (scopes rules) */
+export const AGENT_ENV_VAR = "PI_SUPERTEAM_AGENT";
+/** Workflow phase and TDD mode of the dispatching session, for rule scopes in the subprocess */
+export const PHASE_ENV_VAR = "PI_SUPERTEAM_PHASE";
+export const TDD_MODE_ENV_VAR = "PI_SUPERTEAM_TDD_MODE";
+/** Project rules directory the dispatching session trusted */
+export const RULES_DIR_ENV_VAR = "PI_SUPERTEAM_RULES_DIR";
 
 // --- Types ---
 
@@ -59,7 +70,10 @@ export interface DispatchResult {
 	messages: Message[];
 	stderr: string;
 	usage: UsageStats;
+	/** Model that produced the output (the last one tried when falling back) */
 	model?: string;
+	/** Subprocess runs made, counting model fallbacks (1 = first model succeeded) */
+	attempts?: number;
 	stopReason?: string;
 	errorMessage?: string;
 	step?: number;
@@ -103,6 +117,17 @@ function addCost(cost: number): void {
 	sessionCostUsd += cost;
 }
 
+// --- Subprocess environment ---
+
+/** Set by the dispatching session: rule scope, trusted project rules, workflow audit file */
+const subprocessEnv: Record<string, string> = {};
+
+/** Pass an environment variable to dispatched subprocesses; undefined stops passing it. */
+export function setSubprocessEnv(name: string, value: string | undefined): void {
+	if (value === undefined) delete subprocessEnv[name];
+	else subprocessEnv[name] = value;
+}
+
 export interface CostCheckResult {
 	allowed: boolean;
 	warning?: string;
@@ -263,6 +288,15 @@ export function resolveAgentModel(agent: AgentProfile, config: SuperteamConfig):
 	);
 }
 
+/**
+ * Models to try in order: the resolved model, then its config.agents.modelFallbacks chain.
+ */
+export function resolveModelChain(agent: AgentProfile, config: SuperteamConfig): string[] {
+	const model = resolveAgentModel(agent, config);
+	const chain = [model, ...(config.agents.modelFallbacks?.[model] ?? [])];
+	return chain.filter((m, i) => m && chain.indexOf(m) === i);
+}
+
 /**
  * Resolve the effective thinking level for an agent using priority chain:
  * config.agents.thinkingOverrides[name] > agent.thinking > undefined
@@ -272,11 +306,11 @@ export function resolveAgentThinking(agent: AgentProfile, config: SuperteamConfi
 }
 
 /** @internal — exported for testing */
-export function buildSubprocessArgs(agent: AgentProfile, cwd: string): string[] {
+export function buildSubprocessArgs(agent: AgentProfile, cwd: string, modelOverride?: string): string[] {
 	const config = getConfig(cwd);
 	const packageDir = getPackageDir();
 
-	const model = resolveAgentModel(agent, config);
+	const model = modelOverride || resolveAgentModel(agent, config);
 	const thinking = resolveAgentThinking(agent, config);
 
 	const args: string[] = [
@@ -311,6 +345,29 @@ export function buildSubprocessArgs(agent: AgentProfile, cwd: string): string[]
 
 // --- Core dispatch (internal) ---
 
+/** True when a run failed in a way another model might not: a provider error or a rate limit. */
+export function shouldFallback(result: DispatchResult): boolean {
+	if (result.stopReason === "aborted") return false;
+	return result.stopReason === "error" || RATE_LIMIT_RE.test(result.errorMessage ?? "");
+}
+
+/** @internal — exported for testing */
+export function fallbackBackoffMs(attempt: number): number {
+	return FALLBACK_BACKOFF_MS * 2 ** (attempt - 1);
+}
+
+function sleep(ms: number, signal: AbortSignal | undefined): Promise<void> {
+	return new Promise((resolve) => {
+		const onAbort = () => { clearTimeout(timer); resolve(); };
+		const timer = setTimeout(() => { signal?.removeEventListener("abort", onAbort); resolve(); }, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+}
+
+/**
+ * Run an agent, falling back through config.agents.modelFallbacks on provider
+ * errors and rate limits. Usage from failed attempts is kept in the result.
+ */
 async function runAgent(
 	agent: AgentProfile,
 	task: string,
@@ -320,7 +377,37 @@ async function runAgent(
 	onResultUpdate: (result: DispatchResult) => void,
 	onStreamEvent?: OnStreamEvent,
 ): Promise<DispatchResult> {
-	const args = buildSubprocessArgs(agent, cwd);
+	const models = resolveModelChain(agent, getConfig(cwd));
+	const spent: UsageStats = { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 0 };
+
+	for (let attempt = 1; ; attempt++) {
+		const result = await runAgentOnce(agent, task, cwd, step, signal, onResultUpdate, onStreamEvent, models[attempt - 1]);
+		result.attempts = attempt;
+		for (const key of ["input", "output", "cacheRead", "cacheWrite", "cost", "turns"] as const) {
+			result.usage[key] += spent[key];
+			spent[key] = result.usage[key];
+		}
+
+		const hardLimitReached = sessionCostUsd >= getConfig(cwd).costs.hardLimitUsd;
+		if (attempt >= models.length || !shouldFallback(result) || signal?.aborted || hardLimitReached) {
+			return result;
+		}
+		await sleep(fallbackBackoffMs(attempt), signal);
+		if (signal?.aborted) return result;
+	}
+}
+
+async function runAgentOnce(
+	agent: AgentProfile,
+	task: string,
+	cwd: string,
+	step: number | undefined,
+	signal: AbortSignal | undefined,
+	onResultUpdate: (result: DispatchResult) => void,
+	onStreamEvent: OnStreamEvent | undefined,
+	model: string | undefined,
+): Promise<DispatchResult> {
+	const args = buildSubprocessArgs(agent, cwd, model);
 
 	let tmpPromptDir: string | null = null;
 	let tmpPromptPath: string | null = null;
@@ -333,7 +420,7 @@ async function runAgent(
 		messages: [],
 		stderr: "",
 		usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0, contextTokens: 0, turns: 0 },
-		model: agent.model,
+		model: model ?? agent.model,
 		step,
 	};
 
@@ -351,6 +438,11 @@ async function runAgent(
 		const exitCode = await new Promise<number>((resolve) => {
 			const proc = spawn("pi", args, {
 				cwd, shell: false, stdio: ["ignore", "pipe", "pipe"],
+				env: {
+					...process.env,
+					...subprocessEnv,
+					[AGENT_ENV_VAR]: agent.name,
+				},
 			});
 
 			let buffer = "";
@@ -482,11 +574,12 @@ export async function dispatchAgent(
 
 /**
  * Dispatch multiple agents in parallel with concurrency limit.
+ * Pass an array for `cwd` to run each agent in its own directory (e.g. a git worktree).
  */
 export async function dispatchParallel(
 	agents: AgentProfile[],
 	tasks: string[],
-	cwd: string,
+	cwd: string | string[],
 	signal?: AbortSignal,
 	onUpdate?: OnUpdateCallback,
 ): Promise<DispatchResult[]> {
@@ -496,6 +589,9 @@ export async function dispatchParallel(
 	if (agents.length > MAX_PARALLEL_TASKS) {
 		throw new Error(`Too many parallel tasks (${agents.length}). Max is ${MAX_PARALLEL_TASKS}.`);
 	}
+	if (Array.isArray(cwd) && cwd.length !== agents.length) {
+		throw new Error(`Agent count (${agents.length}) must match cwd count (${cwd.length})`);
+	}
 
 	// Initialize placeholder results
 	const allResults: DispatchResult[] = agents.map((a, i) => ({
@@ -523,7 +619,8 @@ export async function dispatchParallel(
 		agents.map((a, i) => ({ agent: a, task: tasks[i], index: i })),
 		MAX_CONCURRENCY,
 		async ({ agent, task, index }) => {
-			const result = await runAgent(agent, task, cwd, undefined, signal, (r) => {
+			const agentCwd = Array.isArray(cwd) ? cwd[index] : cwd;
+			const result = await runAgent(agent, task, agentCwd, undefined, signal, (r) => {
 				allResults[index] = r;
 				emitUpdate();
 			});
@@ -579,21 +676,6 @@ export async function dispatchChain(
 
 // --- Write-guard ---
 
-/** Bash command patterns that indicate write operations */
-const WRITE_BASH_PATTERNS = [
-	/[^>]?>(?!>)/, // single > redirect (but not >>)
-	/>>/,          // >> append
-	/\btee\b/,
-	/\bsed\s+-i\b/,
-	/\bmv\b/,
-	/\bcp\b/,
-	/\brm\b/,
-	/\bmkdir\b/,
-	/\bchmod\b/,
-	/\bchown\b/,
-	/\btouch\b/,
-];
-
 /** Write tool names */
 const WRITE_TOOL_NAMES = new Set(["write", "edit"]);
 
@@ -614,14 +696,10 @@ export function hasWriteToolCalls(messages: Message[]): boolean {
 			// Direct write tools
 			if (WRITE_TOOL_NAMES.has(toolName)) return true;
 
-			// Bash write heuristics
+			// Bash commands that mutate files (redirects, rm, sed -i, git apply, ...)
 			if (toolName === "bash") {
 				const command = (part as any).input?.command as string;
-				if (command) {
-					for (const pattern of WRITE_BASH_PATTERNS) {
-						if (pattern.test(command)) return true;
-					}
-				}
+				if (command && findBashMutations(command).length > 0) return true;
 			}
 		}
 	}
@@ -659,13 +737,14 @@ export function formatTokens(count: number): string {
 	return `${(count / 1000000).toFixed(1)}M`;
 }
 
-export function formatUsage(usage: UsageStats, model?: string): string {
+export function formatUsage(usage: UsageStats, model?: string, attempts?: number): string {
 	const parts: string[] = [];
 	if (usage.turns) parts.push(`${usage.turns} turn${usage.turns > 1 ? "s" : ""}`);
 	if (usage.input) parts.push(`↑${formatTokens(usage.input)}`);
 	if (usage.output) parts.push(`↓${formatTokens(usage.output)}`);
 	if (usage.cost) parts.push(`$${usage.cost.toFixed(4)}`);
 	if (model) parts.push(model);
+	if (attempts && attempts > 1) parts.push(`(${attempts} attempts)`);
 	return parts.join(" ");
 }
 
@@ -5,15 +5,21 @@
  * All business logic lives in dispatch, config, guard, rules, state modules.
  */
 
-import type { ExtensionAPI } from "@mariozechner/pi-coding-agent";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
 import { Container, Spacer, Text } from "@mariozechner/pi-tui";
 import { Type } from "@sinclair/typebox";
 import { getConfig, getPackageDir } from "./config.js";
-import { formatAgentLine } from "./team-display.js";
+import { formatAgentLine, formatRuleLine } from "./team-display.js";
 import {
 	type AgentProfile,
 	type DispatchDetails,
 	type DispatchResult,
+	AGENT_ENV_VAR,
+	PHASE_ENV_VAR,
+	RULES_DIR_ENV_VAR,
+	TDD_MODE_ENV_VAR,
 	aggregateUsage,
 	checkCostBudget,
 	discoverAgents,
@@ -25,6 +31,7 @@ import {
 	getFinalOutput,
 	getSessionCost,
 	resetSessionCost,
+	setSubprocessEnv,
 } from "./dispatch.js";
 import {
 	type TddMode,
@@ -32,14 +39,27 @@ import {
 	getState,
 	initState,
 	loadPlanIntoState,
+	persistRuleStates,
+	persistTddState,
 	restoreFromBranch,
 	setTddMode,
 	updateWidget,
 } from "./workflow/state.js";
 import {
+	disableRule,
+	discoverProjectRules,
+	enableRule,
+	formatRuleTest,
+	formatRulesList,
+	getRuleLoadErrors,
+	getRules,
 	handleContext as handleRuleContext,
+	handleToolCall as handleRuleToolCall,
+	handleToolResult as handleRuleToolResult,
 	loadRules,
-	resetRuleStates,
+	MAIN_AGENT,
+	reloadRules,
+	type RuleScope,
 } from "./rules/engine.js";
 import {
 	consumeAtddWarning,
@@ -47,12 +67,14 @@ import {
 	handleToolCall,
 	handleToolResult,
 	handleUserBash,
-	resetTddState,
-	restoreTddState,
-	serializeTddState,
+	formatTddStatus,
+	resetTestFileCache,
 } from "./workflow/tdd-guard.js";
+import { formatTddReport, getAuditLog, workflowAuditLog } from "./workflow/tdd-audit.js";
 import { runOrchestrator, runWorkflowLoop } from "./workflow/orchestrator.js";
-import { loadState as loadWorkflowState, clearState as clearWorkflowState, createInitialState, saveState as saveWorkflowState } from "./workflow/orchestrator-state.js";
+import { type OrchestratorPhase, loadState as loadWorkflowState, clearState as clearWorkflowState, createInitialState, saveState as saveWorkflowState } from "./workflow/orchestrator-state.js";
+import { formatHistory, readHistory, recordAbortedWorkflow } from "./workflow/history.js";
+import { peekQueue, removeQueued, moveQueued, formatQueue, createQueuedWorkflowState } from "./workflow/workflow-queue.js";
 
 export default function superteam(pi: ExtensionAPI) {
 	// --- team tool ---
@@ -365,7 +387,7 @@ export default function superteam(pi: ExtensionAPI) {
 				const isError = r.exitCode !== 0 || r.stopReason === "error" || r.stopReason === "aborted";
 				const icon = isError ? theme.fg("error", "✗") : theme.fg("success", "✓");
 				const output = getFinalOutput(r.messages);
-				const usageStr = formatUsage(r.usage, r.model);
+				const usageStr = formatUsage(r.usage, r.model, r.attempts);
 
 				let text = `${icon} ${theme.fg("toolTitle", theme.bold(r.agent))}${theme.fg("muted", ` (${r.agentSource})`)}`;
 				if (isError && r.errorMessage) {
@@ -404,7 +426,7 @@ export default function superteam(pi: ExtensionAPI) {
 						if (output) {
 							container.addChild(new Text(theme.fg("toolOutput", output), 0, 0));
 						}
-						const stepUsage = formatUsage(r.usage, r.model);
+						const stepUsage = formatUsage(r.usage, r.model, r.attempts);
 						if (stepUsage) container.addChild(new Text(theme.fg("dim", stepUsage), 0, 0));
 					}
 
@@ -460,7 +482,7 @@ export default function superteam(pi: ExtensionAPI) {
 							0, 0,
 						));
 						if (output) container.addChild(new Text(theme.fg("toolOutput", output), 0, 0));
-						const taskUsage = formatUsage(r.usage, r.model);
+						const taskUsage = formatUsage(r.usage, r.model, r.attempts);
 						if (taskUsage) container.addChild(new Text(theme.fg("dim", taskUsage), 0, 0));
 					}
 
@@ -514,10 +536,15 @@ export default function superteam(pi: ExtensionAPI) {
 			const config = getConfig(ctx.cwd);
 			const lines = agents.map((a) => formatAgentLine(a, config));
 
+			const activeRules = getRules();
+			const rulesSection = activeRules.length > 0
+				? `\n\nActive rules (${activeRules.length}):\n\n${activeRules.map(formatRuleLine).join("\n\n")}`
+				: "";
+
 			const cost = getSessionCost();
 			const costLine = `\nSession cost: $${cost.toFixed(4)} / $${config.costs.hardLimitUsd.toFixed(2)} limit`;
 
-			ctx.ui.notify(`Available agents (${agents.length}):\n\n${lines.join("\n\n")}${costLine}`, "info");
+			ctx.ui.notify(`Available agents (${agents.length}):\n\n${lines.join("\n\n")}${rulesSection}${costLine}`, "info");
 		},
 	});
 
@@ -647,9 +674,11 @@ export default function superteam(pi: ExtensionAPI) {
 	// --- /workflow command ---
 
 	pi.registerCommand("workflow", {
-		description: "Orchestrated workflow. /workflow <description> to start, /workflow to resume, /workflow status, /workflow abort",
+		description: "Orchestrated workflow. /workflow [--headless] <description> to start, /workflow [--headless] to resume, /workflow status, /workflow abort, /workflow history, /workflow queue",
 		async handler(args, ctx) {
-			const trimmed = args.trim();
+			// --headless answers every prompt from .superteam-policy.json
+			const headless = /^--headless(\s|$)/.test(args.trim());
+			const trimmed = (headless ? args.trim().slice("--headless".length) : args).trim();
 
 			// /workflow status
 			if (trimmed === "status") {
@@ -660,14 +689,68 @@ export default function superteam(pi: ExtensionAPI) {
 				}
 				const tasksDone = state.tasks.filter((t) => t.status === "complete").length;
 				ctx.ui.notify(
-					`Phase: ${state.phase} | Tasks: ${tasksDone}/${state.tasks.length} | Cost: $${state.totalCostUsd.toFixed(2)}`,
+					`Phase: ${state.phase} | Tasks: ${tasksDone}/${state.tasks.length} | Cost: $${state.totalCostUsd.toFixed(2)}${state.config.budgetUsd ? ` / $${state.config.budgetUsd.toFixed(2)} budget` : ""}`,
 					"info",
 				);
 				return;
 			}
 
+			// /workflow history
+			if (trimmed === "history") {
+				ctx.ui.notify(formatHistory(readHistory(ctx.cwd)), "info");
+				return;
+			}
+
+			// /workflow queue [start [n] | move <from> <to> | drop <n>]
+			if (trimmed === "queue" || trimmed.startsWith("queue ")) {
+				const [sub, ...rest] = trimmed.split(/\s+/).slice(1);
+				const positions = rest.map((n) => parseInt(n, 10) - 1);
+				const queued = peekQueue(ctx.cwd);
+
+				if (!sub) {
+					ctx.ui.notify(formatQueue(queued), "info");
+					return;
+				}
+
+				if (sub === "drop") {
+					const dropped = removeQueued(ctx.cwd, positions[0] ?? -1);
+					ctx.ui.notify(dropped ? `Dropped "${dropped.title}" from the queue.` : "Usage: /workflow queue drop <n>", dropped ? "info" : "warning");
+					return;
+				}
+
+				if (sub === "move") {
+					const moved = positions.length === 2 && moveQueued(ctx.cwd, positions[0], positions[1]);
+					ctx.ui.notify(moved ? formatQueue(peekQueue(ctx.cwd)) : "Usage: /workflow queue move <from> <to>", moved ? "info" : "warning");
+					return;
+				}
+
+				if (sub === "start") {
+					const index = positions[0] ?? 0;
+					if (!Number.isInteger(index) || index < 0 || index >= queued.length) {
+						ctx.ui.notify(queued.length === 0 ? "Workflow queue is empty." : "Usage: /workflow queue start [n]", "warning");
+						return;
+					}
+					const existingState = loadWorkflowState(ctx.cwd);
+					if (existingState && existingState.phase !== "done") {
+						const replace = await ctx.ui.confirm("A workflow already exists. Replace it?");
+						if (!replace) return;
+						recordAbortedWorkflow(ctx.cwd, existingState);
+					}
+					clearWorkflowState(ctx.cwd);
+					const state = createQueuedWorkflowState(removeQueued(ctx.cwd, index)!);
+					saveWorkflowState(state, ctx.cwd);
+					await runWorkflowLoop(state, ctx);
+					return;
+				}
+
+				ctx.ui.notify("Unknown subcommand. Usage: /workflow queue [start [n] | move <from> <to> | drop <n>]", "warning");
+				return;
+			}
+
 			// /workflow abort
 			if (trimmed === "abort") {
+				const state = loadWorkflowState(ctx.cwd);
+				if (state) recordAbortedWorkflow(ctx.cwd, state);
 				clearWorkflowState(ctx.cwd);
 				ctx.ui.notify("Workflow aborted and state cleared.", "info");
 				return;
@@ -678,6 +761,7 @@ export default function superteam(pi: ExtensionAPI) {
 				const existingState = loadWorkflowState(ctx.cwd);
 				if (existingState) {
 					// Resume
+					if (headless) existingState.headless = true;
 					await runWorkflowLoop(existingState, ctx);
 					return;
 				}
@@ -685,6 +769,7 @@ export default function superteam(pi: ExtensionAPI) {
 				const description = await ctx.ui.input("Start Workflow", "Describe what you want to build");
 				if (!description) return;
 				const state = createInitialState(description);
+				if (headless) state.headless = true;
 				saveWorkflowState(state, ctx.cwd);
 				await runWorkflowLoop(state, ctx);
 				return;
@@ -696,13 +781,16 @@ export default function superteam(pi: ExtensionAPI) {
 				const replace = await ctx.ui.confirm("A workflow already exists. Replace it?");
 				if (!replace) {
 					// Resume existing
+					if (headless) existingState.headless = true;
 					await runWorkflowLoop(existingState, ctx);
 					return;
 				}
+				recordAbortedWorkflow(ctx.cwd, existingState);
 				clearWorkflowState(ctx.cwd);
 			}
 
 			const state = createInitialState(trimmed);
+			if (headless) state.headless = true;
 			saveWorkflowState(state, ctx.cwd);
 			await runWorkflowLoop(state, ctx);
 		},
@@ -754,7 +842,7 @@ export default function superteam(pi: ExtensionAPI) {
 	// --- /tdd command (toggle TDD mode + escape hatch) ---
 
 	pi.registerCommand("tdd", {
-		description: "TDD mode control. Usage: /tdd [off|tdd|atdd] | /tdd allow-bash-write once <reason>",
+		description: "TDD mode control. Usage: /tdd [off|tdd|atdd] | /tdd status | /tdd report [workflow] [--out <file.md>] | /tdd allow-bash-write once <reason>",
 		async handler(args, ctx) {
 			const parts = args.trim().split(/\s+/);
 			const sub = parts[0]?.toLowerCase() || "";
@@ -775,6 +863,45 @@ export default function superteam(pi: ExtensionAPI) {
 				return;
 			}
 
+			// Guarded impl files and the state of their tests
+			if (sub === "status") {
+				ctx.ui.notify(formatTddStatus(getConfig(ctx.cwd).tddMode), "info");
+				return;
+			}
+
+			// Compliance report for the session or the current workflow, optionally written to a Markdown file
+			if (sub === "report") {
+				const rest = parts.slice(1);
+				const outIndex = rest.indexOf("--out");
+				const outFile = outIndex === -1 ? undefined : rest[outIndex + 1];
+				if (outIndex !== -1 && !outFile) {
+					ctx.ui.notify("Usage: /tdd report [workflow] [--out <file.md>]", "warning");
+					return;
+				}
+				const workflow = rest[0] === "workflow" ? loadWorkflowState(ctx.cwd) : null;
+				if (rest[0] === "workflow" && !workflow) {
+					ctx.ui.notify("No active workflow.", "info");
+					return;
+				}
+				const report = formatTddReport(workflow ? workflowAuditLog(ctx.cwd) : getAuditLog(), {
+					mode: getConfig(ctx.cwd).tddMode,
+					scope: workflow ? `workflow "${workflow.userDescription}"` : "session",
+					since: workflow?.startedAt,
+				});
+				if (outFile) {
+					try {
+						fs.writeFileSync(path.resolve(ctx.cwd, outFile), report + "\n", "utf-8");
+					} catch (e: any) {
+						ctx.ui.notify(`Failed to write TDD report to ${outFile}: ${e.message}`, "error");
+						return;
+					}
+					ctx.ui.notify(`TDD report written to ${outFile}`, "info");
+				} else {
+					ctx.ui.notify(report, "info");
+				}
+				return;
+			}
+
 			// Bash write allowance escape hatch
 			if (sub === "allow-bash-write" && parts[1]?.toLowerCase() === "once") {
 				const reason = parts.slice(2).join(" ").trim();
@@ -783,32 +910,127 @@ export default function superteam(pi: ExtensionAPI) {
 					return;
 				}
 				grantBashWriteAllowance(reason);
+				persistTddState();
 				ctx.ui.notify(`Bash write allowed once: ${reason}`, "info");
 				return;
 			}
 
-			ctx.ui.notify("Usage: /tdd [off|tdd|atdd] | /tdd allow-bash-write once <reason>", "warning");
+			ctx.ui.notify("Usage: /tdd [off|tdd|atdd] | /tdd status | /tdd report [workflow] [--out <file.md>] | /tdd allow-bash-write once <reason>", "warning");
 		},
 	});
 
-	// --- TDD Guard event handlers ---
+	// --- /rules command ---
+
+	pi.registerCommand("rules", {
+		description: "Inspect and toggle rules. Usage: /rules [list] | /rules test <text> | /rules disable <name> | /rules enable <name> | /rules reload",
+		async handler(args, ctx) {
+			const trimmed = args.trim();
+			const sub = trimmed.split(/\s+/)[0]?.toLowerCase() || "list";
+			const rest = trimmed.slice(sub.length).trim();
+
+			if (sub === "list") {
+				ctx.ui.notify(formatRulesList(), "info");
+				return;
+			}
+
+			// Which regex triggers match sample text
+			if (sub === "test") {
+				if (!rest) {
+					ctx.ui.notify("Usage: /rules test <text>", "warning");
+					return;
+				}
+				ctx.ui.notify(formatRuleTest(rest), "info");
+				return;
+			}
+
+			// Session-scoped toggles, persisted with the rule firing history
+			if (sub === "disable" || sub === "enable") {
+				if (!rest) {
+					ctx.ui.notify(`Usage: /rules ${sub} <name>`, "warning");
+					return;
+				}
+				const ok = sub === "disable" ? disableRule(rest) : enableRule(rest);
+				if (!ok) {
+					ctx.ui.notify(sub === "disable" ? `No rule named "${rest}".` : `Rule "${rest}" is not disabled.`, "warning");
+					return;
+				}
+				persistRuleStates();
+				ctx.ui.notify(`Rule ${rest} ${sub}d for this session.`, "info");
+				return;
+			}
+
+			// Re-read package and trusted project rules, keeping firing history
+			if (sub === "reload") {
+				reloadRules(await resolveProjectRulesDir(ctx));
+				const errors = getRuleLoadErrors();
+				const errorNote = errors.length > 0 ? ` ${errors.length} file(s) not loaded — see /rules list.` : "";
+				ctx.ui.notify(`Reloaded ${getRules().length} rule(s).${errorNote}`, errors.length > 0 ? "warning" : "info");
+				return;
+			}
+
+			ctx.ui.notify("Usage: /rules [list] | /rules test <text> | /rules disable <name> | /rules enable <name> | /rules reload", "warning");
+		},
+	});
+
+	// --- Rule engine (TTSR-like context injection) ---
+
+	// Rule scope: dispatched agent or main session, TDD mode, workflow phase. A dispatched
+	// agent gets the workflow's phase and mode from dispatch (worktrees have no state file).
+	// Worked out once per turn.
+	let turnScope: RuleScope | undefined;
+	const ruleScope = (cwd: string): RuleScope => turnScope ??= {
+		agent: process.env[AGENT_ENV_VAR] || MAIN_AGENT,
+		tddMode: (process.env[TDD_MODE_ENV_VAR] as TddMode | undefined) || getConfig(cwd).tddMode,
+		phase: (process.env[PHASE_ENV_VAR] as OrchestratorPhase | undefined) || loadWorkflowState(cwd)?.phase,
+	};
+
+	pi.on("turn_start", () => {
+		turnScope = undefined;
+	});
+
+	pi.on("context", (event, ctx) => {
+		const result = handleRuleContext(event, ctx.cwd, (message) => {
+			if (ctx.hasUI) ctx.ui.notify(message, "info");
+		}, ruleScope(ctx.cwd));
+		persistRuleStates(); // New turn, and any rules that fired — record for resume
+		return result;
+	});
+
+	// block and warn rules act on the tool call itself. Registered before the TDD guard: pi stops
+	// at the first block, so a call a rule blocks never reaches the guard's write tracking and audit.
 
 	pi.on("tool_call", (event, ctx) => {
-		return handleToolCall(event, ctx);
+		const result = handleRuleToolCall(event, ctx.cwd, ruleScope(ctx.cwd));
+		if (result) persistRuleStates();
+		return result;
 	});
 
 	pi.on("tool_result", (event, ctx) => {
-		return handleToolResult(event, ctx);
+		const result = handleRuleToolResult(event, ctx.cwd, ruleScope(ctx.cwd));
+		if (result) persistRuleStates();
+		return result;
 	});
 
-	pi.on("user_bash", (event, ctx) => {
-		return handleUserBash(event, ctx);
+	// --- TDD Guard event handlers ---
+
+	// Guard state is persisted after each event (no-op when unchanged) for resume
+
+	pi.on("tool_call", async (event, ctx) => {
+		const result = await handleToolCall(event, ctx);
+		persistTddState();
+		return result;
 	});
 
-	// --- Rule engine (TTSR-like context injection) ---
+	pi.on("tool_result", (event, ctx) => {
+		const result = handleToolResult(event, ctx);
+		persistTddState();
+		return result;
+	});
 
-	pi.on("context", (event, _ctx) => {
-		return handleRuleContext(event);
+	pi.on("user_bash", (event, ctx) => {
+		const result = handleUserBash(event, ctx);
+		persistTddState();
+		return result;
 	});
 
 	// --- Session lifecycle ---
@@ -816,11 +1038,46 @@ export default function superteam(pi: ExtensionAPI) {
 	initState(pi);
 	loadRules(); // Initial load (session_start reloads)
 
-	pi.on("session_start", (_event, ctx) => {
+	// Project rules are repo-controlled — same trust confirmation as project agents.
+	// Approval is remembered per directory for the lifetime of the extension, and
+	// passed on to dispatched agents, which load the same rules without asking.
+	let trustedRulesDir: string | null = null;
+	const confirmProjectRulesDir = async (ctx: ExtensionContext): Promise<string | undefined> => {
+		const { rules: projectRules, projectRulesDir } = discoverProjectRules(ctx.cwd);
+		if (!projectRulesDir || projectRules.length === 0) return undefined;
+		if (projectRulesDir === trustedRulesDir) return projectRulesDir;
+		if (!ctx.hasUI) return undefined;
+
+		const ok = await ctx.ui.confirm(
+			"Load project-local rules?",
+			`Rules: ${projectRules.map((r) => r.name).join(", ")}\nFrom: ${projectRulesDir}\nProject rules are repo-controlled. Only continue for trusted repositories.`,
+		);
+		if (!ok) return undefined;
+		trustedRulesDir = projectRulesDir;
+		return projectRulesDir;
+	};
+
+	// A dispatched agent takes the rules its dispatcher trusted
+	const resolveProjectRulesDir = async (ctx: ExtensionContext): Promise<string | undefined> => {
+		const rulesDir = process.env[RULES_DIR_ENV_VAR] || await confirmProjectRulesDir(ctx);
+		setSubprocessEnv(RULES_DIR_ENV_VAR, rulesDir);
+		return rulesDir;
+	};
+
+	pi.on("session_start", async (_event, ctx) => {
 		resetSessionCost();
-		resetTddState();
-		resetRuleStates();
-		loadRules(); // Load rules from package rules/ dir
+		resetTestFileCache(); // Re-read git ls-files for the new session
+		loadRules(await resolveProjectRulesDir(ctx)); // Package rules/ + trusted .pi/rules/
+		const ruleErrors = getRuleLoadErrors();
+		if (ruleErrors.length > 0 && ctx.hasUI) {
+			ctx.ui.notify(`${ruleErrors.length} rule file(s) not loaded — see /rules list.`, "warning");
+		}
+		restoreFromBranch(ctx); // Workflow state, rule history and TDD guard state
+		updateWidget(ctx);
+	});
+
+	// Navigating the session tree moves to another branch — re-derive state from it
+	pi.on("session_tree", async (_event, ctx) => {
 		restoreFromBranch(ctx);
 		updateWidget(ctx);
 	});
@@ -0,0 +1,394 @@
+import { describe, it, expect, afterEach, vi } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import {
+	discoverProjectRules,
+	loadRules,
+	reloadRules,
+	getRules,
+	getRuleLoadErrors,
+	disableRule,
+	enableRule,
+	formatRulesList,
+	formatRuleTest,
+	serializeRuleStates,
+	restoreRuleStates,
+	handleContext,
+	handleToolCall,
+	handleToolResult,
+} from "./engine.ts";
+
+function writeRule(dir: string, file: string, frontmatter: Record<string, string>, body = "Rule body"): void {
+	fs.mkdirSync(dir, { recursive: true });
+	const fm = Object.entries(frontmatter).map(([k, v]) => `${k}: ${JSON.stringify(v)}`).join("\n");
+	fs.writeFileSync(path.join(dir, file), `---\n${fm}\n---\n${body}\n`);
+}
+
+describe("discoverProjectRules", () => {
+	let tmpDir: string;
+
+	afterEach(() => {
+		if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("finds .pi/rules by walking up from cwd", () => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rules-discover-"));
+		const rulesDir = path.join(tmpDir, ".pi", "rules");
+		writeRule(rulesDir, "no-any.md", { name: "no-any", trigger: "as any" });
+		const nested = path.join(tmpDir, "packages", "app");
+		fs.mkdirSync(nested, { recursive: true });
+
+		const { rules, projectRulesDir } = discoverProjectRules(nested);
+		expect(projectRulesDir).toBe(rulesDir);
+		expect(rules.map((r) => r.name)).toEqual(["no-any"]);
+		expect(rules[0].source).toBe("project");
+	});
+
+	it("returns null when there is no .pi/rules directory", () => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rules-discover-"));
+		expect(discoverProjectRules(tmpDir).projectRulesDir).toBeNull();
+	});
+});
+
+describe("loadRules", () => {
+	let tmpDir: string;
+
+	afterEach(() => {
+		if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+		loadRules();
+	});
+
+	it("loads package rules when no project dir is given", () => {
+		loadRules();
+		const rules = getRules();
+		expect(rules.map((r) => r.name)).toContain("test-first");
+		expect(rules.every((r) => r.source === "package")).toBe(true);
+	});
+
+	it("lets a project rule override a package rule with the same name", () => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rules-load-"));
+		writeRule(tmpDir, "test-first.md", { name: "test-first", trigger: "custom", priority: "low" }, "Project version");
+		writeRule(tmpDir, "extra.md", { name: "extra", trigger: "extra" });
+
+		loadRules(tmpDir);
+		const rules = getRules();
+		const testFirst = rules.filter((r) => r.name === "test-first");
+		expect(testFirst).toHaveLength(1);
+		expect(testFirst[0].source).toBe("project");
+		expect(testFirst[0].content).toBe("Project version");
+		expect(rules.find((r) => r.name === "extra")?.source).toBe("project");
+		expect(rules.find((r) => r.name === "yagni")?.source).toBe("package");
+	});
+});
+
+function assistant(text: string, toolCalls: Array<{ name: string; arguments: Record<string, any> }> = []): any {
+	return {
+		role: "assistant",
+		content: [
+			{ type: "text", text },
+			...toolCalls.map((c, i) => ({ type: "toolCall", id: `call-${i}`, ...c })),
+		],
+	};
+}
+
+function user(text: string): any {
+	return { role: "user", content: [{ type: "text", text }], timestamp: 0 };
+}
+
+function injectedRuleNames(result: ReturnType<typeof handleContext>): string[] {
+	if (!result?.messages) return [];
+	return result.messages
+		.map((m: any) => m.content?.[0]?.text as string | undefined)
+		.filter((t): t is string => !!t && t.startsWith("[superteam rule: "))
+		.map((t) => t.slice("[superteam rule: ".length, t.indexOf("]")));
+}
+
+describe("handleContext triggers", () => {
+	let tmpDir: string;
+	const cwd = "/repo";
+
+	afterEach(() => {
+		if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+		loadRules();
+	});
+
+	function loadProjectRules(defs: Array<Record<string, string>>): void {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rules-triggers-"));
+		for (const def of defs) writeRule(tmpDir, `${def.name}.md`, def);
+		loadRules(tmpDir);
+	}
+
+	function fire(messages: any[]): string[] {
+		return injectedRuleNames(handleContext({ type: "context", messages } as any, cwd));
+	}
+
+	it("fires trigger-tool rules when the latest assistant message calls the tool", () => {
+		loadProjectRules([{ name: "bash-care", "trigger-tool": "bash, write" }]);
+		expect(fire([user("go"), assistant("running", [{ name: "bash", arguments: { command: "ls" } }])])).toContain("bash-care");
+		expect(fire([user("go"), assistant("reading", [{ name: "read", arguments: { path: "a.ts" } }])])).not.toContain("bash-care");
+	});
+
+	it("fires trigger-path rules for matching globs relative to cwd", () => {
+		loadProjectRules([{ name: "migrations", "trigger-path": "migrations/**" }, { name: "sql", "trigger-path": "*.sql" }]);
+		const names = fire([user("go"), assistant("", [{ name: "write", arguments: { path: "/repo/migrations/2024/001.sql" } }])]);
+		expect(names).toEqual(expect.arrayContaining(["migrations", "sql"]));
+		expect(fire([user("go"), assistant("", [{ name: "edit", arguments: { path: "src/migrations.ts" } }])])).not.toContain("migrations");
+	});
+
+	it("fires trigger-source rules when the new user message matches", () => {
+		loadProjectRules([{ name: "deploy", "trigger-source": "deploy|release" }]);
+		expect(fire([user("Please deploy to staging")])).toContain("deploy");
+		// Once the assistant has responded, the user message no longer triggers
+		expect(fire([user("Please deploy to staging"), assistant("ok")])).not.toContain("deploy");
+	});
+
+	it("still fires regex triggers on assistant output", () => {
+		loadProjectRules([{ name: "no-any", trigger: "as any" }]);
+		expect(fire([user("go"), assistant("I'll cast it with as any")])).toContain("no-any");
+	});
+
+	it("ignores rules without any trigger", () => {
+		loadProjectRules([{ name: "no-trigger", priority: "high" }]);
+		expect(getRules().map((r) => r.name)).not.toContain("no-trigger");
+	});
+});
+
+describe("rule actions", () => {
+	let tmpDir: string;
+	const cwd = "/repo";
+
+	afterEach(() => {
+		if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+		loadRules();
+	});
+
+	function loadProjectRules(defs: Array<Record<string, string>>): void {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rules-actions-"));
+		for (const def of defs) writeRule(tmpDir, `${def.name}.md`, def, `${def.name} body`);
+		loadRules(tmpDir);
+	}
+
+	function context(messages: any[], notify?: (message: string) => void) {
+		return handleContext({ type: "context", messages } as any, cwd, notify);
+	}
+
+	function toolCall(toolName: string, input: Record<string, any>) {
+		return handleToolCall({ type: "tool_call", toolCallId: "call-1", toolName, input } as any, cwd);
+	}
+
+	function toolResult(toolName: string, input: Record<string, any>) {
+		return handleToolResult({
+			type: "tool_result", toolCallId: "call-1", toolName, input,
+			content: [{ type: "text", text: "done" }], isError: false, details: undefined,
+		} as any, cwd);
+	}
+
+	it("defaults to inject and skips rules with an unknown action", () => {
+		loadProjectRules([{ name: "plain", trigger: "x" }, { name: "typo", trigger: "x", action: "blok" }]);
+		const names = getRules().map((r) => r.name);
+		expect(names).not.toContain("typo");
+		expect(getRules().find((r) => r.name === "plain")?.action).toBe("inject");
+	});
+
+	it("block stops tool calls touching a matching path, including bash writes", () => {
+		loadProjectRules([{ name: "no-generated", "trigger-path": "generated/**", action: "block" }]);
+
+		expect(toolCall("write", { path: "/repo/generated/api.ts", content: "" })).toEqual({
+			block: true,
+			reason: "[superteam rule: no-generated] no-generated body",
+		});
+		expect(toolCall("bash", { command: "sed -i 's/a/b/' generated/api.ts" })?.block).toBe(true);
+		expect(toolCall("write", { path: "src/api.ts", content: "" })).toBeUndefined();
+		// Not injected into the context
+		expect(injectedRuleNames(context([user("go"), assistant("", [{ name: "write", arguments: { path: "generated/x.ts" } }])]))).toEqual([]);
+	});
+
+	it("block with a text trigger stops only the next tool call", () => {
+		loadProjectRules([{ name: "no-force-push", trigger: "force push", action: "block" }]);
+		context([user("go"), assistant("I'll force push the branch")]);
+
+		expect(toolCall("bash", { command: "git push -f" })?.reason).toContain("no-force-push body");
+		expect(toolCall("bash", { command: "git status" })).toBeUndefined();
+	});
+
+	it("text triggers arm on new assistant messages only, and the first blocked call disarms them", () => {
+		loadProjectRules([
+			{ name: "no-force-push", trigger: "force push", action: "block" },
+			{ name: "push-warning", trigger: "force push", action: "warn" },
+		]);
+		const plan = { ...assistant("I'll force push the branch"), timestamp: 1 };
+		context([user("go"), plan]);
+
+		expect(toolCall("bash", { command: "git push -f" })?.block).toBe(true);
+		expect(toolResult("bash", { command: "git push -f" })).toBeUndefined();
+
+		// Next turn: the same message is still in the context
+		context([user("go"), plan, { ...assistant("Pushing without force instead"), timestamp: 2 }]);
+		expect(toolCall("bash", { command: "git push" })).toBeUndefined();
+	});
+
+	it("warn appends the rule to the result of a matching tool call", () => {
+		loadProjectRules([{ name: "lockfile", "trigger-path": "package-lock.json", action: "warn" }]);
+
+		expect(toolResult("edit", { path: "package-lock.json" })?.content).toEqual([
+			{ type: "text", text: "done" },
+			{ type: "text", text: "⚠️ [superteam rule: lockfile] lockfile body" },
+		]);
+		expect(toolResult("edit", { path: "package.json" })).toBeUndefined();
+	});
+
+	it("notify reports the rule to the human instead of injecting it", () => {
+		loadProjectRules([{ name: "deploy", "trigger-source": "deploy", action: "notify" }]);
+		const notify = vi.fn();
+
+		const result = context([user("deploy to prod")], notify);
+
+		expect(injectedRuleNames(result)).toEqual([]);
+		expect(notify).toHaveBeenCalledWith("Rule deploy: deploy body");
+	});
+
+	it("respects frequency for tool-call actions", () => {
+		loadProjectRules([{ name: "once-block", "trigger-tool": "bash", action: "block", frequency: "once" }]);
+		expect(toolCall("bash", { command: "ls" })?.block).toBe(true);
+		expect(toolCall("bash", { command: "ls" })).toBeUndefined();
+	});
+});
+
+describe("/rules support", () => {
+	let tmpDir: string;
+
+	afterEach(() => {
+		if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+		loadRules();
+	});
+
+	function loadProjectRules(defs: Array<Record<string, string>>): void {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rules-command-"));
+		for (const def of defs) writeRule(tmpDir, `${def.name}.md`, def);
+		loadRules(tmpDir);
+	}
+
+	function fire(text: string): void {
+		handleContext({ type: "context", messages: [user("go"), assistant(text)] } as any, "/repo");
+	}
+
+	it("reports rule files that were skipped, including invalid trigger regexes", () => {
+		loadProjectRules([
+			{ name: "bad-regex", trigger: "(unclosed" },
+			{ name: "no-trigger", priority: "high" },
+			{ name: "bad-action", trigger: "x", action: "explode" },
+		]);
+
+		const errors = getRuleLoadErrors().map((e) => [path.basename(e.filePath), e.reason]);
+		expect(errors).toEqual(expect.arrayContaining([
+			["bad-regex.md", expect.stringContaining("Invalid trigger regex")],
+			["no-trigger.md", "No trigger, trigger-tool, trigger-path or trigger-source"],
+			["bad-action.md", expect.stringContaining('Unknown action "explode"')],
+		]));
+		expect(formatRulesList()).toContain("Not loaded (3):");
+	});
+
+	it("lists rules with fire count and last-fired turn", () => {
+		loadProjectRules([{ name: "no-any", trigger: "as any" }, { name: "quiet", trigger: "nothing-matches" }]);
+		fire("cast it as any");
+		fire("something else");
+		fire("again as any");
+
+		const list = formatRulesList();
+		expect(list).toContain("Rules (5), turn 3:");
+		expect(list).toMatch(/no-any \[project\] — action: inject, priority: medium, frequency: per-turn — fired 2×, last on turn 3/);
+		expect(list).toMatch(/quiet \[project\] .* — never fired/);
+	});
+
+	it("tests sample text against regex triggers", () => {
+		loadProjectRules([{ name: "no-any", trigger: "as any" }, { name: "deploy", "trigger-source": "deploy" }]);
+
+		const result = formatRuleTest("deploy it as any");
+		expect(result).toMatch(/^Rules matching the text:/);
+		expect(result).toContain("no-any (inject): trigger /as any/");
+		expect(result).toContain("deploy (inject): trigger-source /deploy/");
+		expect(formatRuleTest("zzz")).toBe("No rule triggers match the text.");
+	});
+
+	it("disabled rules don't fire until enabled, and the toggle survives a restore", () => {
+		loadProjectRules([{ name: "no-any", trigger: "as any" }]);
+		expect(disableRule("no-any")).toBe(true);
+		expect(disableRule("missing")).toBe(false);
+		expect(injectedRuleNames(handleContext({ type: "context", messages: [user("go"), assistant("as any")] } as any, "/repo"))).toEqual([]);
+		expect(formatRuleTest("as any")).toContain("no-any (inject): trigger /as any/ — disabled");
+
+		const saved = serializeRuleStates();
+		loadRules(tmpDir);
+		restoreRuleStates(saved);
+		expect(formatRulesList()).toContain("no-any [project] [disabled]");
+
+		expect(enableRule("no-any")).toBe(true);
+		expect(injectedRuleNames(handleContext({ type: "context", messages: [user("go"), assistant("as any")] } as any, "/repo"))).toEqual(["no-any"]);
+	});
+
+	it("reload re-reads rule files but keeps firing history", () => {
+		loadProjectRules([{ name: "no-any", trigger: "as any" }]);
+		fire("as any");
+		writeRule(tmpDir, "new-rule.md", { name: "new-rule", trigger: "new" });
+
+		reloadRules(tmpDir);
+
+		expect(getRules().map((r) => r.name)).toContain("new-rule");
+		expect(formatRulesList()).toContain("fired 1×, last on turn 1");
+	});
+});
+
+describe("rule scope", () => {
+	let tmpDir: string;
+
+	afterEach(() => {
+		if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+		loadRules();
+	});
+
+	function loadProjectRules(defs: Array<Record<string, string>>): void {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "rules-scope-"));
+		for (const def of defs) writeRule(tmpDir, `${def.name}.md`, def);
+		loadRules(tmpDir);
+	}
+
+	function fire(scope: Parameters<typeof handleContext>[3]): string[] {
+		return injectedRuleNames(handleContext({ type: "context", messages: [user("go"), assistant("just in case")] } as any, "/repo", undefined, scope));
+	}
+
+	it("fires only for the listed agents, with the main session as 'main'", () => {
+		loadProjectRules([{ name: "yagni-impl", trigger: "just in case", agents: "implementer" }]);
+		expect(fire({ agent: "implementer" })).toContain("yagni-impl");
+		expect(fire({ agent: "brainstormer" })).not.toContain("yagni-impl");
+		expect(fire(undefined)).not.toContain("yagni-impl");
+	});
+
+	it("fires only in the listed TDD modes and workflow phases", () => {
+		loadProjectRules([{ name: "scoped", trigger: "just in case", "tdd-modes": "tdd, atdd", phases: "execute" }]);
+		expect(fire({ agent: "main", tddMode: "tdd", phase: "execute" })).toContain("scoped");
+		expect(fire({ agent: "main", tddMode: "off", phase: "execute" })).not.toContain("scoped");
+		expect(fire({ agent: "main", tddMode: "atdd", phase: "brainstorm" })).not.toContain("scoped");
+		expect(fire({ agent: "main", tddMode: "atdd" })).not.toContain("scoped");
+	});
+
+	it("applies scope to tool-call actions", () => {
+		loadProjectRules([{ name: "no-bash", "trigger-tool": "bash", action: "block", agents: "main" }]);
+		const call = { type: "tool_call", toolCallId: "c", toolName: "bash", input: { command: "ls" } } as any;
+		expect(handleToolCall(call, "/repo", { agent: "implementer" })).toBeUndefined();
+		expect(handleToolCall(call, "/repo", { agent: "main" })?.block).toBe(true);
+	});
+
+	it("reports unknown tdd-modes and phases values", () => {
+		loadProjectRules([
+			{ name: "bad-mode", trigger: "x", "tdd-modes": "strict" },
+			{ name: "bad-phase", trigger: "x", phases: "review" },
+		]);
+		const reasons = getRuleLoadErrors().map((e) => e.reason);
+		expect(reasons).toEqual(expect.arrayContaining([
+			expect.stringContaining('Unknown tdd-modes value "strict"'),
+			expect.stringContaining('Unknown phases value "review"'),
+		]));
+		expect(getRules().map((r) => r.name)).not.toContain("bad-mode");
+	});
+});
@@ -1,9 +1,13 @@
 /**
  * Rule Engine — TTSR-like context-aware rule injection.
  *
- * Loads markdown rules with trigger patterns (regex).
- * On context event, scans recent assistant output for matches.
- * Injects matched rule content as user message for high recency weight.
+ * Loads markdown rules with triggers: a regex over recent assistant output,
+ * tool names, path globs touched by tool calls, or a user message pattern.
+ * On context event, fires rules whose triggers match recent activity.
+ * What a fired rule does depends on its action: inject its content as a user
+ * message for high recency weight (default), notify the human, block the next
+ * matching tool call, or warn by appending to the tool result. Rules can be
+ * scoped to agents, TDD modes and workflow phases.
  *
  * Inspired by can1357/oh-my-pi TTSR concept (MIT).
  */
@@ -11,21 +15,79 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { parseFrontmatter } from "@mariozechner/pi-coding-agent";
-import type { ContextEvent, ContextEventResult } from "@mariozechner/pi-coding-agent";
+import type {
+	ContextEvent,
+	ContextEventResult,
+	ToolCallEvent,
+	ToolCallEventResult,
+	ToolResultEvent,
+	ToolResultEventResult,
+} from "@mariozechner/pi-coding-agent";
 import type { AgentMessage } from "@mariozechner/pi-agent-core";
 import type { Message } from "@mariozechner/pi-ai";
 import { getPackageDir } from "../config.js";
+import { findBashMutations } from "../shell-mutations.js";
+import type { OrchestratorPhase } from "../workflow/orchestrator-state.js";
+import type { TddMode } from "../workflow/state.js";
 
 // --- Types ---
 
 export type RuleFrequency = "once" | "per-turn" | `cooldown:${number}`;
 
+export type RuleSource = "package" | "project";
+
+/**
+ * What a fired rule does:
+ * - inject: add its content to the context as a user message (default)
+ * - notify: show its content to the human as a UI notification
+ * - block: stop the matching tool call, with its content as the reason
+ * - warn: append its content to the matching tool call's result
+ */
+export type RuleAction = "inject" | "notify" | "block" | "warn";
+
+const RULE_ACTIONS: readonly RuleAction[] = ["inject", "notify", "block", "warn"];
+
+/** Agent name of the interactive session; dispatched subagents use their own name */
+export const MAIN_AGENT = "main";
+
+const TDD_MODES: readonly TddMode[] = ["off", "tdd", "atdd"];
+
+const PHASES: readonly OrchestratorPhase[] = [
+	"brainstorm", "plan-write", "plan-draft", "plan-review", "configure", "execute", "finalize", "done",
+];
+
+/** Where the rule engine is running — matched against a rule's scope filters */
+export interface RuleScope {
+	/** MAIN_AGENT, or the dispatched agent's name */
+	agent: string;
+	tddMode?: TddMode;
+	/** Orchestrator phase of the active workflow, if any */
+	phase?: OrchestratorPhase;
+}
+
+const DEFAULT_SCOPE: RuleScope = { agent: MAIN_AGENT };
+
 export interface Rule {
 	name: string;
-	trigger: RegExp;
+	/** Regex over recent assistant output (`trigger`) */
+	trigger?: RegExp;
+	/** Tool names whose calls fire the rule (`trigger-tool`) */
+	triggerTools?: string[];
+	/** Path globs, relative to cwd, touched by tool calls (`trigger-path`) */
+	triggerPaths?: string[];
+	/** Regex over the latest user message (`trigger-source`) */
+	triggerSource?: RegExp;
 	content: string;
 	priority: "high" | "medium" | "low";
 	frequency: RuleFrequency;
+	action: RuleAction;
+	/** Only fire for these agents (`agents`) */
+	agents?: string[];
+	/** Only fire in these TDD modes (`tdd-modes`) */
+	tddModes?: TddMode[];
+	/** Only fire during these workflow phases (`phases`) */
+	phases?: OrchestratorPhase[];
+	source: RuleSource;
 	filePath: string;
 }
 
@@ -34,16 +96,47 @@ interface RuleState {
 	lastFiredTurn: number;
 }
 
+/** Rule firing history — JSON-serializable, persisted in session entries */
+export interface RuleFiringState {
+	ruleStates: Record<string, RuleState>;
+	currentTurn: number;
+	/** Rules turned off with `/rules disable` */
+	disabled?: string[];
+	/** Timestamp of the newest assistant message scanned for block/warn text triggers */
+	armedThrough?: number;
+}
+
+/** A rule file that couldn't be loaded, and why */
+export interface RuleLoadError {
+	filePath: string;
+	reason: string;
+}
+
+/** What happened recently in the conversation — the input to trigger matching */
+interface RecentActivity {
+	assistantText: string;
+	toolNames: string[];
+	paths: string[];
+	userText: string;
+}
+
 // --- State ---
 
 let rules: Rule[] = [];
 let ruleStates: Record<string, RuleState> = {};
 let currentTurn = 0;
+/** block/warn rules whose text trigger matched this turn — they apply to the next tool call */
+let armedRules = new Set<string>();
+/** Assistant messages up to this timestamp have armed rules already — each arms once */
+let armedThrough = 0;
+let disabledRules = new Set<string>();
+let loadErrors: RuleLoadError[] = [];
 const SCAN_CHARS = 2000;
 
 // --- Rule loading ---
 
-function loadRulesFromDir(dir: string): Rule[] {
+/** Rule files that are skipped are reported in `errors`. */
+function loadRulesFromDir(dir: string, source: RuleSource, errors: RuleLoadError[] = []): Rule[] {
 	const loaded: Rule[] = [];
 	if (!fs.existsSync(dir)) return loaded;
 
@@ -66,22 +159,74 @@ function loadRulesFromDir(dir: string): Rule[] {
 			continue;
 		}
 
-		const { frontmatter, body } = parseFrontmatter<Record<string, string>>(content);
-		if (!frontmatter.name || !frontmatter.trigger || !body.trim()) continue;
+		let frontmatter: Record<string, any>;
+		let body: string;
+		try {
+			({ frontmatter, body } = parseFrontmatter<Record<string, any>>(content));
+		} catch (err: any) {
+			errors.push({ filePath, reason: `Invalid frontmatter: ${err?.message ?? err}` });
+			continue;
+		}
+		if (!frontmatter.name) {
+			errors.push({ filePath, reason: "Missing name" });
+			continue;
+		}
+		if (!body.trim()) {
+			errors.push({ filePath, reason: "Empty rule body" });
+			continue;
+		}
 
-		let trigger: RegExp;
+		let trigger: RegExp | undefined;
+		let triggerSource: RegExp | undefined;
 		try {
-			trigger = new RegExp(frontmatter.trigger, "i");
-		} catch {
-			continue; // Invalid regex — skip
+			if (frontmatter.trigger) trigger = new RegExp(frontmatter.trigger, "i");
+			if (frontmatter["trigger-source"]) triggerSource = new RegExp(frontmatter["trigger-source"], "i");
+		} catch (err: any) {
+			errors.push({ filePath, reason: `Invalid trigger regex: ${err?.message ?? err}` });
+			continue;
+		}
+		const triggerTools = parseList(frontmatter["trigger-tool"]);
+		const triggerPaths = parseList(frontmatter["trigger-path"]);
+
+		if (!trigger && !triggerSource && triggerTools.length === 0 && triggerPaths.length === 0) {
+			errors.push({ filePath, reason: "No trigger, trigger-tool, trigger-path or trigger-source" });
+			continue;
+		}
+
+		const action = (frontmatter.action ?? "inject") as RuleAction;
+		if (!RULE_ACTIONS.includes(action)) {
+			errors.push({ filePath, reason: `Unknown action "${action}" (expected ${RULE_ACTIONS.join(", ")})` });
+			continue;
+		}
+
+		const agents = parseList(frontmatter.agents);
+		const tddModes = parseList(frontmatter["tdd-modes"]) as TddMode[];
+		const phases = parseList(frontmatter.phases) as OrchestratorPhase[];
+		const badMode = tddModes.find((m) => !TDD_MODES.includes(m));
+		if (badMode) {
+			errors.push({ filePath, reason: `Unknown tdd-modes value "${badMode}" (expected ${TDD_MODES.join(", ")})` });
+			continue;
+		}
+		const badPhase = phases.find((p) => !PHASES.includes(p));
+		if (badPhase) {
+			errors.push({ filePath, reason: `Unknown phases value "${badPhase}" (expected ${PHASES.join(", ")})` });
+			continue;
 		}
 
 		loaded.push({
 			name: frontmatter.name,
 			trigger,
+			triggerTools: triggerTools.length > 0 ? triggerTools : undefined,
+			triggerPaths: triggerPaths.length > 0 ? triggerPaths : undefined,
+			triggerSource,
 			content: body.trim(),
 			priority: (frontmatter.priority as Rule["priority"]) || "medium",
 			frequency: (frontmatter.frequency as RuleFrequency) || "per-turn",
+			action,
+			agents: agents.length > 0 ? agents : undefined,
+			tddModes: tddModes.length > 0 ? tddModes : undefined,
+			phases: phases.length > 0 ? phases : undefined,
+			source,
 			filePath,
 		});
 	}
@@ -89,22 +234,58 @@ function loadRulesFromDir(dir: string): Rule[] {
 	return loaded;
 }
 
+/** Frontmatter list: YAML array or comma-separated string */
+function parseList(value: unknown): string[] {
+	const items = Array.isArray(value) ? value : typeof value === "string" ? value.split(",") : [];
+	return items.map((v) => String(v).trim()).filter(Boolean);
+}
+
+/**
+ * Find the nearest .pi/rules directory, walking up from cwd
+ * (same lookup as project agents in discoverAgents), and the rules it contains.
+ */
+export function discoverProjectRules(cwd: string): { rules: Rule[]; projectRulesDir: string | null } {
+	let searchDir = path.resolve(cwd);
+	while (true) {
+		const candidate = path.join(searchDir, ".pi", "rules");
+		try {
+			if (fs.statSync(candidate).isDirectory()) {
+				return { rules: loadRulesFromDir(candidate, "project"), projectRulesDir: candidate };
+			}
+		} catch {
+			/* not found */
+		}
+		const parent = path.dirname(searchDir);
+		if (parent === searchDir) break;
+		searchDir = parent;
+	}
+	return { rules: [], projectRulesDir: null };
+}
+
 /**
  * Load rules from package rules/ directory and optional project rules.
+ * A project rule with the same name as a package rule replaces it.
  */
 export function loadRules(projectRulesDir?: string): void {
-	const packageDir = getPackageDir();
-	const packageRulesDir = path.join(packageDir, "rules");
+	resetRuleStates();
+	reloadRules(projectRulesDir);
+}
 
-	rules = [];
-	ruleStates = {};
-	currentTurn = 0;
+/**
+ * Re-read the rule files, keeping firing history and disabled rules (`/rules reload`).
+ */
+export function reloadRules(projectRulesDir?: string): void {
+	const packageRulesDir = path.join(getPackageDir(), "rules");
 
-	rules.push(...loadRulesFromDir(packageRulesDir));
+	armedRules = new Set();
+	loadErrors = [];
 
+	const ruleMap = new Map<string, Rule>();
+	for (const r of loadRulesFromDir(packageRulesDir, "package", loadErrors)) ruleMap.set(r.name, r);
 	if (projectRulesDir) {
-		rules.push(...loadRulesFromDir(projectRulesDir));
+		for (const r of loadRulesFromDir(projectRulesDir, "project", loadErrors)) ruleMap.set(r.name, r);
 	}
+	rules = Array.from(ruleMap.values());
 
 	// Sort by priority (high first)
 	const priorityOrder = { high: 0, medium: 1, low: 2 };
@@ -115,17 +296,55 @@ export function getRules(): Rule[] {
 	return rules;
 }
 
+/** Rule files skipped by the last load */
+export function getRuleLoadErrors(): RuleLoadError[] {
+	return loadErrors;
+}
+
+/** Turn a loaded rule off for the session. Returns false for an unknown name. */
+export function disableRule(name: string): boolean {
+	if (!rules.some((r) => r.name === name)) return false;
+	disabledRules.add(name);
+	armedRules.delete(name);
+	return true;
+}
+
+/** Turn a disabled rule back on. Returns false if it wasn't disabled. */
+export function enableRule(name: string): boolean {
+	return disabledRules.delete(name);
+}
+
+export function isRuleDisabled(name: string): boolean {
+	return disabledRules.has(name);
+}
+
 export function resetRuleStates(): void {
 	ruleStates = {};
 	currentTurn = 0;
+	armedRules = new Set();
+	armedThrough = 0;
+	disabledRules = new Set();
+}
+
+export function serializeRuleStates(): RuleFiringState {
+	return { ruleStates: structuredClone(ruleStates), currentTurn, disabled: [...disabledRules], armedThrough };
+}
+
+export function restoreRuleStates(data: RuleFiringState): void {
+	ruleStates = structuredClone(data.ruleStates || {});
+	currentTurn = data.currentTurn || 0;
+	armedRules = new Set();
+	armedThrough = data.armedThrough || 0;
+	disabledRules = new Set(data.disabled || []);
 }
 
 // --- Context event handler ---
 
 /**
- * Extract recent assistant text from messages (last SCAN_CHARS).
+ * Extract recent assistant text from messages (last SCAN_CHARS), optionally
+ * only from messages newer than `after` (a timestamp).
  */
-function getRecentAssistantText(messages: AgentMessage[]): string {
+function getRecentAssistantText(messages: AgentMessage[], after?: number): string {
 	const chunks: string[] = [];
 	let totalLen = 0;
 
@@ -133,6 +352,7 @@ function getRecentAssistantText(messages: AgentMessage[]): string {
 	for (let i = messages.length - 1; i >= 0 && totalLen < SCAN_CHARS; i--) {
 		const msg = messages[i] as Message;
 		if (msg.role !== "assistant") continue;
+		if (after !== undefined && msg.timestamp !== undefined && msg.timestamp <= after) break;
 
 		for (const part of msg.content || []) {
 			if ("text" in part && part.text) {
@@ -147,9 +367,117 @@ function getRecentAssistantText(messages: AgentMessage[]): string {
 }
 
 /**
- * Check if a rule should fire based on frequency.
+ * Tool calls and touched paths from the latest assistant message —
+ * the calls whose results the model is about to see.
  */
-function shouldFire(rule: Rule): boolean {
+function getLatestToolActivity(messages: AgentMessage[], cwd: string): { toolNames: string[]; paths: string[] } {
+	const toolNames: string[] = [];
+	const paths: string[] = [];
+
+	for (let i = messages.length - 1; i >= 0; i--) {
+		const msg = messages[i] as Message;
+		if (msg.role === "user") break;
+		if (msg.role !== "assistant") continue;
+
+		for (const part of msg.content || []) {
+			if (part.type !== "toolCall") continue;
+			toolNames.push(part.name);
+			paths.push(...toolCallPaths(part.name, part.arguments, cwd));
+		}
+		break;
+	}
+
+	return { toolNames, paths };
+}
+
+/**
+ * Paths a tool call touches, relative to cwd: its `path` argument, and for
+ * bash the files the command writes.
+ */
+function toolCallPaths(toolName: string, args: Record<string, any> | undefined, cwd: string): string[] {
+	const raw: string[] = [];
+	if (typeof args?.path === "string" && args.path) raw.push(args.path);
+	if (toolName === "bash" && typeof args?.command === "string") {
+		for (const mutation of findBashMutations(args.command, cwd)) raw.push(...mutation.targets);
+	}
+	return raw.map((p) => path.relative(cwd, path.resolve(cwd, p)).split(path.sep).join("/"));
+}
+
+/**
+ * Text of the user message that starts this turn — empty once the
+ * assistant has responded, so source triggers fire once per user message.
+ */
+function getNewUserText(messages: AgentMessage[]): string {
+	const msg = messages[messages.length - 1] as Message | undefined;
+	if (msg?.role !== "user") return "";
+	if (typeof msg.content === "string") return msg.content;
+	return msg.content
+		.map((part) => ("text" in part ? part.text : ""))
+		.filter(Boolean)
+		.join("\n");
+}
+
+/**
+ * Convert a path glob to a regex: `**` spans directories, `*` and `?` stay within one segment.
+ */
+function globToRegExp(glob: string): RegExp {
+	let re = "";
+	for (let i = 0; i < glob.length; i++) {
+		const c = glob[i];
+		if (c === "*" && glob[i + 1] === "*") {
+			// "**/" also matches zero directories
+			if (glob[i + 2] === "/") {
+				re += "(?:.*/)?";
+				i += 2;
+			} else {
+				re += ".*";
+				i++;
+			}
+		} else if (c === "*") {
+			re += "[^/]*";
+		} else if (c === "?") {
+			re += "[^/]";
+		} else {
+			re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+		}
+	}
+	return new RegExp(`^${re}$`);
+}
+
+/** Path globs without a slash match the basename anywhere, like testFilePatterns. */
+export function matchesPathGlob(filePath: string, glob: string): boolean {
+	const target = glob.includes("/") ? filePath : path.posix.basename(filePath);
+	return globToRegExp(glob).test(target);
+}
+
+/**
+ * True if any of the rule's triggers matches recent activity.
+ */
+function matchesTrigger(rule: Rule, activity: RecentActivity): boolean {
+	if (rule.trigger && activity.assistantText && rule.trigger.test(activity.assistantText)) return true;
+	if (rule.triggerSource && activity.userText && rule.triggerSource.test(activity.userText)) return true;
+	if (rule.triggerTools?.some((t) => activity.toolNames.includes(t))) return true;
+	if (rule.triggerPaths?.some((g) => activity.paths.some((p) => matchesPathGlob(p, g)))) return true;
+	return false;
+}
+
+/** True if the rule's agents, tdd-modes and phases filters all admit the scope. */
+function inScope(rule: Rule, scope: RuleScope): boolean {
+	if (rule.agents && !rule.agents.includes(scope.agent)) return false;
+	if (rule.tddModes && (!scope.tddMode || !rule.tddModes.includes(scope.tddMode))) return false;
+	if (rule.phases && (!scope.phase || !rule.phases.includes(scope.phase))) return false;
+	return true;
+}
+
+/**
+ * Check if a rule should fire: enabled, in scope, frequency allows it and a trigger matches.
+ */
+function shouldFire(rule: Rule, activity: RecentActivity, scope: RuleScope): boolean {
+	if (disabledRules.has(rule.name) || !inScope(rule, scope) || !frequencyAllows(rule)) return false;
+	return matchesTrigger(rule, activity);
+}
+
+function frequencyAllows(rule: Rule): boolean {
 	const state = ruleStates[rule.name];
 	if (!state) return true; // Never fired
 
@@ -174,37 +502,67 @@ function markFired(rule: Rule): void {
 	ruleStates[rule.name].lastFiredTurn = currentTurn;
 }
 
+/** The rule's message as the agent sees it */
+function ruleText(rule: Rule): string {
+	return `[superteam rule: ${rule.name}] ${rule.content}`;
+}
+
 /**
- * Handle context event: scan recent output, inject matching rules.
+ * Handle context event: scan recent activity and fire matching rules.
+ * inject rules are added to the context and notify rules passed to `notify`.
+ * block and warn rules act on tool calls: their tool and path triggers are
+ * checked when the call happens, and a matching text trigger arms them for
+ * the next tool call. Rules whose scope filters exclude `scope` don't fire.
  */
 export function handleContext(
 	event: ContextEvent,
+	cwd: string = process.cwd(),
+	notify?: (message: string) => void,
+	scope: RuleScope = DEFAULT_SCOPE,
 ): ContextEventResult | undefined {
 	if (rules.length === 0) return undefined;
 
 	currentTurn++;
-	const recentText = getRecentAssistantText(event.messages);
-	if (!recentText) return undefined;
+	armedRules = new Set();
+	const activity: RecentActivity = {
+		assistantText: getRecentAssistantText(event.messages),
+		...getLatestToolActivity(event.messages, cwd),
+		userText: getNewUserText(event.messages),
+	};
+	// block/warn rules arm only on assistant text they haven't seen
+	const newText: RecentActivity = {
+		assistantText: getRecentAssistantText(event.messages, armedThrough),
+		toolNames: [],
+		paths: [],
+		userText: activity.userText,
+	};
+	for (const msg of event.messages) {
+		if ((msg as Message).role === "assistant") armedThrough = Math.max(armedThrough, (msg as Message).timestamp ?? 0);
+	}
+	if (!activity.assistantText && !activity.userText && activity.toolNames.length === 0) return undefined;
 
-	const injections: { rule: Rule; content: string }[] = [];
+	const injections: Rule[] = [];
 
 	for (const rule of rules) {
-		if (!shouldFire(rule)) continue;
-		if (rule.trigger.test(recentText)) {
-			injections.push({ rule, content: rule.content });
-			markFired(rule);
+		if (rule.action === "block" || rule.action === "warn") {
+			if (shouldFire(rule, newText, scope)) armedRules.add(rule.name);
+			continue;
 		}
+		if (!shouldFire(rule, activity, scope)) continue;
+		markFired(rule);
+		if (rule.action === "notify") notify?.(`Rule ${rule.name}: ${rule.content}`);
+		else injections.push(rule);
 	}
 
 	if (injections.length === 0) return undefined;
 
 	// Inject as user messages at the end of the context
-	const ruleMessages: Message[] = injections.map(({ rule, content }) => ({
+	const ruleMessages: Message[] = injections.map((rule) => ({
 		role: "user" as const,
 		content: [
 			{
 				type: "text" as const,
-				text: `[superteam rule: ${rule.name}] ${content}`,
+				text: ruleText(rule),
 			},
 		],
 	}));
@@ -213,3 +571,103 @@ export function handleContext(
 		messages: [...event.messages, ...ruleMessages],
 	};
 }
+
+/**
+ * block/warn rules that fire for a tool call: armed by a text trigger this turn,
+ * or with a tool or path trigger matching the call. Marks them fired; the first
+ * call blocked or warned disarms the rest.
+ */
+function fireForToolCall(action: RuleAction, toolName: string, input: Record<string, any>, cwd: string, scope: RuleScope): Rule[] {
+	const activity: RecentActivity = {
+		assistantText: "",
+		toolNames: [toolName],
+		paths: toolCallPaths(toolName, input, cwd),
+		userText: "",
+	};
+	const fired: Rule[] = [];
+	for (const rule of rules) {
+		if (rule.action !== action || disabledRules.has(rule.name) || !inScope(rule, scope) || !frequencyAllows(rule)) continue;
+		if (!armedRules.has(rule.name) && !matchesTrigger(rule, activity)) continue;
+		markFired(rule);
+		fired.push(rule);
+	}
+	if (fired.length > 0) armedRules = new Set();
+	return fired;
+}
+
+/**
+ * Handle tool_call events: block the call if a block rule fires for it.
+ */
+export function handleToolCall(
+	event: ToolCallEvent,
+	cwd: string = process.cwd(),
+	scope: RuleScope = DEFAULT_SCOPE,
+): ToolCallEventResult | undefined {
+	const fired = fireForToolCall("block", event.toolName, event.input, cwd, scope);
+	if (fired.length === 0) return undefined;
+	return { block: true, reason: fired.map(ruleText).join("\n\n") };
+}
+
+/**
+ * Handle tool_result events: append the content of warn rules that fire for the call.
+ */
+export function handleToolResult(
+	event: ToolResultEvent,
+	cwd: string = process.cwd(),
+	scope: RuleScope = DEFAULT_SCOPE,
+): ToolResultEventResult | undefined {
+	const fired = fireForToolCall("warn", event.toolName, event.input, cwd, scope);
+	if (fired.length === 0) return undefined;
+	const warnings = fired.map((rule) => `⚠️ ${ruleText(rule)}`).join("\n\n");
+	return { content: [...event.content, { type: "text", text: warnings }] };
+}
+
+// --- /rules command ---
+
+/** The rule's scope filters, e.g. "agents: implementer, phases: execute"; empty when unscoped */
+export function formatRuleScope(rule: Rule): string {
+	const parts: string[] = [];
+	if (rule.agents) parts.push(`agents: ${rule.agents.join("/")}`);
+	if (rule.tddModes) parts.push(`tdd-modes: ${rule.tddModes.join("/")}`);
+	if (rule.phases) parts.push(`phases: ${rule.phases.join("/")}`);
+	return parts.join(", ");
+}
+
+/** `/rules list`: every loaded rule with its firing history, then load errors */
+export function formatRulesList(): string {
+	const lines = [`Rules (${rules.length}), turn ${currentTurn}:`];
+	for (const rule of rules) {
+		const state = ruleStates[rule.name];
+		const fired = state ? `fired ${state.firedCount}×, last on turn ${state.lastFiredTurn}` : "never fired";
+		const disabled = disabledRules.has(rule.name) ? " [disabled]" : "";
+		const scope = formatRuleScope(rule);
+		lines.push(
+			"",
+			`${rule.name} [${rule.source}]${disabled} — action: ${rule.action}, priority: ${rule.priority}, frequency: ${rule.frequency}${scope ? `, ${scope}` : ""} — ${fired}`,
+			`  ${rule.filePath}`,
+		);
+	}
+	if (loadErrors.length > 0) {
+		lines.push("", `Not loaded (${loadErrors.length}):`);
+		for (const error of loadErrors) lines.push(`  ${error.filePath}: ${error.reason}`);
+	}
+	return lines.join("\n");
+}
+
+/**
+ * `/rules test <text>`: which rules' regex triggers match the text, as assistant
+ * output (`trigger`) or as a user message (`trigger-source`). Noted when the rule
+ * is disabled or its frequency wouldn't let it fire right now.
+ */
+export function formatRuleTest(text: string): string {
+	const lines: string[] = [];
+	for (const rule of rules) {
+		const matched: string[] = [];
+		if (rule.trigger?.test(text)) matched.push(`trigger /${rule.trigger.source}/`);
+		if (rule.triggerSource?.test(text)) matched.push(`trigger-source /${rule.triggerSource.source}/`);
+		if (matched.length === 0) continue;
+		const held = disabledRules.has(rule.name) ? " — disabled" : !frequencyAllows(rule) ? ` — held back by frequency ${rule.frequency}` : "";
+		lines.push(`${rule.name} (${rule.action}): ${matched.join(", ")}${held}`);
+	}
+	return lines.length > 0 ? `Rules matching the text:\n${lines.join("\n")}` : "No rule triggers match the text.";
+}
@@ -0,0 +1,101 @@
+import { describe, it, expect } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { findBashMutations, parseShell } from "./shell-mutations.ts";
+
+function targets(command: string): string[] {
+	return findBashMutations(command).flatMap((m) => m.targets);
+}
+
+describe("parseShell", () => {
+	it("splits pipelines, lists and subshells into simple commands", () => {
+		const commands = parseShell("cd src && (npm test | tee out.log); echo done");
+		expect(commands.map((c) => c.argv)).toEqual([["cd", "src"], ["npm", "test"], ["tee", "out.log"], ["echo", "done"]]);
+	});
+
+	it("keeps quoted operators inside words", () => {
+		expect(parseShell(`echo "a > b; c" 'd | e'`)).toEqual([{ argv: ["echo", "a > b; c", "d | e"], redirects: [] }]);
+	});
+
+	it("records redirects with their file descriptors", () => {
+		expect(parseShell("cmd > out.txt 2>&1").at(0)?.redirects).toEqual([
+			{ op: ">", target: "out.txt" },
+			{ op: ">&", fd: 2, target: "1" },
+		]);
+	});
+
+	it("skips heredoc bodies", () => {
+		const commands = parseShell("cat <<'EOF' > notes.md\nrm -rf src\nx > y\nEOF\necho ok");
+		expect(commands.map((c) => c.argv)).toEqual([["cat"], ["echo", "ok"]]);
+		expect(commands[0].redirects).toEqual([{ op: ">", target: "notes.md" }]);
+	});
+
+	it("parses command substitutions as separate commands", () => {
+		expect(parseShell("echo $(touch a.ts) `rm b.ts`").map((c) => c.argv[0])).toEqual(["touch", "rm", "echo"]);
+	});
+});
+
+describe("findBashMutations", () => {
+	it("ignores fd duplication, /dev targets and read-only commands", () => {
+		expect(findBashMutations("npm test 2>&1 >/dev/null | grep -c 'x > y'")).toEqual([]);
+		expect(findBashMutations("sed -n '1,5p' src/a.ts && git checkout main && git diff")).toEqual([]);
+	});
+
+	it.each([
+		["echo x >> src/a.ts", ["src/a.ts"]],
+		["sed -i.bak -e 's/a/b/' src/a.ts src/b.ts", ["src/a.ts", "src/b.ts"]],
+		["sed -i '' 's/a/b/' src/a.ts", ["src/a.ts"]],
+		["perl -pi -e 's/a/b/' src/a.pl", ["src/a.pl"]],
+		["cp -r assets dist/", ["dist/"]],
+		["cp -t dist a.js b.js", ["dist"]],
+		["chmod +x bin/run.sh", ["bin/run.sh"]],
+		["dd if=/dev/zero of=disk.img", ["disk.img"]],
+		["install -m 644 a.conf /etc/a.conf", ["/etc/a.conf"]],
+		["git checkout HEAD~1 -- src/a.ts", ["src/a.ts"]],
+		["git restore src/a.ts", ["src/a.ts"]],
+		["git -C repo rm src/old.ts", ["src/old.ts"]],
+		["prettier --write src/a.ts", ["src/a.ts"]],
+		["python3 -c \"open('src/a.py', 'w').write('')\"", ["src/a.py"]],
+		["node -e \"fs.writeFileSync('src/a.ts', '')\"", ["src/a.ts"]],
+		["sudo -u app FOO=1 env BAR=2 rm -f src/a.ts", ["src/a.ts"]],
+		["bash -c 'echo hi > src/a.ts'", ["src/a.ts"]],
+		["timeout 10 tee -a log.txt", ["log.txt"]],
+	])("%s writes %j", (command, expected) => {
+		expect(targets(command)).toEqual(expected);
+	});
+
+	it.each([
+		["git apply fix.patch", "git apply"],
+		["git stash pop", "git stash pop"],
+		["git reset --hard HEAD", "git reset"],
+		["patch -p1 < fix.diff", "patch"],
+		["find . -name '*.orig' -delete", "find -delete"],
+		["find src -name '*.ts' -exec rm {} +", "rm"],
+		["ls *.tmp | xargs rm", "rm"],
+	])("%s mutates files it doesn't name", (command, mutator) => {
+		expect(findBashMutations(command)).toEqual([{ command: mutator, targets: [] }]);
+	});
+
+	it("treats checkout operands as files only after -- or when they exist and aren't refs", () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "shell-mutations-"));
+		try {
+			fs.mkdirSync(path.join(dir, "src"));
+			fs.writeFileSync(path.join(dir, "src/a.ts"), "");
+
+			expect(findBashMutations("git checkout feature/x", dir)).toEqual([]);
+			expect(findBashMutations("git checkout -b fix/login.v2", dir)).toEqual([]);
+			expect(findBashMutations("git checkout src/a.ts")).toEqual([]);
+			expect(findBashMutations("git checkout src/a.ts", dir)).toEqual([{ command: "git checkout", targets: ["src/a.ts"] }]);
+		} finally {
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+
+	it("does not treat checks and dry runs as mutations", () => {
+		expect(findBashMutations("git apply --check fix.patch")).toEqual([]);
+		expect(findBashMutations("git restore --staged src/a.ts")).toEqual([]);
+		expect(findBashMutations("prettier --check src")).toEqual([]);
+		expect(findBashMutations("python -c \"print(open('a.txt').read())\"")).toEqual([]);
+	});
+});
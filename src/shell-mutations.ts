@@ -0,0 +1,653 @@
+/**
+ * Shell mutation detection — which files a bash command writes.
+ *
+ * `parseShell` tokenizes a command line into simple commands (argv + redirects),
+ * following pipelines, lists, subshells, command/process substitution and
+ * `bash -c` scripts, honouring quoting and skipping heredoc bodies.
+ * `findBashMutations` then checks each simple command against a catalogue of
+ * mutating commands that knows where their targets sit in the arguments.
+ *
+ * Used by the TDD guard (which impl files a command touches) and the read-only
+ * reviewer write-guard in dispatch.ts (whether a command writes at all).
+ */
+
+import { execFileSync } from "node:child_process";
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+// --- Types ---
+
+export interface Redirect {
+	/** ">", ">>", ">|", "&>", "&>>", "<>", ">&", "<", "<&", "<<<" */
+	op: string;
+	fd?: number;
+	target: string;
+}
+
+export interface SimpleCommand {
+	argv: string[];
+	redirects: Redirect[];
+}
+
+export interface BashMutation {
+	/** What writes — the command name ("sed", "git apply") or the redirect operator */
+	command: string;
+	/** Files written; empty when the command doesn't name them (e.g. `git apply`, `xargs rm`) */
+	targets: string[];
+}
+
+// --- Tokenizer ---
+
+/** Words that start or close a compound command — the next word is the command */
+const RESERVED_WORDS = new Set(["{", "}", "!", "if", "then", "else", "elif", "fi", "do", "done", "while", "until", "esac", "time"]);
+
+/** Longest first, so ">>" isn't read as ">" */
+const REDIRECT_OPERATORS = ["&>>", "<<<", "<<-", "&>", ">>", ">&", ">|", "<<", "<&", "<>", ">", "<"];
+
+/** Index of the ")" closing the "(" at `open`, skipping quoted text and nested parentheses. */
+function findClosingParen(source: string, open: number): number {
+	let depth = 0;
+	for (let i = open; i < source.length; i++) {
+		const ch = source[i];
+		if (ch === "\\") {
+			i++;
+		} else if (ch === "'") {
+			const end = source.indexOf("'", i + 1);
+			i = end === -1 ? source.length : end;
+		} else if (ch === "\"") {
+			i = findClosingQuote(source, i);
+		} else if (ch === "(") {
+			depth++;
+		} else if (ch === ")") {
+			depth--;
+			if (depth === 0) return i;
+		}
+	}
+	return source.length;
+}
+
+function findClosingQuote(source: string, open: number): number {
+	for (let i = open + 1; i < source.length; i++) {
+		if (source[i] === "\\") i++;
+		else if (source[i] === "\"") return i;
+	}
+	return source.length;
+}
+
+function findClosingBacktick(source: string, open: number): number {
+	for (let i = open + 1; i < source.length; i++) {
+		if (source[i] === "\\") i++;
+		else if (source[i] === "`") return i;
+	}
+	return source.length;
+}
+
+/**
+ * Split a command line into simple commands. Nested commands ($(...), `...`,
+ * <(...), subshells) are returned alongside the commands that contain them.
+ */
+export function parseShell(source: string): SimpleCommand[] {
+	const commands: SimpleCommand[] = [];
+	let argv: string[] = [];
+	let redirects: Redirect[] = [];
+	let word: string | null = null;
+	let wordQuoted = false;
+	let pendingRedirect: { op: string; fd?: number } | null = null;
+	let heredocs: { delimiter: string; stripTabs: boolean }[] = [];
+
+	const append = (text: string) => {
+		word = (word ?? "") + text;
+	};
+
+	const endWord = () => {
+		if (word === null) return;
+		const text = word;
+		word = null;
+		wordQuoted = false;
+		if (pendingRedirect) {
+			const { op, fd } = pendingRedirect;
+			pendingRedirect = null;
+			if (op === "<<" || op === "<<-") {
+				heredocs.push({ delimiter: text, stripTabs: op === "<<-" });
+			} else {
+				redirects.push(fd === undefined ? { op, target: text } : { op, fd, target: text });
+			}
+			return;
+		}
+		if (argv.length === 0 && RESERVED_WORDS.has(text)) return;
+		argv.push(text);
+	};
+
+	const endCommand = () => {
+		endWord();
+		pendingRedirect = null;
+		if (argv.length > 0 || redirects.length > 0) commands.push({ argv, redirects });
+		argv = [];
+		redirects = [];
+	};
+
+	/** Skip heredoc bodies after the newline at `newline`; returns the index to resume from. */
+	const skipHeredocs = (newline: number): number => {
+		let pos = newline + 1;
+		for (const { delimiter, stripTabs } of heredocs) {
+			while (pos < source.length) {
+				const end = source.indexOf("\n", pos);
+				const line = source.slice(pos, end === -1 ? source.length : end);
+				pos = end === -1 ? source.length : end + 1;
+				if ((stripTabs ? line.replace(/^\t+/, "") : line) === delimiter) break;
+			}
+		}
+		heredocs = [];
+		return pos;
+	};
+
+	/** Parse a nested command ($(...), `...`, <(...)) and keep its text in the current word. */
+	const nested = (start: number, innerStart: number, end: number) => {
+		commands.push(...parseShell(source.slice(innerStart, end)));
+		append(source.slice(start, end + 1));
+	};
+
+	let i = 0;
+	while (i < source.length) {
+		const ch = source[i];
+		const next = source[i + 1];
+
+		// Line continuation and escapes
+		if (ch === "\\") {
+			if (next === "\n") {
+				i += 2;
+				continue;
+			}
+			if (next !== undefined) append(next);
+			wordQuoted = true;
+			i += 2;
+			continue;
+		}
+
+		if (ch === "'") {
+			const end = source.indexOf("'", i + 1);
+			const close = end === -1 ? source.length : end;
+			append(source.slice(i + 1, close));
+			wordQuoted = true;
+			i = close + 1;
+			continue;
+		}
+
+		if (ch === "\"") {
+			const close = findClosingQuote(source, i);
+			let text = "";
+			for (let j = i + 1; j < close; j++) {
+				const c = source[j];
+				if (c === "\\" && "\"\\$`".includes(source[j + 1])) {
+					text += source[++j];
+				} else if (c === "$" && source[j + 1] === "(" && source[j + 2] !== "(") {
+					const end = findClosingParen(source, j + 1);
+					commands.push(...parseShell(source.slice(j + 2, end)));
+					text += source.slice(j, end + 1);
+					j = end;
+				} else if (c === "`") {
+					const end = findClosingBacktick(source, j);
+					commands.push(...parseShell(source.slice(j + 1, end)));
+					text += source.slice(j, end + 1);
+					j = end;
+				} else {
+					text += c;
+				}
+			}
+			append(text);
+			wordQuoted = true;
+			i = close + 1;
+			continue;
+		}
+
+		// $((arithmetic)), ${param}, $(command)
+		if (ch === "$" && next === "(") {
+			const end = findClosingParen(source, i + 1);
+			if (source[i + 2] === "(") append(source.slice(i, end + 1));
+			else nested(i, i + 2, end);
+			i = end + 1;
+			continue;
+		}
+		if (ch === "$" && next === "{") {
+			const end = source.indexOf("}", i);
+			const close = end === -1 ? source.length : end;
+			append(source.slice(i, close + 1));
+			i = close + 1;
+			continue;
+		}
+		if (ch === "`") {
+			const end = findClosingBacktick(source, i);
+			nested(i, i + 1, end);
+			i = end + 1;
+			continue;
+		}
+
+		// Process substitution <(...) / >(...)
+		if ((ch === "<" || ch === ">") && next === "(") {
+			const end = findClosingParen(source, i + 1);
+			nested(i, i + 2, end);
+			i = end + 1;
+			continue;
+		}
+
+		// Comments
+		if (ch === "#" && word === null) {
+			const end = source.indexOf("\n", i);
+			i = end === -1 ? source.length : end;
+			continue;
+		}
+
+		if (ch === "\n") {
+			endCommand();
+			i = heredocs.length > 0 ? skipHeredocs(i) : i + 1;
+			continue;
+		}
+
+		if (ch === " " || ch === "\t") {
+			endWord();
+			i++;
+			continue;
+		}
+
+		// Redirects — a bare number right before the operator is its fd
+		if (ch === ">" || ch === "<" || (ch === "&" && next === ">")) {
+			let fd: number | undefined;
+			if (word !== null && !wordQuoted && /^\d+$/.test(word)) {
+				fd = Number(word);
+				word = null;
+			} else {
+				endWord();
+			}
+			const op = REDIRECT_OPERATORS.find((candidate) => source.startsWith(candidate, i))!;
+			pendingRedirect = fd === undefined ? { op } : { op, fd };
+			i += op.length;
+			continue;
+		}
+
+		// Control operators and subshell parentheses end the current command
+		if (ch === "|" || ch === ";" || ch === "&" || ch === "(" || ch === ")") {
+			endCommand();
+			i += (ch === "|" && (next === "|" || next === "&")) || (ch === "&" && next === "&") || (ch === ";" && next === ";") ? 2 : 1;
+			continue;
+		}
+
+		append(ch);
+		i++;
+	}
+
+	endCommand();
+	return commands;
+}
+
+// --- Argument helpers ---
+
+/** Operands of an argument list — options (and values of `valueFlags`) removed; everything after "--" is an operand. */
+function operandsOf(args: string[], valueFlags: string[] = []): { operands: string[]; values: Record<string, string> } {
+	const operands: string[] = [];
+	const values: Record<string, string> = {};
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (arg === "--") {
+			operands.push(...args.slice(i + 1));
+			break;
+		}
+		if (arg.startsWith("--")) {
+			const eq = arg.indexOf("=");
+			if (eq !== -1) values[arg.slice(0, eq)] = arg.slice(eq + 1);
+			else if (valueFlags.includes(arg)) values[arg] = args[++i] ?? "";
+			continue;
+		}
+		if (arg.startsWith("-") && arg.length > 1) {
+			const flag = arg.slice(0, 2);
+			if (valueFlags.includes(flag)) values[flag] = arg.length > 2 ? arg.slice(2) : (args[++i] ?? "");
+			continue;
+		}
+		operands.push(arg);
+	}
+	return { operands, values };
+}
+
+function hasShortFlag(args: string[], flag: string): boolean {
+	return args.some((a) => /^-[a-zA-Z]+$/.test(a) && a.includes(flag));
+}
+
+function hasFlag(args: string[], ...flags: string[]): boolean {
+	return args.some((a) => flags.includes(a) || flags.some((f) => f.startsWith("--") && a.startsWith(`${f}=`)));
+}
+
+// --- Mutating command catalogue ---
+
+type TargetRule = "all" | "last" | "after-first" | "first";
+
+interface CommandSpec {
+	/** Which operands the command writes */
+	targets: TargetRule;
+	/** Options that take a value, so the value isn't mistaken for an operand */
+	valueFlags?: string[];
+	/** Options whose value is the target (e.g. `cp -t dir`) */
+	targetFlags?: string[];
+	/** Only mutating when this holds (e.g. `prettier --write`) */
+	mutatesWhen?: (args: string[]) => boolean;
+}
+
+const TARGET_DIR_FLAGS = ["-t", "--target-directory"];
+
+const COMMAND_SPECS: Record<string, CommandSpec> = {
+	rm: { targets: "all" },
+	rmdir: { targets: "all" },
+	unlink: { targets: "all" },
+	shred: { targets: "all", valueFlags: ["-n", "--iterations", "-s", "--size"] },
+	mkdir: { targets: "all", valueFlags: ["-m", "--mode"] },
+	touch: { targets: "all", valueFlags: ["-d", "--date", "-r", "--reference", "-t"] },
+	truncate: { targets: "all", valueFlags: ["-s", "--size", "-r", "--reference"] },
+	chmod: { targets: "after-first", valueFlags: ["--reference"] },
+	chown: { targets: "after-first", valueFlags: ["--reference", "--from"] },
+	chgrp: { targets: "after-first", valueFlags: ["--reference"] },
+	tee: { targets: "all" },
+	cp: { targets: "last", valueFlags: ["-S", "--suffix", ...TARGET_DIR_FLAGS], targetFlags: TARGET_DIR_FLAGS },
+	mv: { targets: "last", valueFlags: ["-S", "--suffix", ...TARGET_DIR_FLAGS], targetFlags: TARGET_DIR_FLAGS },
+	ln: { targets: "last", valueFlags: ["-S", "--suffix", ...TARGET_DIR_FLAGS], targetFlags: TARGET_DIR_FLAGS },
+	install: {
+		targets: "last",
+		valueFlags: ["-m", "--mode", "-o", "--owner", "-g", "--group", "-S", "--suffix", ...TARGET_DIR_FLAGS],
+		targetFlags: TARGET_DIR_FLAGS,
+	},
+	rsync: { targets: "last", valueFlags: ["-e", "--rsh", "--exclude", "--include", "--filter", "-f"] },
+	// patch [options] [originalfile [patchfile]] — without an operand the files come from the patch
+	patch: {
+		targets: "first",
+		valueFlags: ["-p", "-i", "--input", "-d", "--directory", "-r", "--reject-file", "-B", "--prefix", "-F", "--fuzz", "-z", "--suffix"],
+		targetFlags: ["-o", "--output"],
+	},
+	prettier: { targets: "all", valueFlags: ["--config", "--ignore-path", "--parser"], mutatesWhen: (args) => hasFlag(args, "--write", "-w") },
+	eslint: { targets: "all", valueFlags: ["-c", "--config", "--ext", "--rule"], mutatesWhen: (args) => hasFlag(args, "--fix") },
+	gofmt: { targets: "all", mutatesWhen: (args) => hasShortFlag(args, "w") },
+};
+
+function applySpec(name: string, spec: CommandSpec, args: string[]): BashMutation | null {
+	if (spec.mutatesWhen && !spec.mutatesWhen(args)) return null;
+	const { operands, values } = operandsOf(args, [...(spec.valueFlags ?? []), ...(spec.targetFlags ?? [])]);
+	const fromFlag = (spec.targetFlags ?? []).map((f) => values[f]).filter((v): v is string => !!v);
+	if (fromFlag.length > 0) return { command: name, targets: fromFlag };
+
+	let targets: string[];
+	switch (spec.targets) {
+		case "all": targets = operands; break;
+		case "last": targets = operands.slice(-1); break;
+		case "after-first": targets = operands.slice(1); break;
+		case "first": targets = operands.slice(0, 1); break;
+	}
+	return { command: name, targets };
+}
+
+// --- Commands with their own argument grammar ---
+
+/** sed -i / --in-place: the first operand is the script unless -e/-f gave it */
+function sedMutation(args: string[]): BashMutation | null {
+	let inPlace = false;
+	let scriptGiven = false;
+	const operands: string[] = [];
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (arg === "--") {
+			operands.push(...args.slice(i + 1));
+			break;
+		}
+		if (arg === "--in-place" || arg.startsWith("--in-place=")) {
+			inPlace = true;
+		} else if (arg === "--expression" || arg === "--file") {
+			scriptGiven = true;
+			i++;
+		} else if (arg.startsWith("--expression=") || arg.startsWith("--file=")) {
+			scriptGiven = true;
+		} else if (/^-[a-zA-Z]/.test(arg)) {
+			for (let j = 1; j < arg.length; j++) {
+				const flag = arg[j];
+				if (flag === "i") {
+					inPlace = true;
+					// BSD sed: `-i ''` — the empty suffix is a separate argument
+					if (j === arg.length - 1 && args[i + 1] === "") i++;
+					break; // the rest of the cluster is the backup suffix
+				}
+				if (flag === "e" || flag === "f") {
+					scriptGiven = true;
+					if (j === arg.length - 1) i++;
+					break;
+				}
+			}
+		} else {
+			operands.push(arg);
+		}
+	}
+	if (!inPlace) return null;
+	return { command: "sed", targets: scriptGiven ? operands : operands.slice(1) };
+}
+
+/** perl -i (e.g. -pi -e '...' file): files are the operands after the script */
+function perlMutation(args: string[]): BashMutation | null {
+	let inPlace = false;
+	let scriptGiven = false;
+	const operands: string[] = [];
+	for (let i = 0; i < args.length; i++) {
+		const arg = args[i];
+		if (arg === "--") {
+			operands.push(...args.slice(i + 1));
+			break;
+		}
+		if (/^-[a-zA-Z]/.test(arg)) {
+			for (let j = 1; j < arg.length; j++) {
+				const flag = arg[j];
+				if (flag === "i") {
+					inPlace = true;
+					break; // the rest of the cluster is the backup suffix
+				}
+				if (flag === "e" || flag === "E") {
+					scriptGiven = true;
+					if (j === arg.length - 1) i++;
+					break;
+				}
+				if ("IMmxl0".includes(flag)) break; // flags with attached values
+			}
+		} else {
+			operands.push(arg);
+		}
+	}
+	if (!inPlace) return null;
+	return { command: "perl", targets: scriptGiven ? operands : operands.slice(1) };
+}
+
+/** dd of=FILE */
+function ddMutation(args: string[]): BashMutation | null {
+	const targets = args.filter((a) => a.startsWith("of=")).map((a) => a.slice(3));
+	return targets.length > 0 ? { command: "dd", targets } : null;
+}
+
+/** Inline scripts that write files: python -c, node -e, ruby -e */
+const INLINE_SCRIPT_FLAGS: Record<string, string[]> = {
+	python: ["-c"],
+	node: ["-e", "--eval", "-p", "--print"],
+	ruby: ["-e"],
+	deno: ["eval"],
+};
+
+const CODE_WRITE_RE = new RegExp([
+	/\bopen\s*\([^)]*,\s*f?['"][^'"]*[wax+]/.source,
+	/\.write_(?:text|bytes)\s*\(/.source,
+	/\b(?:shutil|os)\.(?:copy\w*|move|rmtree|remove|unlink|rename|replace|makedirs|mkdir|rmdir|truncate)\s*\(/.source,
+	/\b(?:writeFile|appendFile|rm|rmdir|unlink|rename|copyFile|cp|mkdir|truncate)(?:Sync)?\s*\(/.source,
+	/\bcreateWriteStream\s*\(/.source,
+	/\bFile\.(?:write|delete|rename|open\s*\([^)]*['"][wa])/.source,
+	/\bFileUtils\.\w+/.source,
+].join("|"));
+
+/** First string literal passed to a write call, when there is one */
+const CODE_TARGET_RE = /(?:\bopen|\bPath|writeFile(?:Sync)?|appendFile(?:Sync)?|createWriteStream|File\.write|File\.open)\s*\(\s*f?(['"`])([^'"`]+)\1/;
+
+function inlineScriptMutation(name: string, args: string[]): BashMutation | null {
+	const flags = INLINE_SCRIPT_FLAGS[name];
+	const index = args.findIndex((a) => flags.includes(a));
+	const code = index === -1 ? undefined : args[index + 1];
+	if (!code || !CODE_WRITE_RE.test(code)) return null;
+	const target = code.match(CODE_TARGET_RE)?.[2];
+	return { command: `${name} ${flags[0]}`, targets: target ? [target] : [] };
+}
+
+/** git global options that take a value */
+const GIT_VALUE_OPTIONS = ["-C", "-c", "--git-dir", "--work-tree", "--namespace"];
+
+/** git subcommands that rewrite the working tree without naming files */
+const GIT_TREE_REWRITES = new Set(["apply", "am", "merge", "pull", "rebase", "cherry-pick", "revert"]);
+
+/** Whether `name` resolves to a commit in the repo at `cwd`. */
+function isGitRef(name: string, cwd: string): boolean {
+	try {
+		execFileSync("git", ["rev-parse", "--verify", "--quiet", `${name}^{commit}`], { cwd, stdio: "ignore", timeout: 5000 });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+function gitMutation(args: string[], cwd?: string): BashMutation | null {
+	let i = 0;
+	while (i < args.length && args[i].startsWith("-")) {
+		i += GIT_VALUE_OPTIONS.includes(args[i]) ? 2 : 1;
+	}
+	const sub = args[i];
+	const rest = args.slice(i + 1);
+	const command = `git ${sub}`;
+
+	if (sub === "apply") {
+		// --check / --stat only inspect the patch
+		if (hasFlag(rest, "--check", "--stat", "--numstat", "--summary") && !hasFlag(rest, "--apply")) return null;
+		return { command, targets: [] };
+	}
+	if (GIT_TREE_REWRITES.has(sub)) return { command, targets: [] };
+	if (sub === "checkout") {
+		const dashDash = rest.indexOf("--");
+		if (dashDash !== -1) return { command, targets: rest.slice(dashDash + 1) };
+		// `git checkout <branch>` switches branches. Without `--`, an operand is a
+		// file only if it exists on disk and isn't a ref — which needs the cwd.
+		if (!cwd) return null;
+		const paths = operandsOf(rest, ["-b", "-B", "--orphan"]).operands
+			.filter((a) => fs.existsSync(path.resolve(cwd, a)) && !isGitRef(a, cwd));
+		return paths.length > 0 ? { command, targets: paths } : null;
+	}
+	if (sub === "restore") {
+		if (hasFlag(rest, "--staged", "-S") && !hasFlag(rest, "--worktree", "-W")) return null;
+		return { command, targets: operandsOf(rest, ["-s", "--source"]).operands };
+	}
+	if (sub === "rm") {
+		if (hasFlag(rest, "--cached")) return null;
+		return { command, targets: operandsOf(rest).operands };
+	}
+	if (sub === "mv") return { command, targets: operandsOf(rest).operands.slice(-1) };
+	if (sub === "reset") return hasFlag(rest, "--hard", "--merge", "--keep") ? { command, targets: [] } : null;
+	if (sub === "clean") return hasShortFlag(rest, "f") || hasFlag(rest, "--force") ? { command, targets: [] } : null;
+	if (sub === "stash") return rest[0] === "pop" || rest[0] === "apply" ? { command: `${command} ${rest[0]}`, targets: [] } : null;
+	return null;
+}
+
+/** find -delete, find -exec/-execdir/-ok <command> {} ; */
+function findMutations(args: string[], cwd?: string): BashMutation[] {
+	const mutations: BashMutation[] = [];
+	if (args.includes("-delete")) mutations.push({ command: "find -delete", targets: [] });
+	for (let i = 0; i < args.length; i++) {
+		if (!["-exec", "-execdir", "-ok", "-okdir"].includes(args[i])) continue;
+		const end = args.findIndex((a, j) => j > i && (a === ";" || a === "+"));
+		const inner = args.slice(i + 1, end === -1 ? args.length : end);
+		for (const m of commandMutations({ argv: inner, redirects: [] }, cwd)) {
+			// {} stands for the files find matched
+			mutations.push({ command: m.command, targets: m.targets.filter((t) => !t.includes("{}")) });
+		}
+	}
+	return mutations;
+}
+
+/** Options of command wrappers that take a value */
+const WRAPPER_VALUE_OPTIONS: Record<string, string[]> = {
+	sudo: ["-u", "-g", "-C", "-D", "-h", "-p", "-U"],
+	env: ["-u", "--unset", "-C", "--chdir", "-S", "--split-string"],
+	nice: ["-n", "--adjustment"],
+	timeout: ["-s", "--signal", "-k", "--kill-after"],
+	xargs: ["-I", "-i", "-n", "-P", "-d", "-L", "-s", "-a", "-E", "--max-args", "--max-procs", "--delimiter", "--arg-file"],
+	stdbuf: ["-i", "-o", "-e"],
+	nohup: [],
+	command: [],
+	exec: [],
+	builtin: [],
+};
+
+const SHELLS = new Set(["bash", "sh", "zsh", "dash", "ksh"]);
+
+/** Drop a wrapper and its options, leaving the wrapped command's argv. */
+function unwrap(name: string, args: string[]): string[] {
+	const valueOptions = WRAPPER_VALUE_OPTIONS[name];
+	let i = 0;
+	while (i < args.length && args[i].startsWith("-") && args[i] !== "--") {
+		i += valueOptions.includes(args[i]) ? 2 : 1;
+	}
+	if (args[i] === "--") i++;
+	if (name === "env") while (i < args.length && /^[A-Za-z_]\w*=/.test(args[i])) i++;
+	if (name === "timeout") i++; // duration
+	return args.slice(i);
+}
+
+/** Mutations performed by one simple command (its redirects and the command itself). */
+function commandMutations(cmd: SimpleCommand, cwd?: string): BashMutation[] {
+	const mutations: BashMutation[] = [];
+
+	for (const r of cmd.redirects) {
+		const writes = [">", ">>", ">|", "&>", "&>>", "<>"].includes(r.op) || (r.op === ">&" && !/^(\d+|-)$/.test(r.target));
+		if (writes && !r.target.startsWith("/dev/")) mutations.push({ command: r.op, targets: [r.target] });
+	}
+
+	// Leading VAR=value assignments
+	let argv = cmd.argv;
+	while (argv.length > 0 && /^[A-Za-z_]\w*=/.test(argv[0])) argv = argv.slice(1);
+	if (argv.length === 0) return mutations;
+
+	const name = path.basename(argv[0]).replace(/^(python|ruby)[\d.]*$/, "$1");
+	const args = argv.slice(1);
+
+	if (name in WRAPPER_VALUE_OPTIONS) {
+		mutations.push(...commandMutations({ argv: unwrap(name, args), redirects: [] }, cwd));
+	} else if (SHELLS.has(name) || name === "eval") {
+		const script = name === "eval" ? args.join(" ") : args[args.indexOf("-c") + 1];
+		if (script !== undefined && (name === "eval" || args.includes("-c"))) {
+			for (const inner of parseShell(script)) mutations.push(...commandMutations(inner, cwd));
+		}
+	} else if (name === "sed") {
+		const m = sedMutation(args);
+		if (m) mutations.push(m);
+	} else if (name === "perl") {
+		const m = perlMutation(args);
+		if (m) mutations.push(m);
+	} else if (name === "dd") {
+		const m = ddMutation(args);
+		if (m) mutations.push(m);
+	} else if (name === "git") {
+		const m = gitMutation(args, cwd);
+		if (m) mutations.push(m);
+	} else if (name === "find") {
+		mutations.push(...findMutations(args, cwd));
+	} else if (name in INLINE_SCRIPT_FLAGS) {
+		const m = inlineScriptMutation(name, args);
+		if (m) mutations.push(m);
+	} else if (name in COMMAND_SPECS) {
+		const m = applySpec(name, COMMAND_SPECS[name], args);
+		if (m) mutations.push(m);
+	}
+
+	return mutations;
+}
+
+/**
+ * Every file mutation in a bash command line. Redirects to /dev/* and fd
+ * duplication (`2>&1`) are not mutations; quoted text is never an operator.
+ * With `cwd`, `git checkout <operand>` also counts operands that are files
+ * there (not refs); without it, only paths after `--`.
+ */
+export function findBashMutations(command: string, cwd?: string): BashMutation[] {
+	return parseShell(command).flatMap((cmd) => commandMutations(cmd, cwd));
+}
@@ -5,7 +5,7 @@
 import { describe, it, expect } from "vitest";
 import type { SuperteamConfig } from "./config.ts";
 import type { AgentProfile } from "./dispatch.ts";
-import { formatAgentLine } from "./team-display.ts";
+import { formatAgentLine, formatRuleLine } from "./team-display.ts";
 
 function makeConfig(overrides: Partial<SuperteamConfig> = {}): SuperteamConfig {
 	return {
@@ -148,4 +148,65 @@ describe("formatAgentLine", () => {
 			"architect [project] — Plans things\n  model: claude-opus (override), thinking: xhigh (override), tools: read, grep"
 		);
 	});
+	it("shows the fallback chain for the resolved model", () => {
+		const agent = makeAgent({ name: "implementer" });
+		const config = makeConfig({
+			agents: {
+				defaultModel: "claude-sonnet-4-5",
+				scoutModel: "claude-haiku-4-5",
+				modelOverrides: {},
+				thinkingOverrides: {},
+				modelFallbacks: { "claude-sonnet-4-5": ["claude-haiku-4-5", "gpt-5-mini"] },
+			},
+		});
+		expect(formatAgentLine(agent, config)).toContain(
+			"model: claude-sonnet-4-5 (config default), fallbacks: claude-haiku-4-5 → gpt-5-mini, tools: (all)",
+		);
+	});
+});
+
+describe("formatRuleLine", () => {
+	it("shows rule name, source, priority, frequency, and file path", () => {
+		const line = formatRuleLine({
+			name: "no-any",
+			trigger: /as any/i,
+			content: "Avoid any",
+			priority: "high",
+			frequency: "once",
+			action: "inject",
+			source: "project",
+			filePath: "/repo/.pi/rules/no-any.md",
+		});
+		expect(line).toBe("no-any [project] — priority: high, frequency: once\n  /repo/.pi/rules/no-any.md");
+	});
+
+	it("shows the action when it isn't the default inject", () => {
+		const line = formatRuleLine({
+			name: "no-generated",
+			triggerPaths: ["generated/**"],
+			content: "Don't edit generated files",
+			priority: "high",
+			frequency: "per-turn",
+			action: "block",
+			source: "project",
+			filePath: "/repo/.pi/rules/no-generated.md",
+		});
+		expect(line).toBe("no-generated [project] — priority: high, frequency: per-turn, action: block\n  /repo/.pi/rules/no-generated.md");
+	});
+
+	it("shows scope filters", () => {
+		const line = formatRuleLine({
+			name: "yagni",
+			trigger: /just in case/i,
+			content: "YAGNI",
+			priority: "medium",
+			frequency: "per-turn",
+			action: "inject",
+			agents: ["implementer"],
+			phases: ["execute"],
+			source: "package",
+			filePath: "/pkg/rules/yagni.md",
+		});
+		expect(line).toBe("yagni [package] — priority: medium, frequency: per-turn, agents: implementer, phases: execute\n  /pkg/rules/yagni.md");
+	});
 });
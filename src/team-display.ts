@@ -4,11 +4,12 @@
 
 import type { AgentProfile } from "./dispatch.js";
 import type { SuperteamConfig } from "./config.js";
+import { formatRuleScope, type Rule } from "./rules/engine.js";
 import { resolveAgentModel, resolveAgentThinking } from "./dispatch.js";
 
 /**
  * Format a single agent line for /team display.
- * Shows model with source annotation and optional thinking level.
+ * Shows model with source annotation, fallback chain and optional thinking level.
  */
 export function formatAgentLine(agent: AgentProfile, config: SuperteamConfig): string {
 	const model = resolveAgentModel(agent, config);
@@ -26,6 +27,9 @@ export function formatAgentLine(agent: AgentProfile, config: SuperteamConfig): s
 	// Build the details line
 	let details = `model: ${model}${modelAnnotation}`;
 
+	const fallbacks = config.agents.modelFallbacks?.[model] ?? [];
+	if (fallbacks.length > 0) details += `, fallbacks: ${fallbacks.join(" → ")}`;
+
 	if (thinking !== undefined) {
 		const thinkingAnnotation = config.agents.thinkingOverrides[agent.name] ? " (override)" : "";
 		details += `, thinking: ${thinking}${thinkingAnnotation}`;
@@ -35,3 +39,13 @@ export function formatAgentLine(agent: AgentProfile, config: SuperteamConfig): s
 
 	return `${agent.name} [${agent.source}] — ${agent.description}\n  ${details}`;
 }
+
+/**
+ * Format a single active rule line for /team display.
+ * Shows where the rule was loaded from so project overrides are visible.
+ */
+export function formatRuleLine(rule: Rule): string {
+	const action = rule.action === "inject" ? "" : `, action: ${rule.action}`;
+	const scope = formatRuleScope(rule);
+	return `${rule.name} [${rule.source}] — priority: ${rule.priority}, frequency: ${rule.frequency}${action}${scope ? `, ${scope}` : ""}\n  ${rule.filePath}`;
+}
@@ -247,6 +247,40 @@ describe("evaluateCheckpointTriggers", () => {
       expect.objectContaining({ type: "budget-warning" }),
     );
   });
+
+  it("enforces a workflow budget below the global limits", () => {
+    const tasks = [
+      { id: 1, title: "A", status: "complete" },
+      { id: 2, title: "B", status: "pending" },
+    ];
+    const costs = { warnAtUsd: 25, hardLimitUsd: 75 };
+
+    const warning = evaluateCheckpointTriggers(
+      makeState({ totalCostUsd: 8.0, tasks, currentTaskIndex: 1, config: { executionMode: "auto", budgetUsd: 10 } }),
+      costs,
+    );
+    expect(warning).toEqual([
+      { type: "budget-warning", message: "Budget warning: $8.00 spent (warn threshold: $7.50)" },
+    ]);
+
+    const critical = evaluateCheckpointTriggers(
+      makeState({ totalCostUsd: 9.5, tasks, currentTaskIndex: 1, config: { executionMode: "auto", budgetUsd: 10 } }),
+      costs,
+    );
+    expect(critical).toEqual([
+      { type: "budget-critical", message: "Budget critical: $9.50 spent (workflow budget: $10.00)" },
+    ]);
+  });
+
+  it("never raises the global limits with a larger workflow budget", () => {
+    const state = makeState({
+      totalCostUsd: 26.0,
+      tasks: [{ id: 1, title: "A", status: "pending" }],
+      config: { executionMode: "auto", budgetUsd: 500 },
+    });
+    const triggers = evaluateCheckpointTriggers(state, { warnAtUsd: 25, hardLimitUsd: 75 });
+    expect(triggers.map(t => t.type)).toEqual(["budget-warning"]);
+  });
 });
 
 describe("formatCheckpointMessage", () => {
@@ -371,6 +405,31 @@ describe("applyPlanAdjustment", () => {
     expect(result.find(t => t.id === 4)).toBeUndefined();
   });
 
+  it("refuses to drop a task that a pending task depends on", () => {
+    const tasks = makeTasks(["complete", "pending", "pending", "pending"]);
+    tasks[3] = { ...tasks[3], dependsOn: [2] } as any;
+    const adj: PlanAdjustment = { droppedTaskIds: [2, 3], skippedTaskIds: [], reorderedTaskIds: undefined };
+    const result = applyPlanAdjustment(tasks, adj);
+    expect(result.map(t => t.id)).toEqual([1, 2, 4]);
+  });
+
+  it("keeps transitive dependencies of remaining pending tasks", () => {
+    const tasks = makeTasks(["pending", "pending", "pending"]);
+    tasks[1] = { ...tasks[1], dependsOn: [1] } as any;
+    tasks[2] = { ...tasks[2], dependsOn: [2] } as any;
+    const adj: PlanAdjustment = { droppedTaskIds: [1, 2], skippedTaskIds: [], reorderedTaskIds: undefined };
+    const result = applyPlanAdjustment(tasks, adj);
+    expect(result.map(t => t.id)).toEqual([1, 2, 3]);
+  });
+
+  it("drops a task together with everything that depends on it", () => {
+    const tasks = makeTasks(["pending", "pending", "pending"]);
+    tasks[1] = { ...tasks[1], dependsOn: [1] } as any;
+    const adj: PlanAdjustment = { droppedTaskIds: [1, 2], skippedTaskIds: [], reorderedTaskIds: undefined };
+    const result = applyPlanAdjustment(tasks, adj);
+    expect(result.map(t => t.id)).toEqual([3]);
+  });
+
   it("returns tasks unchanged when adjustment is empty", () => {
     const tasks = makeTasks(["complete", "pending", "pending"]);
     const adj: PlanAdjustment = { droppedTaskIds: [], skippedTaskIds: [], reorderedTaskIds: undefined };
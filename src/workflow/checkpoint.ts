@@ -21,7 +21,7 @@ export interface CostThresholds {
 
 // Loose state type to avoid circular dependency
 interface CheckpointState {
-  config: { executionMode?: string };
+  config: { executionMode?: string; budgetUsd?: number };
   tasks: Array<{ status: string }>;
   currentTaskIndex: number;
   totalCostUsd: number;
@@ -29,6 +29,21 @@ interface CheckpointState {
   lastBudgetCheckpointCostUsd?: number;
 }
 
+/** Fraction of a workflow budget at which the budget warning fires */
+const WORKFLOW_BUDGET_WARN_FRACTION = 0.75;
+
+/**
+ * Thresholds in effect for a workflow. A workflow budget (set in configure) lowers
+ * the hard limit to the budget and the warning to 75% of it, never raising either.
+ */
+export function resolveCostThresholds(costs: CostThresholds, budgetUsd?: number): CostThresholds {
+  if (budgetUsd === undefined || budgetUsd <= 0) return costs;
+  return {
+    warnAtUsd: Math.min(costs.warnAtUsd, budgetUsd * WORKFLOW_BUDGET_WARN_FRACTION),
+    hardLimitUsd: Math.min(costs.hardLimitUsd, budgetUsd),
+  };
+}
+
 /**
  * Evaluate all checkpoint triggers after a task completes.
  * Returns an array of triggers that fired (may be empty).
@@ -46,24 +61,27 @@ export function evaluateCheckpointTriggers(
   );
   if (!hasRemaining) return triggers;
 
+  const thresholds = resolveCostThresholds(costs, state.config.budgetUsd);
+  const limitLabel = thresholds.hardLimitUsd < costs.hardLimitUsd ? "workflow budget" : "hard limit";
+
   // Budget critical: cost >= 90% of hard limit (takes priority over warning)
   // Only fire if not already acknowledged at this level
-  const criticalThreshold = costs.hardLimitUsd * 0.9;
+  const criticalThreshold = thresholds.hardLimitUsd * 0.9;
   const lastBudget = state.lastBudgetCheckpointCostUsd;
 
   if (state.totalCostUsd >= criticalThreshold) {
     if (lastBudget === undefined || lastBudget < criticalThreshold) {
       triggers.push({
         type: "budget-critical",
-        message: `Budget critical: $${state.totalCostUsd.toFixed(2)} spent (hard limit: $${costs.hardLimitUsd.toFixed(2)})`,
+        message: `Budget critical: $${state.totalCostUsd.toFixed(2)} spent (${limitLabel}: $${thresholds.hardLimitUsd.toFixed(2)})`,
       });
     }
-  } else if (state.totalCostUsd >= costs.warnAtUsd) {
+  } else if (state.totalCostUsd >= thresholds.warnAtUsd) {
     // Budget warning: cost >= warnAtUsd (only if critical didn't fire)
-    if (lastBudget === undefined || lastBudget < costs.warnAtUsd) {
+    if (lastBudget === undefined || lastBudget < thresholds.warnAtUsd) {
       triggers.push({
         type: "budget-warning",
-        message: `Budget warning: $${state.totalCostUsd.toFixed(2)} spent (warn threshold: $${costs.warnAtUsd.toFixed(2)})`,
+        message: `Budget warning: $${state.totalCostUsd.toFixed(2)} spent (warn threshold: $${thresholds.warnAtUsd.toFixed(2)})`,
       });
     }
   }
@@ -141,13 +159,14 @@ interface AdjustableTask {
   reviewsPassed: string[];
   reviewsFailed: string[];
   fixAttempts: number;
+  dependsOn?: number[];
   [key: string]: any;
 }
 
 /**
  * Apply plan adjustments to the task list.
  * - Completed tasks are protected from drop/skip.
- * - Dropped tasks are removed entirely.
+ * - Dropped tasks are removed entirely, unless a remaining pending task depends on them.
  * - Skipped tasks have status set to "skipped".
  * - Reorder changes the array order.
  * Returns a new array — does not mutate input.
@@ -158,10 +177,21 @@ export function applyPlanAdjustment(
 ): AdjustableTask[] {
   const completedStatuses = new Set(["complete", "skipped", "escalated"]);
 
-  // 1. Drop (only non-completed)
+  // 1. Drop (only non-completed, and never a task a remaining pending task depends on)
+  const dropped = new Set(adjustment.droppedTaskIds);
+  let changed = true;
+  while (changed) {
+    changed = false;
+    for (const t of tasks) {
+      if (completedStatuses.has(t.status) || dropped.has(t.id)) continue;
+      for (const dep of t.dependsOn ?? []) {
+        if (dropped.delete(dep)) changed = true;
+      }
+    }
+  }
   let result = tasks.filter(t => {
     if (completedStatuses.has(t.status)) return true; // protect completed
-    return !adjustment.droppedTaskIds.includes(t.id);
+    return !dropped.has(t.id);
   });
 
   // 2. Skip (only non-completed)
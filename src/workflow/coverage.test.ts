@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { execFileSync } from "node:child_process";
+import { getConfig, type SuperteamConfig } from "../config.ts";
+import { findUncoveredAddedLines, parseCoverageReport, parseIstanbulJson, parseLcov, runCoverageCheck } from "./coverage.ts";
+
+describe("parseLcov", () => {
+	it("reads line hit counts per source file", () => {
+		const coverage = parseLcov([
+			"TN:",
+			"SF:src/a.ts",
+			"DA:1,3",
+			"DA:2,0",
+			"end_of_record",
+			"SF:src/b.ts",
+			"DA:5,1",
+			"end_of_record",
+		].join("\n"));
+
+		expect([...coverage.get("src/a.ts")!]).toEqual([[1, 3], [2, 0]]);
+		expect([...coverage.get("src/b.ts")!]).toEqual([[5, 1]]);
+	});
+});
+
+describe("parseIstanbulJson", () => {
+	it("attributes statement hits to their start line, keeping the highest count", () => {
+		const coverage = parseIstanbulJson(JSON.stringify({
+			"/repo/src/a.ts": {
+				path: "/repo/src/a.ts",
+				statementMap: {
+					"0": { start: { line: 1, column: 0 }, end: { line: 1, column: 10 } },
+					"1": { start: { line: 2, column: 0 }, end: { line: 2, column: 10 } },
+					"2": { start: { line: 2, column: 12 }, end: { line: 2, column: 20 } },
+					"3": { start: { line: 4, column: 0 }, end: { line: 4, column: 10 } },
+				},
+				s: { "0": 1, "1": 0, "2": 2, "3": 0 },
+			},
+		}));
+
+		expect([...coverage.get("/repo/src/a.ts")!]).toEqual([[1, 1], [2, 2], [4, 0]]);
+	});
+});
+
+describe("parseCoverageReport", () => {
+	it("detects Istanbul JSON and lcov in auto mode", () => {
+		expect(parseCoverageReport('{"src/a.ts":{"statementMap":{"0":{"start":{"line":3}}},"s":{"0":0}}}').get("src/a.ts")?.get(3)).toBe(0);
+		expect(parseCoverageReport("SF:src/a.ts\nDA:3,1\nend_of_record").get("src/a.ts")?.get(3)).toBe(1);
+	});
+});
+
+describe("findUncoveredAddedLines", () => {
+	it("groups consecutive uncovered added lines into one finding each", () => {
+		const coverage = parseLcov("SF:src/a.ts\nDA:1,1\nDA:2,0\nDA:3,0\nDA:5,0\nDA:9,0\nend_of_record");
+		const added = new Map([
+			["src/a.ts", [1, 2, 3, 4, 5, 6]],
+			["src/not-in-report.ts", [1]],
+		]);
+
+		expect(findUncoveredAddedLines(added, coverage)).toEqual([
+			expect.objectContaining({ severity: "medium", file: "src/a.ts", line: 2, issue: "Added lines 2–3 are not covered by any test" }),
+			expect.objectContaining({ severity: "medium", file: "src/a.ts", line: 5, issue: "Added line 5 is not covered by any test" }),
+		]);
+	});
+});
+
+describe("runCoverageCheck", () => {
+	let dir: string;
+	let baseSha: string;
+	let config: SuperteamConfig;
+
+	function git(...args: string[]): string {
+		return execFileSync("git", args, { cwd: dir, encoding: "utf-8" }).trim();
+	}
+
+	function write(file: string, content: string): void {
+		fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+		fs.writeFileSync(path.join(dir, file), content);
+	}
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "coverage-check-"));
+		git("init");
+		git("config", "user.email", "test@test.com");
+		git("config", "user.name", "Test");
+		write("src/math.js", "exports.double = (n) => n * 2;\n");
+		git("add", ".");
+		git("commit", "-m", "initial");
+		baseSha = git("rev-parse", "HEAD");
+		config = { ...getConfig("/nonexistent-path-for-test", true), testFilePatterns: ["*.test.js"] };
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+	});
+
+	it("reports uncovered lines the task added to implementation files", async () => {
+		write("src/math.js", "exports.double = (n) => n * 2;\nexports.half = (n) => n / 2;\n");
+		write("src/format.js", "exports.pct = (n) => `${n}%`;\n"); // untracked
+		write("src/math.test.js", "require('./math.js');\n");
+		// The "coverage command" writes an lcov report with absolute paths
+		const report = [
+			`SF:${path.join(dir, "src/math.js")}`, "DA:1,1", "DA:2,0", "end_of_record",
+			`SF:${path.join(dir, "src/format.js")}`, "DA:1,1", "end_of_record",
+		].join("\n");
+		fs.writeFileSync(path.join(dir, "report.txt"), report);
+
+		const check = await runCoverageCheck(dir, baseSha, { command: "mkdir -p coverage && cp report.txt coverage/lcov.info", path: "coverage/lcov.info" }, config);
+
+		expect(check.skipped).toBeUndefined();
+		expect(check.checkedFiles.sort()).toEqual(["src/format.js", "src/math.js"]);
+		expect(check.findings).toEqual([
+			expect.objectContaining({ file: "src/math.js", line: 2, issue: "Added line 2 is not covered by any test" }),
+		]);
+	});
+
+	it("skips when the task added no implementation lines", async () => {
+		write("src/math.test.js", "require('./math.js');\n");
+
+		const check = await runCoverageCheck(dir, baseSha, { command: "exit 1", path: "coverage/lcov.info" }, config);
+
+		expect(check.skipped).toBe("the task added no implementation lines");
+	});
+
+	it("skips when the report is missing or wasn't rewritten by the command", async () => {
+		write("src/math.js", "exports.double = (n) => n * 2;\nexports.half = (n) => n / 2;\n");
+
+		const missing = await runCoverageCheck(dir, baseSha, { command: "true", path: "coverage/lcov.info" }, config);
+		expect(missing.skipped).toMatch(/couldn't read coverage report coverage\/lcov\.info/);
+
+		write("coverage/lcov.info", "SF:src/math.js\nDA:2,0\nend_of_record\n");
+		const stale = await runCoverageCheck(dir, baseSha, { command: "true", path: "coverage/lcov.info" }, config);
+		expect(stale.skipped).toBe("the coverage command didn't update coverage/lcov.info");
+		expect(stale.findings).toEqual([]);
+	});
+});
@@ -0,0 +1,183 @@
+/**
+ * Coverage-aware GREEN check — are the lines a task added exercised by a test?
+ *
+ * Runs the configured coverage command, reads its lcov or Istanbul JSON report,
+ * and intersects the report with the lines the task added to implementation
+ * files since `gitShaBeforeImpl`. Uncovered additions become review findings so
+ * they go through the same fix loop as reviewer findings.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { execFile as execFileCb } from "node:child_process";
+import { promisify } from "node:util";
+import type { CoverageFormat, CoverageReportConfig, SuperteamConfig } from "../config.js";
+import type { ReviewFinding } from "../review-parser.js";
+import { getAddedLines, getUntrackedFiles } from "./git-utils.js";
+import { isExemptFile, isTestFile } from "./tdd-guard.js";
+
+const execFile = promisify(execFileCb);
+
+/** Instrumented lines per file: line number → hit count */
+export type LineCoverage = Map<string, Map<number, number>>;
+
+export interface CoverageCheck {
+	/** One finding per run of consecutive uncovered added lines */
+	findings: ReviewFinding[];
+	/** Implementation files whose added lines were checked against the report */
+	checkedFiles: string[];
+	/** Why the check didn't run */
+	skipped?: string;
+}
+
+function record(coverage: LineCoverage, file: string, line: number, hits: number): void {
+	let lines = coverage.get(file);
+	if (!lines) {
+		lines = new Map();
+		coverage.set(file, lines);
+	}
+	lines.set(line, Math.max(lines.get(line) ?? 0, hits));
+}
+
+/** Parse an lcov tracefile (`SF:` / `DA:line,hits` / `end_of_record`). */
+export function parseLcov(content: string): LineCoverage {
+	const coverage: LineCoverage = new Map();
+	let file: string | null = null;
+	for (const raw of content.split("\n")) {
+		const line = raw.trim();
+		if (line.startsWith("SF:")) {
+			file = line.slice(3);
+		} else if (line === "end_of_record") {
+			file = null;
+		} else if (file && line.startsWith("DA:")) {
+			const [lineNo, hits] = line.slice(3).split(",");
+			if (Number.isFinite(Number(lineNo))) record(coverage, file, Number(lineNo), Number(hits) || 0);
+		}
+	}
+	return coverage;
+}
+
+/** Parse an Istanbul `coverage-final.json` — statements are attributed to their start line. */
+export function parseIstanbulJson(content: string): LineCoverage {
+	const coverage: LineCoverage = new Map();
+	const data = JSON.parse(content) as Record<string, {
+		path?: string;
+		statementMap?: Record<string, { start: { line: number } }>;
+		s?: Record<string, number>;
+	}>;
+	for (const [key, entry] of Object.entries(data)) {
+		const file = entry.path ?? key;
+		for (const [id, location] of Object.entries(entry.statementMap ?? {})) {
+			record(coverage, file, location.start.line, entry.s?.[id] ?? 0);
+		}
+	}
+	return coverage;
+}
+
+/** Parse a coverage report; "auto" treats JSON as Istanbul and anything else as lcov. */
+export function parseCoverageReport(content: string, format: CoverageFormat = "auto"): LineCoverage {
+	const istanbul = format === "istanbul" || (format === "auto" && content.trimStart().startsWith("{"));
+	return istanbul ? parseIstanbulJson(content) : parseLcov(content);
+}
+
+/** Report paths may be absolute or relative to the project; key them repo-relative. */
+function relativeCoverage(coverage: LineCoverage, cwd: string): LineCoverage {
+	const relative: LineCoverage = new Map();
+	for (const [file, lines] of coverage) {
+		const rel = path.isAbsolute(file) ? path.relative(cwd, file) : path.normalize(file);
+		relative.set(rel.split(path.sep).join("/"), lines);
+	}
+	return relative;
+}
+
+/** Group sorted line numbers into runs of consecutive lines. */
+function toRanges(lines: number[]): [number, number][] {
+	const ranges: [number, number][] = [];
+	for (const line of lines) {
+		const last = ranges[ranges.length - 1];
+		if (last && line === last[1] + 1) last[1] = line;
+		else ranges.push([line, line]);
+	}
+	return ranges;
+}
+
+/**
+ * Added lines the report instruments but never hit, as findings. Lines the
+ * report doesn't instrument (blank lines, comments, types) and files absent
+ * from the report are not flagged.
+ */
+export function findUncoveredAddedLines(added: Map<string, number[]>, coverage: LineCoverage): ReviewFinding[] {
+	const findings: ReviewFinding[] = [];
+	for (const [file, lines] of added) {
+		const fileCoverage = coverage.get(file);
+		if (!fileCoverage) continue;
+		const uncovered = lines.filter((line) => fileCoverage.get(line) === 0).sort((a, b) => a - b);
+		for (const [start, end] of toRanges(uncovered)) {
+			findings.push({
+				severity: "medium",
+				file,
+				line: start,
+				issue: start === end
+					? `Added line ${start} is not covered by any test`
+					: `Added lines ${start}–${end} are not covered by any test`,
+				suggestion: "Add or extend a test that exercises this code, or remove it if it's unreachable",
+			});
+		}
+	}
+	return findings;
+}
+
+/** Lines the task added: diff hunks since `baseSha`, plus every line of new untracked files. */
+async function taskAddedLines(cwd: string, baseSha: string): Promise<Map<string, number[]>> {
+	const [added, untracked] = await Promise.all([getAddedLines(cwd, baseSha), getUntrackedFiles(cwd)]);
+	for (const file of untracked) {
+		try {
+			const count = fs.readFileSync(path.join(cwd, file), "utf-8").split("\n").length;
+			added.set(file, Array.from({ length: count }, (_, i) => i + 1));
+		} catch {
+			// Non-fatal — unreadable files aren't checked
+		}
+	}
+	return added;
+}
+
+/**
+ * Run the coverage command, read its report, and return findings for added
+ * implementation lines it didn't cover. The command's exit code is ignored —
+ * failing tests are the reviewers' and test runner's concern, not this check's.
+ */
+export async function runCoverageCheck(
+	cwd: string,
+	baseSha: string,
+	coverageConfig: CoverageReportConfig,
+	config: SuperteamConfig,
+): Promise<CoverageCheck> {
+	const added = await taskAddedLines(cwd, baseSha);
+	for (const file of [...added.keys()]) {
+		if (isTestFile(file, config) || isExemptFile(file, config)) added.delete(file);
+	}
+	if (added.size === 0) return { findings: [], checkedFiles: [], skipped: "the task added no implementation lines" };
+
+	const reportPath = path.resolve(cwd, coverageConfig.path);
+	const previousMtime = fs.existsSync(reportPath) ? fs.statSync(reportPath).mtimeMs : null;
+	try {
+		await execFile("bash", ["-c", coverageConfig.command], { cwd, timeout: 600_000, maxBuffer: 50 * 1024 * 1024 });
+	} catch {
+		// Non-fatal — a failing run can still write a report
+	}
+
+	// A stale report from an earlier run would describe different code
+	if (previousMtime !== null && fs.existsSync(reportPath) && fs.statSync(reportPath).mtimeMs === previousMtime) {
+		return { findings: [], checkedFiles: [], skipped: `the coverage command didn't update ${coverageConfig.path}` };
+	}
+
+	let coverage: LineCoverage;
+	try {
+		coverage = relativeCoverage(parseCoverageReport(fs.readFileSync(reportPath, "utf-8"), coverageConfig.format), cwd);
+	} catch (err: any) {
+		return { findings: [], checkedFiles: [], skipped: `couldn't read coverage report ${coverageConfig.path}: ${err?.message ?? err}` };
+	}
+
+	const checkedFiles = [...added.keys()].filter((file) => coverage.has(file));
+	return { findings: findUncoveredAddedLines(added, coverage), checkedFiles };
+}
@@ -5,6 +5,7 @@
 
 import { captureBaseline, classifyFailures, type TestBaseline, type ClassifiedResults } from "./test-baseline.js";
 import type { TestResult } from "./test-output-parser.js";
+import type { TestOutputFormat } from "../config.js";
 
 export type { ClassifiedResults };
 
@@ -32,9 +33,10 @@ export async function runCrossTaskValidation(
   testCommand: string,
   baseline: TestBaseline,
   cwd: string,
+  format: TestOutputFormat = "auto",
 ): Promise<ValidationResult> {
   // 1. Run the test suite
-  const currentRun = await captureBaseline(testCommand, cwd);
+  const currentRun = await captureBaseline(testCommand, cwd, format);
 
   // 2. Classify against baseline
   const classified = classifyFailures(currentRun.results, baseline);
@@ -50,7 +52,7 @@ export async function runCrossTaskValidation(
   }
 
   // 4. Re-run to detect flakes
-  const rerun = await captureBaseline(testCommand, cwd);
+  const rerun = await captureBaseline(testCommand, cwd, format);
   const rerunResults = new Map<string, boolean>();
   for (const r of rerun.results) {
     rerunResults.set(r.name, r.passed);
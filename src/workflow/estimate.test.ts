@@ -0,0 +1,74 @@
+import { describe, it, expect } from "vitest";
+import { estimateWorkflow, formatEstimate, parseBudgetInput } from "./estimate.ts";
+import type { HistoryEntry } from "./history.ts";
+
+function makeEntry(overrides: Partial<HistoryEntry> = {}): HistoryEntry {
+	return {
+		description: "Past run",
+		outcome: "complete",
+		phase: "finalize",
+		startedAt: 0,
+		finishedAt: 1_200_000,
+		durationMs: 1_200_000,
+		totalCostUsd: 3,
+		costByPhase: {},
+		costByAgent: {},
+		phaseDurationsMs: {},
+		tasks: [1, 2, 3].map((id) => ({ id, title: `T${id}`, status: "complete", fixAttempts: 0, reviewsPassed: [], reviewsFailed: [] })),
+		...overrides,
+	};
+}
+
+const tasks = [
+	{ description: "a".repeat(1000), status: "pending" },
+	{ description: "", status: "pending" },
+	{ description: "done already", status: "complete" },
+];
+
+describe("estimateWorkflow", () => {
+	it("uses per-task averages from the history ledger", () => {
+		const estimate = estimateWorkflow(tasks, [makeEntry()], 4);
+		expect(estimate.source).toBe("history");
+		expect(estimate.taskCount).toBe(2);
+		expect(estimate.costUsd).toBeCloseTo(2);
+		expect(estimate.durationMs).toBe(800_000);
+		expect(estimate.basedOnRuns).toBe(1);
+	});
+
+	it("falls back to the size and reviewer heuristic without completed history", () => {
+		const aborted = makeEntry({ outcome: "aborted", tasks: [] });
+		const noReviewers = estimateWorkflow(tasks, [aborted], 0);
+		expect(noReviewers.source).toBe("heuristic");
+		// 2 × base $0.20 + 1k chars × $0.10
+		expect(noReviewers.costUsd).toBeCloseTo(0.5);
+		expect(noReviewers.durationMs).toBe(2 * 180_000 + 60_000);
+
+		const withReviewers = estimateWorkflow(tasks, [], 2);
+		expect(withReviewers.costUsd).toBeCloseTo(0.5 + 2 * 2 * 0.05);
+		expect(withReviewers.durationMs).toBe(noReviewers.durationMs + 2 * 2 * 60_000);
+	});
+});
+
+describe("formatEstimate", () => {
+	it("states the figures and where they came from", () => {
+		expect(formatEstimate(estimateWorkflow(tasks, [makeEntry()], 2))).toBe(
+			"Estimate for 2 tasks: ~$2.00, ~13m (based on history of 1 run)",
+		);
+		expect(formatEstimate(estimateWorkflow(tasks, [], 2))).toContain("no history yet");
+	});
+});
+
+describe("parseBudgetInput", () => {
+	it("accepts positive dollar amounts and treats blank as no budget", () => {
+		expect(parseBudgetInput("12.5")).toEqual({ budgetUsd: 12.5, invalid: false });
+		expect(parseBudgetInput(" $8 ")).toEqual({ budgetUsd: 8, invalid: false });
+		expect(parseBudgetInput("")).toEqual({ invalid: false });
+		expect(parseBudgetInput(undefined)).toEqual({ invalid: false });
+	});
+
+	it("flags non-numeric and non-positive input", () => {
+		expect(parseBudgetInput("lots")).toEqual({ invalid: true });
+		expect(parseBudgetInput("0")).toEqual({ invalid: true });
+		expect(parseBudgetInput("-3")).toEqual({ invalid: true });
+	});
+});
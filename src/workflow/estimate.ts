@@ -0,0 +1,85 @@
+/**
+ * Workflow estimate — projected spend and wall-clock time for an approved task list.
+ * Uses per-task averages from the history ledger, or a size/reviewer heuristic when
+ * the ledger has no completed tasks yet.
+ */
+
+import type { HistoryEntry } from "./history.js";
+import { computeHistoryStats, formatDuration } from "./history.js";
+
+// Heuristic per-task figures used until the ledger has data
+const HEURISTIC_BASE_USD = 0.2;
+const HEURISTIC_USD_PER_1K_CHARS = 0.1;
+const HEURISTIC_REVIEWER_USD = 0.05;
+const HEURISTIC_BASE_MS = 3 * 60_000;
+const HEURISTIC_MS_PER_1K_CHARS = 60_000;
+const HEURISTIC_REVIEWER_MS = 60_000;
+
+export type EstimateSource = "history" | "heuristic";
+
+export type WorkflowEstimate = {
+	source: EstimateSource;
+	/** Tasks still to run */
+	taskCount: number;
+	costUsd: number;
+	durationMs: number;
+	/** Number of ledger runs the averages came from (history source only) */
+	basedOnRuns?: number;
+};
+
+type EstimatableTask = { description: string; status?: string };
+
+function remainingTasks(tasks: EstimatableTask[]): EstimatableTask[] {
+	return tasks.filter((t) => t.status !== "complete" && t.status !== "skipped");
+}
+
+/**
+ * Estimate the cost and duration of the remaining tasks.
+ * History wins when any past run completed a task; otherwise each task is costed from
+ * its description length plus a fixed amount per configured reviewer.
+ */
+export function estimateWorkflow(
+	tasks: EstimatableTask[],
+	history: HistoryEntry[],
+	reviewerCount: number,
+): WorkflowEstimate {
+	const pending = remainingTasks(tasks);
+	const tasksCompleted = history.reduce((sum, e) => sum + e.tasks.filter((t) => t.status === "complete").length, 0);
+
+	if (tasksCompleted > 0) {
+		const stats = computeHistoryStats(history);
+		const totalDurationMs = history.reduce((sum, e) => sum + e.durationMs, 0);
+		return {
+			source: "history",
+			taskCount: pending.length,
+			costUsd: stats.avgCostPerTask * pending.length,
+			durationMs: (totalDurationMs / tasksCompleted) * pending.length,
+			basedOnRuns: stats.runs,
+		};
+	}
+
+	let costUsd = 0;
+	let durationMs = 0;
+	for (const t of pending) {
+		const kChars = t.description.length / 1000;
+		costUsd += HEURISTIC_BASE_USD + kChars * HEURISTIC_USD_PER_1K_CHARS + reviewerCount * HEURISTIC_REVIEWER_USD;
+		durationMs += HEURISTIC_BASE_MS + kChars * HEURISTIC_MS_PER_1K_CHARS + reviewerCount * HEURISTIC_REVIEWER_MS;
+	}
+	return { source: "heuristic", taskCount: pending.length, costUsd, durationMs };
+}
+
+export function formatEstimate(estimate: WorkflowEstimate): string {
+	const basis = estimate.source === "history"
+		? `history of ${estimate.basedOnRuns} run${estimate.basedOnRuns === 1 ? "" : "s"}`
+		: "task size and reviewers, no history yet";
+	return `Estimate for ${estimate.taskCount} task${estimate.taskCount === 1 ? "" : "s"}: ~$${estimate.costUsd.toFixed(2)}, ~${formatDuration(estimate.durationMs)} (based on ${basis})`;
+}
+
+/** Parse the budget prompt ("12", "$12.50"). Blank means no budget; non-numeric or non-positive input is invalid. */
+export function parseBudgetInput(input: string | undefined): { budgetUsd?: number; invalid: boolean } {
+	const trimmed = (input ?? "").trim().replace(/^\$/, "");
+	if (trimmed === "") return { invalid: false };
+	const value = Number(trimmed);
+	if (!Number.isFinite(value) || value <= 0) return { invalid: true };
+	return { budgetUsd: value, invalid: false };
+}
@@ -2,6 +2,9 @@ import { describe, it, expect } from "vitest";
 import {
   resolveFailureAction,
   DEFAULT_FAILURE_ACTIONS,
+  FAILURE_TYPES,
+  VALID_FAILURE_ACTIONS,
+  AUTO_RETRY_LIMITS,
   type FailureType,
   type FailureAction,
 } from "./failure-taxonomy.js";
@@ -18,6 +21,7 @@ describe("DEFAULT_FAILURE_ACTIONS", () => {
       "review-max-retries",
       "validation-failure",
       "impl-crash",
+      "vacuous-test",
     ];
     for (const ft of expectedTypes) {
       expect(DEFAULT_FAILURE_ACTIONS[ft]).toBeDefined();
@@ -43,6 +47,10 @@ describe("DEFAULT_FAILURE_ACTIONS", () => {
   it("budget-threshold defaults to checkpoint", () => {
     expect(DEFAULT_FAILURE_ACTIONS["budget-threshold"]).toBe("checkpoint");
   });
+
+  it("vacuous-test defaults to escalate", () => {
+    expect(DEFAULT_FAILURE_ACTIONS["vacuous-test"]).toBe("escalate");
+  });
 });
 
 describe("resolveFailureAction", () => {
@@ -75,3 +83,21 @@ describe("resolveFailureAction", () => {
     expect(resolveFailureAction("tool-timeout", {})).toBe("retry-then-escalate");
   });
 });
+
+describe("FAILURE_TYPES / VALID_FAILURE_ACTIONS", () => {
+  it("lists every failure type with a default", () => {
+    expect([...FAILURE_TYPES].sort()).toEqual(Object.keys(DEFAULT_FAILURE_ACTIONS).sort());
+  });
+
+  it("includes every default action", () => {
+    for (const action of Object.values(DEFAULT_FAILURE_ACTIONS)) {
+      expect(VALID_FAILURE_ACTIONS).toContain(action);
+    }
+  });
+
+  it("limits automatic retries for the retrying actions only", () => {
+    expect(AUTO_RETRY_LIMITS["auto-retry"]).toBe(2);
+    expect(AUTO_RETRY_LIMITS["retry-then-escalate"]).toBe(1);
+    expect(AUTO_RETRY_LIMITS["escalate"]).toBeUndefined();
+  });
+});
@@ -14,7 +14,8 @@ export type FailureType =
   | "budget-threshold"
   | "review-max-retries"
   | "validation-failure"
-  | "impl-crash";
+  | "impl-crash"
+  | "vacuous-test";
 
 export type FailureAction =
   | "auto-retry"
@@ -25,6 +26,16 @@ export type FailureAction =
   | "checkpoint"
   | "escalate";
 
+export const VALID_FAILURE_ACTIONS: readonly FailureAction[] = [
+  "auto-retry",
+  "warn-continue",
+  "ignore",
+  "stop-show-diff",
+  "retry-then-escalate",
+  "checkpoint",
+  "escalate",
+] as const;
+
 export const DEFAULT_FAILURE_ACTIONS: Record<FailureType, FailureAction> = {
   "parse-error": "auto-retry",
   "test-regression": "stop-show-diff",
@@ -35,6 +46,15 @@ export const DEFAULT_FAILURE_ACTIONS: Record<FailureType, FailureAction> = {
   "review-max-retries": "escalate",
   "validation-failure": "retry-then-escalate",
   "impl-crash": "retry-then-escalate",
+  "vacuous-test": "escalate",
+};
+
+export const FAILURE_TYPES = Object.keys(DEFAULT_FAILURE_ACTIONS) as FailureType[];
+
+/** Automatic retries allowed per task and failure type: `auto-retry` tries twice, `retry-then-escalate` once. */
+export const AUTO_RETRY_LIMITS: Partial<Record<FailureAction, number>> = {
+  "auto-retry": 2,
+  "retry-then-escalate": 1,
 };
 
 /** Given a failure type, return the action to take. Supports per-type overrides. */
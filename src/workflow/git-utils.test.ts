@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { getTrackedFiles, computeChangedFiles, getCurrentSha, resetToSha, squashCommitsSince, squashTaskCommits } from "./git-utils.ts";
+import { getTrackedFiles, getUntrackedFiles, readFileAtSha, getAddedLines, computeChangedFiles, getCurrentSha, resetToSha, squashCommitsSince, squashTaskCommits, createWorktree, removeWorktree, cherryPickCommit } from "./git-utils.ts";
 
 import * as path from "node:path";
 import * as os from "node:os";
@@ -80,6 +80,36 @@ describe("computeChangedFiles", () => {
 	});
 });
 
+describe("getUntrackedFiles / readFileAtSha", () => {
+	it("lists untracked files and reads files at a commit", async () => {
+		const dir = await makeTempRepo();
+		const sha = await getCurrentSha(dir);
+		fs.writeFileSync(path.join(dir, "file1.txt"), "changed");
+		fs.writeFileSync(path.join(dir, "new.txt"), "new");
+
+		expect(await getUntrackedFiles(dir)).toEqual(["new.txt"]);
+		expect((await readFileAtSha(dir, sha, "file1.txt"))?.toString()).toBe("hello");
+		expect(await readFileAtSha(dir, sha, "new.txt")).toBeNull();
+	});
+});
+
+describe("getAddedLines", () => {
+	it("returns added line numbers per file against a base commit, including uncommitted edits", async () => {
+		const dir = await makeTempRepo();
+		const sha = await getCurrentSha(dir);
+		fs.writeFileSync(path.join(dir, "file1.txt"), "hello\nsecond\nthird\n");
+		fs.writeFileSync(path.join(dir, "new.txt"), "new");
+
+		const added = await getAddedLines(dir, sha);
+		expect(added.get("file1.txt")).toEqual([1, 2, 3]);
+		expect(added.has("new.txt")).toBe(false);
+	});
+
+	it("returns an empty map for a non-repo directory", async () => {
+		expect((await getAddedLines(makeTempDir(), "HEAD")).size).toBe(0);
+	});
+});
+
 describe("getCurrentSha", () => {
 	it("returns a 40-char hex SHA in a git repo", async () => {
 		const dir = await makeTempRepo();
@@ -251,3 +281,72 @@ describe("squashTaskCommits", () => {
 		expect(result.error).toBeDefined();
 	});
 });
+
+describe("createWorktree / removeWorktree", () => {
+	it("creates a detached worktree at the given SHA and removes it", async () => {
+		const dir = await makeTempRepo();
+		const sha = await getCurrentSha(dir);
+		const wt = path.join(makeTempDir(), "wt");
+
+		expect(await createWorktree(dir, wt, sha)).toBe(true);
+		expect(fs.readFileSync(path.join(wt, "file1.txt"), "utf-8")).toBe("hello");
+		expect(await getCurrentSha(wt)).toBe(sha);
+
+		fs.writeFileSync(path.join(wt, "scratch.txt"), "uncommitted");
+		expect(await removeWorktree(dir, wt)).toBe(true);
+		expect(fs.existsSync(wt)).toBe(false);
+	});
+
+	it("returns false for empty SHA or non-repo directory", async () => {
+		const dir = await makeTempRepo();
+		expect(await createWorktree(dir, path.join(makeTempDir(), "wt"), "")).toBe(false);
+		expect(await createWorktree(makeTempDir(), path.join(makeTempDir(), "wt"), "abc123")).toBe(false);
+		expect(await removeWorktree(makeTempDir(), "/nonexistent-wt-abc123")).toBe(false);
+	});
+});
+
+describe("cherryPickCommit", () => {
+	it("applies a commit made in a worktree onto HEAD", async () => {
+		const dir = await makeTempRepo();
+		const baseSha = await getCurrentSha(dir);
+		const wt = path.join(makeTempDir(), "wt");
+		await createWorktree(dir, wt, baseSha);
+
+		fs.writeFileSync(path.join(wt, "feature.ts"), "feature");
+		const squash = await squashTaskCommits(wt, baseSha, 1, "Feature");
+		await removeWorktree(dir, wt);
+
+		const result = await cherryPickCommit(dir, squash.sha);
+		expect(result.success).toBe(true);
+		expect(result.sha).toMatch(/^[0-9a-f]{40}$/);
+		expect(result.sha).not.toBe(baseSha);
+		expect(fs.readFileSync(path.join(dir, "feature.ts"), "utf-8")).toBe("feature");
+	});
+
+	it("aborts on conflict, leaves HEAD untouched, and reports conflicting files", async () => {
+		const dir = await makeTempRepo();
+		const baseSha = await getCurrentSha(dir);
+		const wt = path.join(makeTempDir(), "wt");
+		await createWorktree(dir, wt, baseSha);
+
+		fs.writeFileSync(path.join(wt, "file1.txt"), "from worktree");
+		const squash = await squashTaskCommits(wt, baseSha, 1, "Worktree edit");
+		await removeWorktree(dir, wt);
+
+		fs.writeFileSync(path.join(dir, "file1.txt"), "from main");
+		await run("git", ["commit", "-am", "main edit"], { cwd: dir });
+		const headBefore = await getCurrentSha(dir);
+
+		const result = await cherryPickCommit(dir, squash.sha);
+		expect(result.success).toBe(false);
+		expect(result.conflictFiles).toEqual(["file1.txt"]);
+		expect(await getCurrentSha(dir)).toBe(headBefore);
+		expect(fs.readFileSync(path.join(dir, "file1.txt"), "utf-8")).toBe("from main");
+	});
+
+	it("returns failure for an unknown SHA", async () => {
+		const dir = await makeTempRepo();
+		const result = await cherryPickCommit(dir, "0000000000000000000000000000000000000000");
+		expect(result.success).toBe(false);
+	});
+});
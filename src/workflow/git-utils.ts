@@ -45,6 +45,72 @@ export async function computeChangedFiles(cwd: string, baseSha?: string): Promis
 	}
 }
 
+/**
+ * List untracked files that aren't ignored (`git ls-files --others --exclude-standard`).
+ * Returns empty array on error.
+ */
+export async function getUntrackedFiles(cwd: string): Promise<string[]> {
+	try {
+		const { stdout } = await execFile("git", ["ls-files", "--others", "--exclude-standard"], { cwd, timeout: 5000 });
+		return splitLines(stdout);
+	} catch {
+		return [];
+	}
+}
+
+/**
+ * Contents of `file` at commit `sha` (`git show sha:file`).
+ * Returns null if the file doesn't exist there or git fails.
+ */
+export async function readFileAtSha(cwd: string, sha: string, file: string): Promise<Buffer | null> {
+	try {
+		const { stdout } = await execFile("git", ["show", `${sha}:${file}`], {
+			cwd,
+			timeout: 5000,
+			encoding: "buffer",
+			maxBuffer: 50 * 1024 * 1024,
+		});
+		return stdout;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Lines added since `baseSha`, by file — `git diff -U0 baseSha` against the
+ * working tree, so uncommitted changes count. Untracked files aren't included.
+ * Returns an empty map on error.
+ */
+export async function getAddedLines(cwd: string, baseSha: string): Promise<Map<string, number[]>> {
+	const added = new Map<string, number[]>();
+	try {
+		const { stdout } = await execFile("git", ["diff", "-U0", "--no-color", "--no-ext-diff", baseSha], {
+			cwd,
+			timeout: 10000,
+			maxBuffer: 50 * 1024 * 1024,
+		});
+		let current: number[] | null = null;
+		for (const line of stdout.split("\n")) {
+			if (line.startsWith("+++ ")) {
+				const target = line.slice(4);
+				current = target === "/dev/null" ? null : [];
+				if (current) added.set(target.replace(/^b\//, ""), current);
+				continue;
+			}
+			const hunk = current && line.match(/^@@ -\S+ \+(\d+)(?:,(\d+))? @@/);
+			if (hunk && current) {
+				const start = Number(hunk[1]);
+				const count = hunk[2] === undefined ? 1 : Number(hunk[2]);
+				for (let n = start; n < start + count; n++) current.push(n);
+			}
+		}
+		for (const [file, lines] of added) if (lines.length === 0) added.delete(file);
+		return added;
+	} catch {
+		return new Map();
+	}
+}
+
 /**
  * Get current HEAD SHA. Returns trimmed 40-char hex string.
  * Returns empty string on error.
@@ -133,3 +199,59 @@ export async function squashCommitsSince(cwd: string, baseSha: string, message:
 		return false;
 	}
 }
+
+/**
+ * Create a detached worktree at `dir` checked out at `sha`.
+ * Returns true on success, false on any failure.
+ */
+export async function createWorktree(cwd: string, dir: string, sha: string): Promise<boolean> {
+	if (!sha) return false;
+	try {
+		await execFile("git", ["worktree", "add", "--detach", dir, sha], { cwd, timeout: 30000 });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Remove a worktree created by createWorktree, discarding any uncommitted changes.
+ * Returns true on success, false on any failure.
+ */
+export async function removeWorktree(cwd: string, dir: string): Promise<boolean> {
+	try {
+		await execFile("git", ["worktree", "remove", "--force", dir], { cwd, timeout: 30000 });
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Apply a single commit (e.g. a task squashed in a worktree) onto HEAD.
+ * On conflict the cherry-pick is aborted, leaving HEAD untouched, and the
+ * conflicting paths are reported.
+ */
+export async function cherryPickCommit(
+	cwd: string,
+	sha: string,
+): Promise<{ success: boolean; sha: string; conflictFiles: string[]; error?: string }> {
+	try {
+		await execFile("git", ["cherry-pick", sha], { cwd, timeout: 30000 });
+		return { success: true, sha: await getCurrentSha(cwd), conflictFiles: [] };
+	} catch (err: any) {
+		let conflictFiles: string[] = [];
+		try {
+			const { stdout } = await execFile("git", ["diff", "--name-only", "--diff-filter=U"], { cwd, timeout: 5000 });
+			conflictFiles = splitLines(stdout);
+		} catch {
+			// Best effort
+		}
+		try {
+			await execFile("git", ["cherry-pick", "--abort"], { cwd, timeout: 5000 });
+		} catch {
+			// Nothing to abort (e.g. unknown SHA)
+		}
+		return { success: false, sha: "", conflictFiles, error: err.message };
+	}
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { DEFAULT_POLICY, answerInput, answerSelect, createPolicyUi, loadWorkflowPolicy, type WorkflowPolicy } from "./headless.ts";
+
+describe("loadWorkflowPolicy", () => {
+	let dir: string;
+
+	beforeEach(() => {
+		dir = fs.mkdtempSync(path.join(os.tmpdir(), "headless-policy-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(dir, { recursive: true, force: true });
+		vi.restoreAllMocks();
+	});
+
+	it("uses the defaults without a policy file", () => {
+		expect(loadWorkflowPolicy(dir)).toEqual(DEFAULT_POLICY);
+	});
+
+	it("applies valid settings and drops invalid ones with a warning", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		fs.writeFileSync(path.join(dir, ".superteam-policy.json"), JSON.stringify({
+			dirtyTree: "stash",
+			createBranch: false,
+			executionMode: "batch",
+			batchSize: 5,
+			budgetUsd: 12.5,
+			reviewMode: "thorough",
+			escalation: "retry",
+		}));
+
+		const policy = loadWorkflowPolicy(dir);
+
+		expect(policy).toMatchObject({ dirtyTree: "stash", createBranch: false, executionMode: "batch", batchSize: 5, budgetUsd: 12.5 });
+		expect(policy.reviewMode).toBe("iterative");
+		expect(policy.escalation).toBe("skip");
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('Invalid reviewMode "thorough"'));
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining('Invalid escalation "retry"'));
+	});
+
+	it("falls back to the defaults when the file isn't valid JSON", () => {
+		const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+		fs.writeFileSync(path.join(dir, ".superteam-policy.json"), "{ dirtyTree: stash");
+
+		expect(loadWorkflowPolicy(dir)).toEqual(DEFAULT_POLICY);
+		expect(warn).toHaveBeenCalledWith(expect.stringContaining("Couldn't read .superteam-policy.json"));
+	});
+});
+
+describe("answerSelect", () => {
+	const policy = (overrides: Partial<WorkflowPolicy> = {}): WorkflowPolicy => ({ ...DEFAULT_POLICY, ...overrides });
+
+	it("answers triage from the policy, overriding the level when asked to", () => {
+		const options = ["Agree — exploration", "Discuss", "Override — straightforward", "Override — complex", "Skip to planning"];
+
+		expect(answerSelect(policy(), "Brainstormer assessment", options).choice).toBe("Agree — exploration");
+		expect(answerSelect(policy({ triage: "complex" }), "Brainstormer assessment", options).choice).toBe("Override — complex");
+		expect(answerSelect(policy({ triage: "exploration" }), "Brainstormer assessment", options).choice).toBe("Agree — exploration");
+		expect(answerSelect(policy({ triage: "skip-to-planning" }), "Brainstormer assessment", options).choice).toBe("Skip to planning");
+	});
+
+	it("picks the recommended approach, or the first one", () => {
+		const options = ["Middleware", "Decorators ★", "Discuss", "Go back to questions"];
+
+		expect(answerSelect(policy(), "Choose an approach", options)).toEqual({ choice: "Decorators ★", reason: "approach: recommended" });
+		expect(answerSelect(policy({ approach: "first" }), "Choose an approach", options).choice).toBe("Middleware");
+	});
+
+	it("answers configure, approval, escalation and checkpoint prompts", () => {
+		const p = policy({ executionMode: "checkpoint", reviewMode: "single-pass", escalation: "abort", checkpoint: "abort" });
+
+		expect(answerSelect(p, "Execution Mode", ["Auto", "Checkpoint", "Batch"]).choice).toBe("Checkpoint");
+		expect(answerSelect(p, "Review Mode", ["Iterative", "Single-pass"]).choice).toBe("Single-pass");
+		expect(answerSelect(p, "Plan Approval", ["Approve", "Revise", "Abort"]).choice).toBe("Approve");
+		expect(answerSelect(p, "Data model", ["Approve", "Revise", "Discuss", "Go back to approaches"]).choice).toBe("Approve");
+		expect(answerSelect(p, 'Task "Add login" needs attention: review failed', ["Retry", "Rollback", "Skip", "Abort"]).choice).toBe("Abort");
+		expect(answerSelect(p, "Checkpoint: 2/5 tasks done", ["Continue", "Adjust plan", "Abort"]).choice).toBe("Abort");
+		expect(answerSelect(policy(), 'Task "Add login" needs attention: review failed', ["Retry", "Rollback", "Skip", "Abort"]).choice).toBe("Skip");
+	});
+
+	it("takes the first option of an unrecognized prompt", () => {
+		expect(answerSelect(policy(), "Which store?", ["Postgres", "SQLite"])).toEqual({
+			choice: "Postgres",
+			reason: "no policy for this prompt; first option",
+		});
+	});
+});
+
+describe("answerInput", () => {
+	it("answers batch size and budget from the policy", () => {
+		expect(answerInput({ ...DEFAULT_POLICY, batchSize: 4 }, "Batch Size").choice).toBe("4");
+		expect(answerInput({ ...DEFAULT_POLICY, budgetUsd: 20 }, "Workflow budget in USD (blank for none)").choice).toBe("20");
+		expect(answerInput(DEFAULT_POLICY, "Workflow budget in USD (estimate ~$3.10; blank for none)").choice).toBe("");
+	});
+});
+
+describe("createPolicyUi", () => {
+	it("records every answer and passes notifications through to the real UI", async () => {
+		const decisions: any[] = [];
+		const baseUi = { notify: vi.fn(), setStatus: vi.fn() };
+		const ui = createPolicyUi(DEFAULT_POLICY, (d) => decisions.push(d), baseUi);
+
+		expect(await ui.select("Checkpoint: 2/5 tasks done\nTrigger:\n  • Scheduled", ["Continue", "Adjust plan", "Abort"])).toBe("Continue");
+		expect(await ui.input("Workflow budget in USD (blank for none)", "")).toBe("");
+		expect(await ui.confirm("Apply?")).toBe(false);
+		ui.setStatus("workflow", "executing");
+
+		expect(decisions).toEqual([
+			{ prompt: "Checkpoint: 2/5 tasks done", choice: "Continue", reason: "checkpoint: continue" },
+			{ prompt: "Workflow budget in USD (blank for none)", choice: "(blank)", reason: "no budgetUsd in policy" },
+			{ prompt: "Apply?", choice: "No", reason: "no policy for this prompt; declined" },
+		]);
+		expect(baseUi.notify).toHaveBeenCalledWith("Headless: Checkpoint: 2/5 tasks done → Continue (checkpoint: continue)", "info");
+		expect(baseUi.setStatus).toHaveBeenCalledWith("workflow", "executing");
+	});
+});
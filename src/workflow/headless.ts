@@ -0,0 +1,245 @@
+/**
+ * Headless workflow mode — answers every workflow prompt from a policy file.
+ *
+ * File-based: reads .superteam-policy.json in the project directory. The policy
+ * UI stands in for ctx.ui, so phases run unchanged; each answer is logged as
+ * an auto-decision on the workflow state (and from there in the progress file).
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { AutoDecision } from "./orchestrator-state.js";
+
+export const POLICY_FILE = ".superteam-policy.json";
+
+export type WorkflowPolicy = {
+	/** Uncommitted changes at workflow start */
+	dirtyTree: "stash" | "continue" | "abort";
+	/** On the main branch: create a workflow branch, or continue on main */
+	createBranch: boolean;
+	/** Brainstormer's complexity assessment: agree, skip to planning, or override the level */
+	triage: "agree" | "skip-to-planning" | "straightforward" | "exploration" | "complex";
+	/** Clarifying questions: answered by the brainstormer, or with each question's first option */
+	questions: "brainstormer" | "first-option";
+	approach: "recommended" | "first";
+	executionMode: "auto" | "checkpoint" | "batch";
+	batchSize: number;
+	reviewMode: "iterative" | "single-pass";
+	budgetUsd?: number;
+	/** Task escalations (review, fix or failure limits) */
+	escalation: "skip" | "abort";
+	/** Checkpoints (scheduled or budget) */
+	checkpoint: "continue" | "abort";
+};
+
+export const DEFAULT_POLICY: WorkflowPolicy = {
+	dirtyTree: "abort",
+	createBranch: true,
+	triage: "agree",
+	questions: "brainstormer",
+	approach: "recommended",
+	executionMode: "auto",
+	batchSize: 3,
+	reviewMode: "iterative",
+	escalation: "skip",
+	checkpoint: "continue",
+};
+
+const POLICY_CHOICES: Record<string, readonly string[]> = {
+	dirtyTree: ["stash", "continue", "abort"],
+	triage: ["agree", "skip-to-planning", "straightforward", "exploration", "complex"],
+	questions: ["brainstormer", "first-option"],
+	approach: ["recommended", "first"],
+	executionMode: ["auto", "checkpoint", "batch"],
+	reviewMode: ["iterative", "single-pass"],
+	escalation: ["skip", "abort"],
+	checkpoint: ["continue", "abort"],
+};
+
+export function hasWorkflowPolicy(cwd: string): boolean {
+	return fs.existsSync(path.join(cwd, POLICY_FILE));
+}
+
+/**
+ * Load the policy file over the defaults. Invalid values are dropped with a
+ * warning; a missing or unreadable file yields the defaults.
+ */
+export function loadWorkflowPolicy(cwd: string): WorkflowPolicy {
+	const policy: WorkflowPolicy = { ...DEFAULT_POLICY };
+	const p = path.join(cwd, POLICY_FILE);
+	if (!fs.existsSync(p)) return policy;
+
+	let parsed: Record<string, unknown>;
+	try {
+		parsed = JSON.parse(fs.readFileSync(p, "utf-8"));
+	} catch (err: any) {
+		console.warn(`[superteam] Couldn't read ${POLICY_FILE}: ${err.message}. Using the default policy.`);
+		return policy;
+	}
+	if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+		console.warn(`[superteam] Invalid ${POLICY_FILE}: expected a JSON object. Using the default policy.`);
+		return policy;
+	}
+
+	for (const [key, value] of Object.entries(parsed)) {
+		const choices = POLICY_CHOICES[key];
+		if (choices) {
+			if (choices.includes(value as string)) {
+				(policy as any)[key] = value;
+			} else {
+				console.warn(
+					`[superteam] Invalid ${key} "${value}" in ${POLICY_FILE}. ` +
+					`Valid values: ${choices.join(", ")}. Using "${(DEFAULT_POLICY as any)[key]}".`
+				);
+			}
+		} else if (key === "createBranch") {
+			if (typeof value === "boolean") policy.createBranch = value;
+			else console.warn(`[superteam] Invalid createBranch in ${POLICY_FILE}. Expected true or false. Using ${DEFAULT_POLICY.createBranch}.`);
+		} else if (key === "batchSize") {
+			if (Number.isInteger(value) && (value as number) >= 1) policy.batchSize = value as number;
+			else console.warn(`[superteam] Invalid batchSize in ${POLICY_FILE}. Expected a positive integer. Using ${DEFAULT_POLICY.batchSize}.`);
+		} else if (key === "budgetUsd") {
+			if (typeof value === "number" && value > 0) policy.budgetUsd = value;
+			else console.warn(`[superteam] Invalid budgetUsd in ${POLICY_FILE}. Expected a positive number. Ignoring budget.`);
+		} else {
+			console.warn(`[superteam] Unknown setting "${key}" in ${POLICY_FILE}. Ignoring it.`);
+		}
+	}
+	return policy;
+}
+
+export type PolicyAnswer = { choice: string; reason: string };
+
+const DIRTY_TREE_OPTIONS: Record<WorkflowPolicy["dirtyTree"], string> = {
+	stash: "Stash changes",
+	continue: "Continue anyway",
+	abort: "Abort",
+};
+
+const EXECUTION_MODE_OPTIONS: Record<WorkflowPolicy["executionMode"], string> = {
+	auto: "Auto",
+	checkpoint: "Checkpoint",
+	batch: "Batch",
+};
+
+const REVIEW_MODE_OPTIONS: Record<WorkflowPolicy["reviewMode"], string> = {
+	"iterative": "Iterative",
+	"single-pass": "Single-pass",
+};
+
+/**
+ * Answer a workflow select prompt from the policy. Prompts are recognized by
+ * their title or option set; anything unrecognized gets its first option.
+ * Pure function.
+ */
+export function answerSelect(policy: WorkflowPolicy, title: string, options: string[]): PolicyAnswer {
+	const has = (option: string) => options.includes(option);
+
+	if (has("Stash changes")) {
+		return { choice: DIRTY_TREE_OPTIONS[policy.dirtyTree], reason: `dirtyTree: ${policy.dirtyTree}` };
+	}
+	if (has("Create workflow branch")) {
+		return {
+			choice: policy.createBranch ? "Create workflow branch" : "Continue on main",
+			reason: `createBranch: ${policy.createBranch}`,
+		};
+	}
+	if (title === "Brainstormer assessment") {
+		const agree = options.find((o) => o.startsWith("Agree")) ?? options[0];
+		if (policy.triage === "agree") return { choice: agree, reason: "triage: agree" };
+		if (policy.triage === "skip-to-planning") return { choice: "Skip to planning", reason: "triage: skip-to-planning" };
+		// Overriding to the level the brainstormer already chose is agreeing
+		const override = options.find((o) => o === `Override — ${policy.triage}`);
+		return { choice: override ?? agree, reason: `triage: ${policy.triage}` };
+	}
+	if (title === "Questions answered") {
+		return { choice: "Proceed", reason: "no discussion in headless mode" };
+	}
+	if (title === "Choose an approach") {
+		const recommended = policy.approach === "recommended" ? options.find((o) => o.endsWith(" ★")) : undefined;
+		return { choice: recommended ?? options[0], reason: `approach: ${policy.approach}` };
+	}
+	if (title === "Execution Mode") {
+		return { choice: EXECUTION_MODE_OPTIONS[policy.executionMode], reason: `executionMode: ${policy.executionMode}` };
+	}
+	if (title === "Review Mode") {
+		return { choice: REVIEW_MODE_OPTIONS[policy.reviewMode], reason: `reviewMode: ${policy.reviewMode}` };
+	}
+	if (has("Approve as-is")) {
+		return { choice: "Approve as-is", reason: "plan review isn't converging; no guidance in headless mode" };
+	}
+	if (has("Approve")) {
+		// Plan approval and design sections
+		return { choice: "Approve", reason: "reviewed output is approved in headless mode" };
+	}
+	if (has("Rollback") && has("Skip")) {
+		return { choice: policy.escalation === "abort" ? "Abort" : "Skip", reason: `escalation: ${policy.escalation}` };
+	}
+	if (has("Adjust plan")) {
+		return { choice: policy.checkpoint === "abort" ? "Abort" : "Continue", reason: `checkpoint: ${policy.checkpoint}` };
+	}
+	if (has("Continue to next batch")) {
+		return { choice: "Continue to next batch", reason: "batches run to completion in headless mode" };
+	}
+	if (has("Start next queued workflow")) {
+		return { choice: "Stop", reason: "queued workflows start unattended only with autoStartQueue" };
+	}
+	if (has("Retry") && has("Abort")) {
+		return { choice: "Abort", reason: "retrying unattended would repeat the failure" };
+	}
+	return { choice: options[0], reason: "no policy for this prompt; first option" };
+}
+
+/** Answer a workflow input prompt from the policy. Pure function. */
+export function answerInput(policy: WorkflowPolicy, title: string): PolicyAnswer {
+	if (title === "Batch Size") {
+		return { choice: String(policy.batchSize), reason: `batchSize: ${policy.batchSize}` };
+	}
+	if (title.startsWith("Workflow budget in USD")) {
+		return policy.budgetUsd !== undefined
+			? { choice: String(policy.budgetUsd), reason: `budgetUsd: ${policy.budgetUsd}` }
+			: { choice: "", reason: "no budgetUsd in policy" };
+	}
+	return { choice: "", reason: "no policy for this prompt; left blank" };
+}
+
+/** First line of a prompt, short enough for a progress file bullet. */
+function promptLabel(title: string): string {
+	const line = title.split("\n")[0].trim();
+	return line.length > 120 ? `${line.slice(0, 117)}...` : line;
+}
+
+/**
+ * A ctx.ui stand-in that answers select/input/confirm/editor from the policy
+ * and passes notify/setStatus/setWidget through to the real UI, if any.
+ */
+export function createPolicyUi(
+	policy: WorkflowPolicy,
+	record: (decision: AutoDecision) => void,
+	baseUi?: any,
+): any {
+	const decide = <T>(title: string, answer: PolicyAnswer, value: T): T => {
+		const decision = { prompt: promptLabel(title), choice: answer.choice || "(blank)", reason: answer.reason };
+		record(decision);
+		baseUi?.notify?.(`Headless: ${decision.prompt} → ${decision.choice} (${decision.reason})`, "info");
+		return value;
+	};
+
+	return {
+		select: async (title: string, options: string[]) => {
+			const answer = answerSelect(policy, title, options);
+			return decide(title, answer, answer.choice);
+		},
+		input: async (title: string) => {
+			const answer = answerInput(policy, title);
+			return decide(title, answer, answer.choice);
+		},
+		confirm: async (title: string) =>
+			decide(title, { choice: "No", reason: "no policy for this prompt; declined" }, false),
+		editor: async (title: string) =>
+			decide(title, { choice: "(cancelled)", reason: "no editing in headless mode" }, undefined),
+		notify: (message: string, type?: string) => baseUi?.notify?.(message, type),
+		setStatus: (key: string, text: string | undefined) => baseUi?.setStatus?.(key, text),
+		setWidget: (key: string, content: unknown) => baseUi?.setWidget?.(key, content),
+	};
+}
@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as path from "node:path";
+import * as os from "node:os";
+import { createInitialState, recordCost, type TaskExecState } from "./orchestrator-state.ts";
+import {
+	appendHistory,
+	buildHistoryEntry,
+	computeHistoryStats,
+	formatHistory,
+	readHistory,
+	recordAbortedWorkflow,
+	type HistoryEntry,
+} from "./history.ts";
+
+function makeTask(overrides: Partial<TaskExecState> = {}): TaskExecState {
+	return {
+		id: 1, title: "Task 1", description: "", files: [],
+		status: "complete", reviewsPassed: ["spec", "quality"], reviewsFailed: [], fixAttempts: 0,
+		...overrides,
+	};
+}
+
+function makeEntry(overrides: Partial<HistoryEntry> = {}): HistoryEntry {
+	return {
+		description: "Add feature",
+		outcome: "complete",
+		phase: "finalize",
+		startedAt: 0,
+		finishedAt: 600_000,
+		durationMs: 600_000,
+		totalCostUsd: 2,
+		costByPhase: {},
+		costByAgent: {},
+		phaseDurationsMs: {},
+		tasks: [makeTask(), makeTask({ id: 2 })],
+		...overrides,
+	};
+}
+
+describe("buildHistoryEntry", () => {
+	it("captures tasks, cost breakdowns and timings from the state", () => {
+		const state = createInitialState("Add rate limiting");
+		state.startedAt = 1_000;
+		state.phase = "execute";
+		recordCost(state, "implementer", 0.5);
+		recordCost(state, "spec-reviewer", 0.25);
+		state.phaseDurationsMs = { brainstorm: 10, execute: 20 };
+		state.tasks = [makeTask({ fixAttempts: 2, reviewsFailed: ["quality"] })];
+
+		const entry = buildHistoryEntry(state, "aborted", 61_000);
+
+		expect(entry.description).toBe("Add rate limiting");
+		expect(entry.outcome).toBe("aborted");
+		expect(entry.phase).toBe("execute");
+		expect(entry.durationMs).toBe(60_000);
+		expect(entry.totalCostUsd).toBe(0.75);
+		expect(entry.costByPhase).toEqual({ execute: 0.75 });
+		expect(entry.costByAgent).toEqual({ implementer: 0.5, "spec-reviewer": 0.25 });
+		expect(entry.phaseDurationsMs).toEqual({ brainstorm: 10, execute: 20 });
+		expect(entry.tasks).toEqual([
+			{ id: 1, title: "Task 1", status: "complete", fixAttempts: 2, reviewsPassed: ["spec", "quality"], reviewsFailed: ["quality"] },
+		]);
+	});
+});
+
+describe("history ledger file", () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "wfhistory-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("appends one JSON line per run and reads them back in order", () => {
+		appendHistory(tmpDir, makeEntry({ description: "first" }));
+		appendHistory(tmpDir, makeEntry({ description: "second" }));
+
+		const raw = fs.readFileSync(path.join(tmpDir, ".superteam-history.jsonl"), "utf-8");
+		expect(raw.trim().split("\n")).toHaveLength(2);
+		expect(readHistory(tmpDir).map((e) => e.description)).toEqual(["first", "second"]);
+	});
+
+	it("returns an empty list without a ledger and skips malformed lines", () => {
+		expect(readHistory(tmpDir)).toEqual([]);
+		fs.writeFileSync(path.join(tmpDir, ".superteam-history.jsonl"), `${JSON.stringify(makeEntry())}\n{"trunc\n`);
+		expect(readHistory(tmpDir)).toHaveLength(1);
+	});
+});
+
+describe("computeHistoryStats", () => {
+	it("averages cost per run and per completed task", () => {
+		const stats = computeHistoryStats([
+			makeEntry({ totalCostUsd: 3 }),
+			makeEntry({ totalCostUsd: 1, outcome: "aborted", tasks: [makeTask(), makeTask({ id: 2, status: "pending" })] }),
+		]);
+		expect(stats.runs).toBe(2);
+		expect(stats.completed).toBe(1);
+		expect(stats.aborted).toBe(1);
+		expect(stats.avgCostPerRun).toBe(2);
+		expect(stats.avgCostPerTask).toBeCloseTo(4 / 3);
+	});
+
+	it("finds the reviewer that failed the most tasks", () => {
+		const stats = computeHistoryStats([
+			makeEntry({ tasks: [makeTask({ reviewsFailed: ["quality"] }), makeTask({ reviewsFailed: ["spec", "quality"] })] }),
+			makeEntry({ tasks: [makeTask({ reviewsFailed: ["security-reviewer"] })] }),
+		]);
+		expect(stats.mostFailedReviewer).toEqual({ name: "quality", failures: 2 });
+	});
+
+	it("handles an empty ledger", () => {
+		const stats = computeHistoryStats([]);
+		expect(stats.avgCostPerTask).toBe(0);
+		expect(stats.mostFailedReviewer).toBeUndefined();
+	});
+});
+
+describe("formatHistory", () => {
+	it("lists newest runs first with aggregate stats", () => {
+		const text = formatHistory([
+			makeEntry({ description: "older" }),
+			makeEntry({ description: "newer", outcome: "aborted", tasks: [makeTask({ reviewsFailed: ["spec"] })] }),
+		]);
+		const lines = text.split("\n");
+		expect(lines[0]).toBe("Workflow history (2 runs):");
+		expect(lines[1]).toContain("🛑");
+		expect(lines[1]).toContain("newer");
+		expect(lines[2]).toContain("older");
+		expect(text).toContain("Avg cost/task: $1.33");
+		expect(text).toContain("Most-failed reviewer: spec (1 failed review)");
+	});
+
+	it("reports an empty ledger", () => {
+		expect(formatHistory([])).toBe("No workflow history yet.");
+	});
+});
+
+describe("recordAbortedWorkflow", () => {
+	let tmpDir: string;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "wfhistory-"));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+	});
+
+	it("records an in-progress workflow as aborted", () => {
+		const state = createInitialState("half done");
+		state.phase = "execute";
+		recordAbortedWorkflow(tmpDir, state);
+		expect(readHistory(tmpDir).map((e) => [e.description, e.outcome])).toEqual([["half done", "aborted"]]);
+	});
+
+	it("skips workflows that already finished cleanly", () => {
+		const state = createInitialState("finished");
+		state.phase = "done";
+		recordAbortedWorkflow(tmpDir, state);
+		expect(readHistory(tmpDir)).toEqual([]);
+	});
+});
@@ -0,0 +1,169 @@
+/**
+ * Workflow history — append-only ledger of finished and aborted workflows.
+ * File-based: one JSON object per line in .superteam-history.jsonl in the project directory.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { OrchestratorState } from "./orchestrator-state.js";
+
+const HISTORY_FILE = ".superteam-history.jsonl";
+
+export type HistoryOutcome = "complete" | "aborted";
+
+export type HistoryTask = {
+	id: number;
+	title: string;
+	status: string;
+	fixAttempts: number;
+	reviewsPassed: string[];
+	reviewsFailed: string[];
+};
+
+export type HistoryEntry = {
+	description: string;
+	outcome: HistoryOutcome;
+	/** Phase the workflow was in when it ended */
+	phase: string;
+	error?: string;
+	startedAt: number;
+	finishedAt: number;
+	durationMs: number;
+	totalCostUsd: number;
+	costByPhase: Record<string, number>;
+	costByAgent: Record<string, number>;
+	phaseDurationsMs: Record<string, number>;
+	tasks: HistoryTask[];
+};
+
+export type HistoryStats = {
+	runs: number;
+	completed: number;
+	aborted: number;
+	totalCostUsd: number;
+	avgCostPerRun: number;
+	/** Total cost divided by completed tasks across all runs */
+	avgCostPerTask: number;
+	avgDurationMs: number;
+	mostFailedReviewer?: { name: string; failures: number };
+};
+
+function historyPath(cwd: string): string {
+	return path.join(cwd, HISTORY_FILE);
+}
+
+export function buildHistoryEntry(state: OrchestratorState, outcome: HistoryOutcome, now = Date.now()): HistoryEntry {
+	return {
+		description: state.userDescription,
+		outcome,
+		phase: state.phase,
+		...(state.error ? { error: state.error } : {}),
+		startedAt: state.startedAt,
+		finishedAt: now,
+		durationMs: Math.max(0, now - state.startedAt),
+		totalCostUsd: state.totalCostUsd,
+		costByPhase: { ...state.costByPhase },
+		costByAgent: { ...state.costByAgent },
+		phaseDurationsMs: { ...state.phaseDurationsMs },
+		tasks: state.tasks.map((t) => ({
+			id: t.id,
+			title: t.title,
+			status: t.status,
+			fixAttempts: t.fixAttempts,
+			reviewsPassed: [...t.reviewsPassed],
+			reviewsFailed: [...t.reviewsFailed],
+		})),
+	};
+}
+
+export function appendHistory(cwd: string, entry: HistoryEntry): void {
+	fs.appendFileSync(historyPath(cwd), JSON.stringify(entry) + "\n");
+}
+
+/**
+ * Record a workflow that is being discarded (`/workflow abort`, or replaced by a new one).
+ * Workflows that already finished cleanly were recorded by finalize and are skipped.
+ */
+export function recordAbortedWorkflow(cwd: string, state: OrchestratorState): void {
+	if (state.phase === "done" && !state.error) return;
+	appendHistory(cwd, buildHistoryEntry(state, "aborted"));
+}
+
+/** Read all ledger entries, oldest first. Malformed lines are skipped. */
+export function readHistory(cwd: string): HistoryEntry[] {
+	const p = historyPath(cwd);
+	if (!fs.existsSync(p)) return [];
+	const entries: HistoryEntry[] = [];
+	for (const line of fs.readFileSync(p, "utf-8").split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			entries.push(JSON.parse(line));
+		} catch {
+			// Partial write or hand edit — skip the line
+		}
+	}
+	return entries;
+}
+
+export function computeHistoryStats(entries: HistoryEntry[]): HistoryStats {
+	const runs = entries.length;
+	const totalCostUsd = entries.reduce((sum, e) => sum + e.totalCostUsd, 0);
+	const tasksCompleted = entries.reduce((sum, e) => sum + e.tasks.filter((t) => t.status === "complete").length, 0);
+	const totalDurationMs = entries.reduce((sum, e) => sum + e.durationMs, 0);
+
+	const reviewerFailures = new Map<string, number>();
+	for (const e of entries) {
+		for (const t of e.tasks) {
+			for (const name of t.reviewsFailed) reviewerFailures.set(name, (reviewerFailures.get(name) ?? 0) + 1);
+		}
+	}
+	let mostFailedReviewer: HistoryStats["mostFailedReviewer"];
+	for (const [name, failures] of reviewerFailures) {
+		if (!mostFailedReviewer || failures > mostFailedReviewer.failures) mostFailedReviewer = { name, failures };
+	}
+
+	return {
+		runs,
+		completed: entries.filter((e) => e.outcome === "complete").length,
+		aborted: entries.filter((e) => e.outcome === "aborted").length,
+		totalCostUsd,
+		avgCostPerRun: runs > 0 ? totalCostUsd / runs : 0,
+		avgCostPerTask: tasksCompleted > 0 ? totalCostUsd / tasksCompleted : 0,
+		avgDurationMs: runs > 0 ? totalDurationMs / runs : 0,
+		...(mostFailedReviewer ? { mostFailedReviewer } : {}),
+	};
+}
+
+export function formatDuration(ms: number): string {
+	const minutes = Math.round(ms / 60_000);
+	if (minutes < 1) return `${Math.round(ms / 1000)}s`;
+	if (minutes < 60) return `${minutes}m`;
+	return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+/** Human-readable list of the most recent runs (newest first) followed by aggregate stats. */
+export function formatHistory(entries: HistoryEntry[], limit = 10): string {
+	if (entries.length === 0) return "No workflow history yet.";
+
+	const lines: string[] = [`Workflow history (${entries.length} run${entries.length === 1 ? "" : "s"}):`];
+	for (const e of entries.slice(-limit).reverse()) {
+		const date = new Date(e.finishedAt).toISOString().slice(0, 10);
+		const icon = e.outcome === "complete" ? "✅" : "🛑";
+		const done = e.tasks.filter((t) => t.status === "complete").length;
+		lines.push(
+			`${icon} ${date}  $${e.totalCostUsd.toFixed(2)}  ${formatDuration(e.durationMs)}  ${done}/${e.tasks.length} tasks — ${e.description}`,
+		);
+	}
+	if (entries.length > limit) lines.push(`… ${entries.length - limit} older run(s)`);
+
+	const stats = computeHistoryStats(entries);
+	lines.push("");
+	lines.push(`Runs: ${stats.completed} complete, ${stats.aborted} aborted | Total cost: $${stats.totalCostUsd.toFixed(2)}`);
+	lines.push(`Avg cost/run: $${stats.avgCostPerRun.toFixed(2)} | Avg cost/task: $${stats.avgCostPerTask.toFixed(2)} | Avg duration: ${formatDuration(stats.avgDurationMs)}`);
+	lines.push(
+		stats.mostFailedReviewer
+			? `Most-failed reviewer: ${stats.mostFailedReviewer.name} (${stats.mostFailedReviewer.failures} failed review${stats.mostFailedReviewer.failures === 1 ? "" : "s"})`
+			: "Most-failed reviewer: none",
+	);
+	return lines.join("\n");
+}
@@ -1,7 +1,9 @@
 import * as fs from "node:fs";
 import * as path from "node:path";
 import { writeProgressFile } from "./progress.js";
+import { clearWorkflowAuditEvents } from "./tdd-audit.js";
 import type { TestBaseline } from "./test-baseline.js";
+import type { FailureType } from "./failure-taxonomy.js";
 
 const STATE_FILE = ".superteam-workflow.json";
 
@@ -47,6 +49,8 @@ export type BrainstormState = {
   currentSectionIndex?: number;
   conversationLog?: ConversationEntry[];
   complexityLevel?: "straightforward" | "exploration" | "complex";
+  /** Titles of the triage splits this workflow queued (to attach the design doc later) */
+  queuedSplits?: string[];
 };
 
 export type BatchState = {
@@ -72,6 +76,8 @@ export type OrchestratorConfig = {
   batchSize: number;
   maxPlanReviewCycles: number;
   maxTaskReviewCycles: number;
+  /** Workflow-specific spend limit set in configure; caps costs.hardLimitUsd for budget checkpoints */
+  budgetUsd?: number;
 };
 
 export type TaskExecState = {
@@ -79,6 +85,8 @@ export type TaskExecState = {
   title: string;
   description: string;
   files: string[];
+  /** Ids of tasks that must complete before this one starts */
+  dependsOn?: number[];
   status:
     | "pending"
     | "implementing"
@@ -90,9 +98,13 @@ export type TaskExecState = {
   reviewsPassed: string[];
   reviewsFailed: string[];
   fixAttempts: number;
+  /** Automatic retries already spent per failure type (see failureActions in config) */
+  failureRetries?: Partial<Record<FailureType, number>>;
   gitShaBeforeImpl?: string;
   summary?: { title: string; status: string; changedFiles: string[] };
   commitSha?: string;
+  /** Squashed commit produced in a parallel worktree, not yet merged onto the workflow branch */
+  worktreeCommitSha?: string;
 };
 
 export type PendingInteraction = {
@@ -103,6 +115,13 @@ export type PendingInteraction = {
   default?: string;
 };
 
+/** A prompt answered from the headless policy instead of by the user */
+export type AutoDecision = {
+  prompt: string;
+  choice: string;
+  reason: string;
+};
+
 export type OrchestratorState = {
   phase: OrchestratorPhase;
   config: Partial<OrchestratorConfig>;
@@ -110,6 +129,8 @@ export type OrchestratorState = {
   brainstorm: BrainstormState;
   designPath?: string;
   designContent?: string;
+  /** Design doc of the workflow this one was split from (queued child workflows) */
+  parentDesignPath?: string;
   batches?: BatchState[];
   currentBatchIndex?: number;
   planPath?: string;
@@ -118,15 +139,25 @@ export type OrchestratorState = {
   currentTaskIndex: number;
   planReviewCycles: number;
   totalCostUsd: number;
+  /** Cost breakdowns for the history ledger — keyed by phase and by agent name */
+  costByPhase?: Record<string, number>;
+  costByAgent?: Record<string, number>;
+  /** Wall-clock milliseconds spent in each phase (accumulated across resumes) */
+  phaseDurationsMs?: Record<string, number>;
   startedAt: number;
   /** @deprecated Kept for backward compatibility. Use ctx.ui.* instead. */
   pendingInteraction?: PendingInteraction;
   error?: string;
+  /** Set when a failure's action is "checkpoint": the loop stops until /workflow resumes */
+  paused?: boolean;
   lastValidationFailed?: boolean;
   lastBudgetCheckpointCostUsd?: number;
   testBaseline?: TestBaseline;
   gitStartingSha?: string;
   gitBranch?: string;
+  /** Unattended run: prompts are answered from .superteam-policy.json (see headless.ts) */
+  headless?: boolean;
+  autoDecisions?: AutoDecision[];
 };
 
 export function createInitialState(description: string): OrchestratorState {
@@ -147,6 +178,27 @@ export function createInitialState(description: string): OrchestratorState {
   };
 }
 
+/** Add a dispatch's cost to the running total and to the current phase's and agent's breakdown. */
+export function recordCost(state: OrchestratorState, agent: string, cost: number): void {
+  state.totalCostUsd += cost;
+  const byPhase = state.costByPhase ?? (state.costByPhase = {});
+  byPhase[state.phase] = (byPhase[state.phase] ?? 0) + cost;
+  const byAgent = state.costByAgent ?? (state.costByAgent = {});
+  byAgent[agent] = (byAgent[agent] ?? 0) + cost;
+}
+
+/** Add wall-clock time spent in a phase. */
+export function recordPhaseDuration(state: OrchestratorState, phase: string, ms: number): void {
+  const durations = state.phaseDurationsMs ?? (state.phaseDurationsMs = {});
+  durations[phase] = (durations[phase] ?? 0) + ms;
+}
+
+/** Log a headless auto-decision; rendered in the progress file. */
+export function recordAutoDecision(state: OrchestratorState, decision: AutoDecision): void {
+  const decisions = state.autoDecisions ?? (state.autoDecisions = []);
+  decisions.push(decision);
+}
+
 export function saveState(state: OrchestratorState, cwd: string): void {
   const filePath = path.join(cwd, STATE_FILE);
   const tmpPath = filePath + ".tmp";
@@ -178,4 +230,6 @@ export function clearState(cwd: string): void {
   } catch {
     // File doesn't exist, nothing to do
   }
+  // Subprocess TDD audit events belong to the workflow
+  clearWorkflowAuditEvents(cwd);
 }
@@ -362,5 +362,144 @@ describe("runWorkflowLoop", () => {
       clearQueue("/tmp/test-queue");
       fs.rmSync("/tmp/test-queue", { recursive: true, force: true });
     });
+
+    it("starts the next queued workflow with the parent's scout output when accepted", async () => {
+      const { runWorkflowLoop } = await import("./orchestrator.js");
+      const { enqueueWorkflow, peekQueue, clearQueue } = await import("./workflow-queue.js");
+      const fs = await import("node:fs");
+      const os = await import("node:os");
+      const path = await import("node:path");
+      const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-queue-"));
+      const ctx = makeCtx(cwd);
+      enqueueWorkflow(cwd, { title: "Child", description: "Second half", parentScoutOutput: "parent scout" });
+
+      const state = {
+        phase: "finalize", brainstorm: { step: "done" }, totalCostUsd: 0, userDescription: "parent",
+        tasks: [], currentTaskIndex: 0, gitStartingSha: "abc", gitBranch: "feat/test",
+      } as any;
+      mockFinalize.mockImplementation(async (s) => ({ state: s, report: "done" }));
+      mockGitPreflight.mockResolvedValue({ clean: true, isMainBranch: false, branch: "feat/test", sha: "def", uncommittedFiles: [] } as any);
+      mockBrainstorm.mockImplementation(async (s) => { s.phase = "done"; return s; });
+      ctx.ui.select.mockResolvedValueOnce("Start next queued workflow");
+
+      const result = await runWorkflowLoop(state, ctx);
+
+      const child = mockBrainstorm.mock.calls[0][0];
+      expect(child.userDescription).toBe("Child: Second half");
+      expect(child.brainstorm.step).toBe("triage");
+      expect(child.brainstorm.scoutOutput).toBe("parent scout");
+      expect(result).toBe(child);
+      expect(peekQueue(cwd)).toEqual([]);
+
+      clearQueue(cwd);
+      fs.rmSync(cwd, { recursive: true, force: true });
+    });
+
+    it("starts the next queued workflow without asking when autoStartQueue is set", async () => {
+      const { runWorkflowLoop } = await import("./orchestrator.js");
+      const { enqueueWorkflow } = await import("./workflow-queue.js");
+      const { getConfig } = await import("../config.js");
+      const fs = await import("node:fs");
+      const os = await import("node:os");
+      const path = await import("node:path");
+      const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-queue-"));
+      fs.writeFileSync(path.join(cwd, ".superteam.json"), JSON.stringify({ autoStartQueue: true }));
+      getConfig(cwd, true);
+      const ctx = makeCtx(cwd);
+      enqueueWorkflow(cwd, { title: "Child", description: "Second half" });
+
+      const state = {
+        phase: "finalize", brainstorm: { step: "done" }, totalCostUsd: 0, userDescription: "parent",
+        tasks: [], currentTaskIndex: 0, gitStartingSha: "abc", gitBranch: "feat/test",
+      } as any;
+      mockFinalize.mockImplementation(async (s) => ({ state: s, report: "done" }));
+      mockGitPreflight.mockResolvedValue({ clean: true, isMainBranch: false, branch: "feat/test", sha: "def", uncommittedFiles: [] } as any);
+      mockBrainstorm.mockImplementation(async (s) => { s.phase = "done"; return s; });
+
+      await runWorkflowLoop(state, ctx);
+
+      expect(ctx.ui.select).not.toHaveBeenCalled();
+      expect(mockBrainstorm.mock.calls[0][0].brainstorm.step).toBe("scout");
+      expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining('Starting queued workflow "Child"'), "info");
+
+      getConfig("/nonexistent-path-for-test", true);
+      fs.rmSync(cwd, { recursive: true, force: true });
+    });
+  });
+
+  describe("headless mode", () => {
+    async function policyDir(policy: object): Promise<string> {
+      const fs = await import("node:fs");
+      const os = await import("node:os");
+      const path = await import("node:path");
+      const cwd = fs.mkdtempSync(path.join(os.tmpdir(), "orch-headless-"));
+      fs.writeFileSync(path.join(cwd, ".superteam-policy.json"), JSON.stringify(policy));
+      return cwd;
+    }
+
+    it("answers preflight prompts from the policy file when there is no UI, logging each decision", async () => {
+      const { runWorkflowLoop } = await import("./orchestrator.js");
+      const fs = await import("node:fs");
+      const cwd = await policyDir({ dirtyTree: "continue", createBranch: false });
+      mockGitPreflight.mockResolvedValue({
+        clean: false, branch: "main", isMainBranch: true,
+        sha: "abc123", uncommittedFiles: ["src/a.ts"], warnings: [],
+      });
+      mockBrainstorm.mockImplementation(async (s) => { s.phase = "done"; return s; });
+
+      const ctx = { ...makeCtx(cwd), hasUI: false };
+      const state = { phase: "brainstorm", brainstorm: { step: "scout" }, totalCostUsd: 0, userDescription: "test", tasks: [], currentTaskIndex: 0 } as any;
+      const result = await runWorkflowLoop(state, ctx);
+
+      expect(ctx.ui.select).not.toHaveBeenCalled();
+      expect(result.headless).toBe(true);
+      expect(result.gitBranch).toBe("main");
+      expect(result.autoDecisions).toEqual([
+        { prompt: "Working tree has uncommitted changes: src/a.ts", choice: "Continue anyway", reason: "dirtyTree: continue" },
+        { prompt: "On main branch. Create a workflow branch?", choice: "Continue on main", reason: "createBranch: false" },
+      ]);
+      // Phases get the policy UI in place of the real one
+      expect(mockBrainstorm.mock.calls[0][1].ui).not.toBe(ctx.ui);
+
+      fs.rmSync(cwd, { recursive: true, force: true });
+    });
+
+    it("asks the user as usual when a UI is available and --headless wasn't given", async () => {
+      const { runWorkflowLoop } = await import("./orchestrator.js");
+      const fs = await import("node:fs");
+      const cwd = await policyDir({ dirtyTree: "abort" });
+      mockGitPreflight.mockResolvedValue({
+        clean: false, branch: "feat/work", isMainBranch: false,
+        sha: "abc123", uncommittedFiles: ["src/a.ts"], warnings: [],
+      });
+      mockBrainstorm.mockImplementation(async (s) => { s.phase = "done"; return s; });
+
+      const ctx = makeCtx(cwd);
+      ctx.ui.select.mockResolvedValue("Continue anyway");
+      const state = { phase: "brainstorm", brainstorm: { step: "scout" }, totalCostUsd: 0, userDescription: "test", tasks: [], currentTaskIndex: 0 } as any;
+      const result = await runWorkflowLoop(state, ctx);
+
+      expect(ctx.ui.select).toHaveBeenCalled();
+      expect(result.headless).toBeUndefined();
+      expect(result.autoDecisions).toBeUndefined();
+
+      fs.rmSync(cwd, { recursive: true, force: true });
+    });
+
+    it("aborts on a dirty tree with the default policy when --headless was given", async () => {
+      const { runWorkflowLoop } = await import("./orchestrator.js");
+      mockGitPreflight.mockResolvedValue({
+        clean: false, branch: "feat/work", isMainBranch: false,
+        sha: "abc123", uncommittedFiles: ["src/a.ts"], warnings: [],
+      });
+
+      const ctx = makeCtx("/nonexistent-path-for-test");
+      const state = { phase: "brainstorm", brainstorm: { step: "scout" }, totalCostUsd: 0, userDescription: "test", tasks: [], currentTaskIndex: 0, headless: true } as any;
+      const result = await runWorkflowLoop(state, ctx);
+
+      expect(ctx.ui.select).not.toHaveBeenCalled();
+      expect(result.error).toBe("Aborted: dirty working tree");
+      expect(result.autoDecisions[0]).toMatchObject({ choice: "Abort", reason: "dirtyTree: abort" });
+    });
   });
 });
@@ -10,11 +10,18 @@ import {
 	saveState,
 	loadState,
 	clearState,
+	recordPhaseDuration,
+	recordAutoDecision,
 } from "./orchestrator-state.js";
 import { formatInteractionForAgent, parseUserResponse } from "./interaction.js";
 import { formatStatus } from "./ui.js";
 import { writeProgressFile } from "./progress.js";
 import { runGitPreflight } from "./git-preflight.js";
+import { peekQueue, dequeueWorkflow, createQueuedWorkflowState } from "./workflow-queue.js";
+import { createPolicyUi, hasWorkflowPolicy, loadWorkflowPolicy } from "./headless.js";
+import { getConfig } from "../config.js";
+import { PHASE_ENV_VAR, TDD_MODE_ENV_VAR, setSubprocessEnv } from "../dispatch.js";
+import { AUDIT_FILE_ENV_VAR, workflowAuditPath } from "./tdd-audit.js";
 import { runBrainstormPhase } from "./phases/brainstorm.js";
 import { runPlanWritePhase } from "./phases/plan-write.js";
 import { runPlanReviewPhase } from "./phases/plan-review.js";
@@ -31,8 +38,24 @@ export async function runWorkflowLoop(
 	ctx: Ctx,
 	signal?: AbortSignal,
 ): Promise<OrchestratorState> {
+	const baseCtx = ctx;
+
+	// Headless — requested with --headless, or no UI and a policy file to answer from
+	if (!state.headless && ctx.hasUI === false && hasWorkflowPolicy(ctx.cwd)) state.headless = true;
+	if (state.headless) {
+		const policyUi = createPolicyUi(
+			loadWorkflowPolicy(ctx.cwd),
+			(decision) => recordAutoDecision(state, decision),
+			(ctx as any).ui,
+		);
+		ctx = { cwd: ctx.cwd, hasUI: ctx.hasUI, ui: policyUi };
+	}
+
 	const ui = (ctx as any).ui;
 
+	// Resuming a workflow paused at a failure checkpoint
+	if (state.paused) delete state.paused;
+
 	// Git preflight — only on first run (not resume)
 	if (!state.gitStartingSha) {
 		try {
@@ -92,8 +115,16 @@ export async function runWorkflowLoop(
 		}
 	}
 
+	// Agents scope rules to the workflow and record their TDD audit events for /tdd report workflow
+	setSubprocessEnv(AUDIT_FILE_ENV_VAR, workflowAuditPath(ctx.cwd));
+	setSubprocessEnv(TDD_MODE_ENV_VAR, getConfig(ctx.cwd).tddMode);
+
+	let finalized = false;
 	while (state.phase !== "done") {
+		setSubprocessEnv(PHASE_ENV_VAR, state.phase);
 		ui?.setStatus?.("workflow", formatStatus(state));
+		const phase = state.phase;
+		const phaseStartedAt = Date.now();
 
 		switch (state.phase) {
 			case "brainstorm":
@@ -139,6 +170,7 @@ export async function runWorkflowLoop(
 				const { state: finalState, report } = await runFinalizePhase(state, ctx, signal);
 				state = finalState;
 				state.phase = "done";
+				finalized = true;
 				ui?.notify?.(report, "info");
 				break;
 			}
@@ -148,6 +180,9 @@ export async function runWorkflowLoop(
 				break;
 		}
 
+		// Finalize records its own duration before writing the history ledger
+		if (phase !== "finalize") recordPhaseDuration(state, phase, Date.now() - phaseStartedAt);
+
 		// Persist after each phase
 		saveState(state, ctx.cwd);
 		writeProgressFile(state, ctx.cwd);
@@ -158,16 +193,57 @@ export async function runWorkflowLoop(
 			ui?.notify?.("Use /workflow to resume.", "info");
 			break;
 		}
+
+		// Paused at a failure checkpoint — wait for the user instead of re-entering the phase
+		if (state.paused) {
+			ui?.notify?.("Workflow paused. Use /workflow to resume.", "info");
+			break;
+		}
 	}
 
+	for (const name of [AUDIT_FILE_ENV_VAR, TDD_MODE_ENV_VAR, PHASE_ENV_VAR]) setSubprocessEnv(name, undefined);
+
 	// Clean up UI
 	ui?.setStatus?.("workflow", undefined);
 	ui?.setWidget?.("workflow-progress", undefined);
 	ui?.setWidget?.("workflow-activity", undefined);
 
+	if (finalized && !state.error) {
+		const next = await takeNextQueuedWorkflow(ctx);
+		if (next) {
+			if (state.headless) next.headless = true;
+			saveState(next, ctx.cwd);
+			return runWorkflowLoop(next, baseCtx, signal);
+		}
+	}
+
 	return state;
 }
 
+/**
+ * After a workflow finalizes, start the next queued one — automatically with
+ * `autoStartQueue`, otherwise when the user agrees. Returns its initial state.
+ */
+async function takeNextQueuedWorkflow(ctx: Ctx): Promise<OrchestratorState | undefined> {
+	const ui = (ctx as any).ui;
+	const queued = peekQueue(ctx.cwd);
+	if (queued.length === 0) return undefined;
+
+	const title = queued[0].title;
+	if (getConfig(ctx.cwd).autoStartQueue) {
+		ui?.notify?.(`Starting queued workflow "${title}" (${queued.length - 1} left in queue)`, "info");
+	} else {
+		const choice = await ui?.select?.(
+			`${queued.length} queued workflow${queued.length === 1 ? "" : "s"}. Start "${title}" next?`,
+			["Start next queued workflow", "Stop"],
+		);
+		if (choice !== "Start next queued workflow") return undefined;
+	}
+
+	const item = dequeueWorkflow(ctx.cwd);
+	return item ? createQueuedWorkflowState(item) : undefined;
+}
+
 // --- Legacy: runOrchestrator (secondary tool path) ---
 
 export type OrchestratorResult = {
@@ -0,0 +1,205 @@
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { execFile as execFileCb } from "node:child_process";
+import { promisify } from "node:util";
+import type { TaskExecState } from "./orchestrator-state.ts";
+
+vi.mock("../dispatch.js", () => ({
+	dispatchParallel: vi.fn(),
+}));
+
+import { dispatchParallel, type AgentProfile, type DispatchResult } from "../dispatch.ts";
+import { selectParallelGroup, implementInWorktrees } from "./parallel-execution.ts";
+import { getCurrentSha } from "./git-utils.ts";
+
+const mockDispatchParallel = vi.mocked(dispatchParallel);
+const run = promisify(execFileCb);
+
+function makeTask(overrides: Partial<TaskExecState> = {}): TaskExecState {
+	return {
+		id: 1, title: "Task 1", description: "Do something", files: ["src/a.ts"],
+		status: "pending", reviewsPassed: [], reviewsFailed: [], fixAttempts: 0,
+		...overrides,
+	};
+}
+
+function makeResult(overrides: Partial<DispatchResult> = {}): DispatchResult {
+	return {
+		agent: "implementer", agentSource: "package", task: "t", exitCode: 0,
+		messages: [], stderr: "",
+		usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0.25, contextTokens: 0, turns: 1 },
+		...overrides,
+	};
+}
+
+const implementer: AgentProfile = {
+	name: "implementer", description: "impl", systemPrompt: "", source: "package", filePath: "/agents/implementer.md",
+};
+
+async function makeTempRepo(): Promise<string> {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "parallel-exec-test-"));
+	await run("git", ["init"], { cwd: dir });
+	await run("git", ["config", "user.email", "test@test.com"], { cwd: dir });
+	await run("git", ["config", "user.name", "Test"], { cwd: dir });
+	fs.writeFileSync(path.join(dir, "README.md"), "hello");
+	await run("git", ["add", "."], { cwd: dir });
+	await run("git", ["commit", "-m", "initial"], { cwd: dir });
+	return dir;
+}
+
+describe("selectParallelGroup", () => {
+	it("groups consecutive pending tasks with disjoint files", () => {
+		const tasks = [
+			makeTask({ id: 1, files: ["src/a.ts"] }),
+			makeTask({ id: 2, files: ["src/b.ts"] }),
+			makeTask({ id: 3, files: ["src/c.ts"] }),
+		];
+		expect(selectParallelGroup(tasks, 0, 4).map((t) => t.id)).toEqual([1, 2, 3]);
+	});
+
+	it("stops at the first task that overlaps an earlier one", () => {
+		const tasks = [
+			makeTask({ id: 1, files: ["src/a.ts", "src/shared.ts"] }),
+			makeTask({ id: 2, files: ["src/b.ts"] }),
+			makeTask({ id: 3, files: ["./src/shared.ts"] }),
+			makeTask({ id: 4, files: ["src/d.ts"] }),
+		];
+		expect(selectParallelGroup(tasks, 0, 4).map((t) => t.id)).toEqual([1, 2]);
+	});
+
+	it("respects maxParallel", () => {
+		const tasks = [1, 2, 3].map((id) => makeTask({ id, files: [`src/${id}.ts`] }));
+		expect(selectParallelGroup(tasks, 0, 2).map((t) => t.id)).toEqual([1, 2]);
+	});
+
+	it("returns empty when maxParallel < 2 or only one task is independent", () => {
+		const tasks = [makeTask({ id: 1, files: ["src/a.ts"] }), makeTask({ id: 2, files: ["src/a.ts"] })];
+		expect(selectParallelGroup(tasks, 0, 1)).toEqual([]);
+		expect(selectParallelGroup(tasks, 0, 4)).toEqual([]);
+	});
+
+	it("stops at a task whose dependencies are not complete", () => {
+		const tasks = [
+			makeTask({ id: 1, files: ["src/a.ts"] }),
+			makeTask({ id: 2, files: ["src/b.ts"] }),
+			makeTask({ id: 3, files: ["src/c.ts"], dependsOn: [1] }),
+		];
+		expect(selectParallelGroup(tasks, 0, 4).map((t) => t.id)).toEqual([1, 2]);
+	});
+
+	it("never groups tasks without declared files", () => {
+		const tasks = [makeTask({ id: 1, files: [] }), makeTask({ id: 2, files: ["src/b.ts"] })];
+		expect(selectParallelGroup(tasks, 0, 4)).toEqual([]);
+	});
+
+	it("starts at startIndex and stops at non-pending tasks", () => {
+		const tasks = [
+			makeTask({ id: 1, files: ["src/a.ts"], status: "complete" }),
+			makeTask({ id: 2, files: ["src/b.ts"] }),
+			makeTask({ id: 3, files: ["src/c.ts"] }),
+			makeTask({ id: 4, files: ["src/d.ts"], status: "skipped" }),
+			makeTask({ id: 5, files: ["src/e.ts"] }),
+		];
+		expect(selectParallelGroup(tasks, 1, 4).map((t) => t.id)).toEqual([2, 3]);
+	});
+});
+
+describe("implementInWorktrees", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+	});
+
+	it("runs each task in its own worktree and records a squashed commit per task", async () => {
+		const dir = await makeTempRepo();
+		const baseSha = await getCurrentSha(dir);
+		const group = [
+			makeTask({ id: 1, title: "Add a", files: ["a.ts"] }),
+			makeTask({ id: 2, title: "Add b", files: ["b.ts"] }),
+		];
+
+		mockDispatchParallel.mockImplementation(async (_agents, _tasks, cwds) => {
+			const dirs = cwds as string[];
+			fs.writeFileSync(path.join(dirs[0], "a.ts"), "a");
+			fs.writeFileSync(path.join(dirs[1], "b.ts"), "b");
+			return [makeResult(), makeResult()];
+		});
+
+		const outcomes = await implementInWorktrees(group, implementer, "ctx", [], dir);
+
+		const cwds = mockDispatchParallel.mock.calls[0][2] as string[];
+		expect(cwds).toHaveLength(2);
+		expect(cwds[0]).not.toBe(cwds[1]);
+		expect(outcomes.map((o) => o.error)).toEqual([undefined, undefined]);
+		expect(outcomes.reduce((sum, o) => sum + o.costUsd, 0)).toBeCloseTo(0.5);
+
+		// Main checkout untouched, worktrees cleaned up
+		expect(await getCurrentSha(dir)).toBe(baseSha);
+		expect(fs.existsSync(path.join(dir, "a.ts"))).toBe(false);
+		for (const wt of cwds) expect(fs.existsSync(wt)).toBe(false);
+
+		// Commits are reachable and contain only their task's files
+		for (const task of group) {
+			expect(task.worktreeCommitSha).toMatch(/^[0-9a-f]{40}$/);
+			expect(task.status).toBe("pending");
+			const { stdout } = await run("git", ["show", "--name-only", "--format=%s", task.worktreeCommitSha!], { cwd: dir });
+			expect(stdout).toContain(`workflow: task ${task.id}`);
+			expect(stdout).toContain(task.files[0]);
+		}
+	});
+
+	it("creates worktrees inside the project so implementers see its config", async () => {
+		const { getConfig } = await import("../config.ts");
+		const dir = await makeTempRepo();
+		// .superteam.json is usually gitignored, so it isn't checked out in the worktree
+		fs.writeFileSync(path.join(dir, ".superteam.json"), JSON.stringify({ tddMode: "atdd" }));
+		const group = [makeTask({ id: 1, files: ["a.ts"] }), makeTask({ id: 2, files: ["b.ts"] })];
+
+		let seenModes: string[] = [];
+		let projectStatus = "";
+		mockDispatchParallel.mockImplementation(async (_agents, _tasks, cwds) => {
+			const dirs = cwds as string[];
+			seenModes = dirs.map((d) => getConfig(d, true).tddMode);
+			projectStatus = (await run("git", ["status", "--porcelain"], { cwd: dir })).stdout;
+			return [makeResult(), makeResult()];
+		});
+
+		await implementInWorktrees(group, implementer, "ctx", [], dir);
+
+		const cwds = mockDispatchParallel.mock.calls[0][2] as string[];
+		expect(cwds.every((d) => d.startsWith(path.join(dir, ".superteam-worktrees")))).toBe(true);
+		expect(seenModes).toEqual(["atdd", "atdd"]);
+		expect(projectStatus).not.toContain(".superteam-worktrees");
+		expect(fs.existsSync(path.join(dir, ".superteam-worktrees"))).toBe(false);
+
+		getConfig("/nonexistent-path-for-test", true);
+	});
+
+	it("reports failed or empty implementations without a commit", async () => {
+		const dir = await makeTempRepo();
+		const group = [makeTask({ id: 1, files: ["a.ts"] }), makeTask({ id: 2, files: ["b.ts"] })];
+
+		mockDispatchParallel.mockResolvedValue([
+			makeResult({ exitCode: 1, errorMessage: "boom" }),
+			makeResult(),
+		]);
+
+		const outcomes = await implementInWorktrees(group, implementer, "ctx", [], dir);
+
+		expect(outcomes[0]).toMatchObject({ taskId: 1, error: "boom" });
+		expect(outcomes[1]).toMatchObject({ taskId: 2, error: "Implementer made no changes" });
+		expect(group.every((t) => t.worktreeCommitSha === undefined)).toBe(true);
+		expect(group.every((t) => t.status === "pending")).toBe(true);
+	});
+
+	it("fails every task when cwd is not a git repository", async () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "parallel-exec-norepo-"));
+		const group = [makeTask({ id: 1 }), makeTask({ id: 2, files: ["src/b.ts"] })];
+
+		const outcomes = await implementInWorktrees(group, implementer, "ctx", [], dir);
+
+		expect(outcomes.every((o) => o.error === "Not a git repository")).toBe(true);
+		expect(mockDispatchParallel).not.toHaveBeenCalled();
+	});
+});
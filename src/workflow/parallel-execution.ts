@@ -0,0 +1,161 @@
+/**
+ * Parallel execution — implement independent tasks side by side in isolated git worktrees.
+ *
+ * Each task in a group gets its own detached worktree and implementer subprocess.
+ * Work is squashed into one commit per task inside the worktree; the execute phase
+ * later cherry-picks that commit onto the workflow branch and runs the normal
+ * validation → review pipeline against it.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import type { TaskExecState } from "./orchestrator-state.js";
+import { buildImplPrompt } from "./prompt-builder.js";
+import { dependenciesMet } from "./task-graph.js";
+import { getCurrentSha, createWorktree, removeWorktree, squashTaskCommits } from "./git-utils.js";
+import { dispatchParallel, type AgentProfile } from "../dispatch.js";
+
+/** Hard cap — matches the dispatcher's parallel task limit. */
+export const MAX_PARALLEL_GROUP = 8;
+
+/**
+ * Worktrees live inside the project so implementer subprocesses find its
+ * .superteam.json, .pi/ and node_modules by walking up from their cwd.
+ */
+export const WORKTREES_DIR = ".superteam-worktrees";
+
+export interface ParallelTaskOutcome {
+	taskId: number;
+	/** Squashed commit in the worktree, or undefined if the task produced nothing usable */
+	commitSha?: string;
+	error?: string;
+	costUsd: number;
+}
+
+/**
+ * Select the run of consecutive pending tasks, starting at `startIndex`, whose
+ * `files` lists are non-empty and pairwise disjoint and whose dependencies are
+ * already complete. Tasks with no declared files are never grouped — we can't
+ * prove they are independent.
+ * Pure function — returns [] or a group of 2+ tasks.
+ */
+export function selectParallelGroup(
+	tasks: TaskExecState[],
+	startIndex: number,
+	maxParallel: number,
+): TaskExecState[] {
+	const limit = Math.min(maxParallel, MAX_PARALLEL_GROUP);
+	if (limit < 2) return [];
+
+	const group: TaskExecState[] = [];
+	const claimed = new Set<string>();
+
+	for (let i = startIndex; i < tasks.length && group.length < limit; i++) {
+		const task = tasks[i];
+		if (task.status !== "pending" || task.worktreeCommitSha) break;
+		if (task.files.length === 0) break;
+		if (!dependenciesMet(task, tasks)) break;
+		if (task.files.some((f) => claimed.has(normalizePath(f)))) break;
+
+		for (const f of task.files) claimed.add(normalizePath(f));
+		group.push(task);
+	}
+
+	return group.length >= 2 ? group : [];
+}
+
+/**
+ * Implement a group of independent tasks concurrently, one worktree per task.
+ * Worktrees are always removed; successful tasks get `worktreeCommitSha` set.
+ */
+export async function implementInWorktrees(
+	group: TaskExecState[],
+	implementer: AgentProfile,
+	planContext: string,
+	priorTasks: Array<{ title: string; status: string; changedFiles: string[] }>,
+	cwd: string,
+	signal?: AbortSignal,
+): Promise<ParallelTaskOutcome[]> {
+	const baseSha = await getCurrentSha(cwd);
+	if (!baseSha) {
+		return group.map((t) => ({ taskId: t.id, error: "Not a git repository", costUsd: 0 }));
+	}
+
+	const root = createWorktreesRoot(cwd);
+	const worktrees: Array<{ task: TaskExecState; dir: string }> = [];
+	const outcomes: ParallelTaskOutcome[] = [];
+
+	try {
+		for (const task of group) {
+			const dir = path.join(root, `task-${task.id}`);
+			if (await createWorktree(cwd, dir, baseSha)) {
+				worktrees.push({ task, dir });
+			} else {
+				outcomes.push({ taskId: task.id, error: "Could not create worktree", costUsd: 0 });
+			}
+		}
+
+		if (worktrees.length === 0) return outcomes;
+
+		for (const { task } of worktrees) task.status = "implementing";
+
+		const results = await dispatchParallel(
+			worktrees.map(() => implementer),
+			worktrees.map(({ task }) => buildImplPrompt(task, planContext, undefined, priorTasks)),
+			worktrees.map(({ dir }) => dir),
+			signal,
+		);
+
+		for (let j = 0; j < worktrees.length; j++) {
+			const { task, dir } = worktrees[j];
+			const result = results[j];
+			const costUsd = result.usage.cost;
+
+			if (result.exitCode !== 0) {
+				outcomes.push({ taskId: task.id, error: result.errorMessage || "Implementation failed (non-zero exit)", costUsd });
+				continue;
+			}
+
+			const squash = await squashTaskCommits(dir, baseSha, task.id, task.title);
+			if (!squash.success) {
+				outcomes.push({ taskId: task.id, error: squash.error || "Commit squash failed", costUsd });
+			} else if (squash.sha === baseSha) {
+				outcomes.push({ taskId: task.id, error: "Implementer made no changes", costUsd });
+			} else {
+				task.worktreeCommitSha = squash.sha;
+				outcomes.push({ taskId: task.id, commitSha: squash.sha, costUsd });
+			}
+		}
+	} finally {
+		for (const { dir } of worktrees) await removeWorktree(cwd, dir);
+		removeWorktreesRoot(root);
+		for (const task of group) {
+			if (task.status === "implementing") task.status = "pending";
+		}
+	}
+
+	return outcomes;
+}
+
+function createWorktreesRoot(cwd: string): string {
+	const parent = path.join(cwd, WORKTREES_DIR);
+	fs.mkdirSync(parent, { recursive: true });
+	// Self-ignoring, so worktrees never show up as untracked files in the project
+	const ignoreFile = path.join(parent, ".gitignore");
+	if (!fs.existsSync(ignoreFile)) fs.writeFileSync(ignoreFile, "*\n");
+	return fs.mkdtempSync(path.join(parent, "run-"));
+}
+
+function removeWorktreesRoot(root: string): void {
+	try {
+		fs.rmSync(root, { recursive: true, force: true });
+		const parent = path.dirname(root);
+		if (fs.readdirSync(parent).every((f) => f === ".gitignore")) fs.rmSync(parent, { recursive: true, force: true });
+	} catch {
+		// ignore
+	}
+}
+
+function normalizePath(p: string): string {
+	return path.posix.normalize(p.replace(/\\/g, "/")).replace(/^\.\//, "");
+}
@@ -505,6 +505,48 @@ describe("runBrainstormPhase", () => {
     expect(result.brainstorm.chosenApproach).toBe("a1");
   });
 
+  it("headless: the brainstormer answers its own questions and each answer is logged", async () => {
+    const { runBrainstormPhase } = await import("./brainstorm.js");
+    const ctx = makeCtx(tmpDir);
+    mockDispatchAgent.mockResolvedValue(makeDispatchResult());
+    mockGetFinalOutput.mockReturnValue("output");
+
+    mockParseBrainstorm
+      .mockReturnValueOnce({
+        status: "ok",
+        data: {
+          type: "questions",
+          questions: [
+            { id: "q1", text: "Which store?", type: "choice", options: ["Postgres", "SQLite"] },
+            { id: "q2", text: "Session length?", type: "input" },
+          ],
+        },
+      } as any)
+      .mockReturnValueOnce({
+        status: "ok",
+        data: {
+          type: "questions",
+          questions: [{ id: "q1", text: "Which store?", type: "choice", answer: "SQLite" }],
+        },
+      } as any);
+    ctx.ui.select.mockResolvedValue(undefined); // cancel at approaches
+
+    const state = makeState({
+      headless: true,
+      brainstorm: { step: "questions", scoutOutput: "scout data", conversationLog: [], complexityLevel: "exploration" },
+    });
+    const result = await runBrainstormPhase(state, ctx);
+
+    expect(mockDispatchAgent.mock.calls[1][1]).toContain("Answer your clarifying questions");
+    expect(ctx.ui.input).not.toHaveBeenCalled();
+    expect(result.brainstorm.questions!.map((q: any) => q.answer)).toEqual(["SQLite", ""]);
+    expect(result.autoDecisions).toEqual([
+      { prompt: "Which store?", choice: "SQLite", reason: "questions: brainstormer" },
+      { prompt: "Session length?", choice: "(blank)", reason: "brainstormer gave no answer; left blank" },
+    ]);
+    expect(result.brainstorm.step).toBe("approaches");
+  });
+
   it("triage discuss round re-dispatches brainstormer and re-presents", async () => {
     const { runBrainstormPhase } = await import("./brainstorm.js");
     const ctx = makeCtx(tmpDir);
@@ -749,6 +791,8 @@ describe("runBrainstormPhase", () => {
     expect(queued).toHaveLength(1);
     expect(queued[0].title).toBe("CLI refactor");
     expect(queued[0].description).toBe("Refactor CLI help");
+    expect(queued[0].parentScoutOutput).toBe("data");
+    expect(result.brainstorm.queuedSplits).toEqual(["CLI refactor"]);
 
     // Current workflow continues with first split's description
     // (userDescription may be augmented)
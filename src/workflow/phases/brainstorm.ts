@@ -8,6 +8,7 @@
 
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import type { OrchestratorState, BrainstormQuestion, BrainstormApproach, DesignSection, BrainstormStep } from "../orchestrator-state.js";
+import { recordCost, recordAutoDecision } from "../orchestrator-state.js";
 import { discoverAgents, dispatchAgent, getFinalOutput, type AgentProfile, type OnStreamEvent } from "../../dispatch.js";
 import { parseBrainstormOutput } from "../brainstorm-parser.js";
 import {
@@ -18,7 +19,9 @@ import {
 	buildBrainstormSectionRevisionPrompt,
 	buildBrainstormTriagePrompt,
 	buildBrainstormConversationalPrompt,
+	buildBrainstormSelfAnswerPrompt,
 } from "../prompt-builder.js";
+import { loadWorkflowPolicy } from "../headless.js";
 import { formatStatus, formatToolAction, createActivityBuffer } from "../ui.js";
 
 type Ctx = ExtensionContext | { cwd: string; hasUI?: boolean; ui?: any };
@@ -59,7 +62,7 @@ export async function runBrainstormPhase(
 	if (state.brainstorm.step === "scout") {
 		ui?.setStatus?.("workflow", formatStatus(state));
 		const result = await dispatchAgent(scoutAgent, buildScoutPrompt(ctx.cwd), ctx.cwd, signal, undefined, makeOnStreamEvent());
-		state.totalCostUsd += result.usage.cost;
+		recordCost(state, result.agent, result.usage.cost);
 		state.brainstorm.scoutOutput = getFinalOutput(result.messages);
 		state.brainstorm.step = "triage";
 		state.brainstorm.conversationLog = [];
@@ -161,6 +164,7 @@ export async function runBrainstormPhase(
 					parentScoutOutput: scoutOutput,
 				});
 			}
+			state.brainstorm.queuedSplits = currentTriage.splits.slice(1).map((split) => split.title);
 			ui?.notify?.(
 				`Split: ${currentTriage.splits.length} independent workflows. Running "${currentTriage.splits[0].title}" first, ${currentTriage.splits.length - 1} queued.`,
 				"info",
@@ -212,8 +216,32 @@ export async function runBrainstormPhase(
 		state.brainstorm.questions = currentQuestions;
 		appendLog(state, "brainstormer", "questions", currentQuestions.map((q) => q.text).join("; "));
 
+		// Headless: the brainstormer answers its own questions instead of the user
+		if (state.headless && currentQuestions.length > 0 && loadWorkflowPolicy(ctx.cwd).questions === "brainstormer") {
+			const answerResult = await dispatchBrainstormerWithRetry(
+				brainstormerAgent,
+				buildBrainstormSelfAnswerPrompt(scoutOutput, state.userDescription, currentQuestions),
+				ctx.cwd, state, signal, ui, makeOnStreamEvent,
+			);
+			if (!answerResult) return state;
+
+			const answered: BrainstormQuestion[] = answerResult.data.type === "questions" ? answerResult.data.questions || [] : [];
+			for (const q of currentQuestions) {
+				const answer = answered.find((a) => a.id === q.id)?.answer;
+				q.answer = answer ?? q.options?.[0] ?? "";
+				const fallback = q.options?.length ? "first option" : "left blank";
+				recordAutoDecision(state, {
+					prompt: q.text,
+					choice: q.answer || "(blank)",
+					reason: answer !== undefined ? "questions: brainstormer" : `brainstormer gave no answer; ${fallback}`,
+				});
+			}
+			appendLog(state, "brainstormer", "questions", currentQuestions.map((q) => `${q.text} → ${q.answer}`).join("; "));
+			state.brainstorm.step = "approaches";
+		}
+
 		// Question-answer-discuss loop
-		while (true) {
+		while (state.brainstorm.step === "questions") {
 			// Present each question to user
 			for (let i = 0; i < currentQuestions.length; i++) {
 				const q = currentQuestions[i];
@@ -488,6 +516,15 @@ export async function runBrainstormPhase(
 		state.designPath = designPath;
 		state.designContent = designContent;
 		state.phase = "plan-write";
+
+		if (state.brainstorm.queuedSplits?.length) {
+			try {
+				const { attachParentDesign } = await import("../workflow-queue.js");
+				attachParentDesign(ctx.cwd, state.brainstorm.queuedSplits, designPath);
+			} catch {
+				// Non-fatal — queued splits just won't reference the design doc
+			}
+		}
 	}
 
 	return state;
@@ -510,7 +547,7 @@ async function dispatchBrainstormerWithRetry(
 			: prompt;
 
 		const result = await dispatchAgent(agent, taskPrompt, cwd, signal, undefined, makeOnStreamEvent());
-		state.totalCostUsd += result.usage.cost;
+		recordCost(state, result.agent, result.usage.cost);
 
 		const output = getFinalOutput(result.messages);
 		const parsed = parseBrainstormOutput(output);
@@ -1,5 +1,8 @@
 // src/workflow/phases/configure.test.ts (rewrite)
-import { describe, it, expect, vi } from "vitest";
+import { describe, it, expect, vi, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
 
 function makeCtx() {
   return {
@@ -87,4 +90,97 @@ describe("runConfigurePhase (direct UI)", () => {
     expect(result.phase).toBe("configure");
     expect(result.error).toBeUndefined();
   });
+
+  describe("estimate and workflow budget", () => {
+    let tmpDir: string;
+
+    afterEach(() => {
+      if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+    });
+
+    function makeCtxIn(dir: string) {
+      return { ...makeCtx(), cwd: dir };
+    }
+
+    function notified(ctx: any, prefix: string): string {
+      return ctx.ui.notify.mock.calls.map((c: any[]) => c[0]).find((m: string) => m.startsWith(prefix));
+    }
+
+    it("shows a heuristic estimate and stores the budget", async () => {
+      const { runConfigurePhase } = await import("./configure.js");
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "configure-"));
+      const ctx = makeCtxIn(tmpDir);
+      ctx.ui.select.mockResolvedValueOnce("Auto").mockResolvedValueOnce("Iterative");
+      ctx.ui.input.mockResolvedValue("$12.50");
+
+      const result = await runConfigurePhase(makeState({ tasks: [{ id: 1, title: "T", description: "", status: "pending" }] }), ctx);
+
+      const message = notified(ctx, "Estimate");
+      expect(message).toContain("Estimate for 1 task");
+      expect(message).toContain("no history yet");
+      expect(ctx.ui.input.mock.calls[0][0]).toContain("Workflow budget");
+      expect(result.config.budgetUsd).toBe(12.5);
+      expect(result.phase).toBe("execute");
+    });
+
+    it("estimates from the history ledger when it has completed tasks", async () => {
+      const { runConfigurePhase } = await import("./configure.js");
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "configure-"));
+      const entry = {
+        description: "past", outcome: "complete", phase: "finalize", startedAt: 0, finishedAt: 60_000, durationMs: 60_000,
+        totalCostUsd: 4, costByPhase: {}, costByAgent: {}, phaseDurationsMs: {},
+        tasks: [{ id: 1, title: "T", status: "complete", fixAttempts: 0, reviewsPassed: [], reviewsFailed: [] }],
+      };
+      fs.writeFileSync(path.join(tmpDir, ".superteam-history.jsonl"), JSON.stringify(entry) + "\n");
+      const ctx = makeCtxIn(tmpDir);
+      ctx.ui.select.mockResolvedValueOnce("Auto").mockResolvedValueOnce("Iterative");
+      ctx.ui.input.mockResolvedValue("");
+
+      const result = await runConfigurePhase(makeState({ config: { budgetUsd: 3 } }), ctx);
+
+      expect(notified(ctx, "Estimate")).toContain("~$4.00");
+      expect(notified(ctx, "Estimate")).toContain("history of 1 run");
+      expect(result.config.budgetUsd).toBeUndefined();
+    });
+
+    it("warns and continues without a budget on invalid input", async () => {
+      const { runConfigurePhase } = await import("./configure.js");
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "configure-"));
+      const ctx = makeCtxIn(tmpDir);
+      ctx.ui.select.mockResolvedValueOnce("Auto").mockResolvedValueOnce("Iterative");
+      ctx.ui.input.mockResolvedValue("lots");
+
+      const result = await runConfigurePhase(makeState(), ctx);
+
+      expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("Invalid budget"), "warning");
+      expect(result.config.budgetUsd).toBeUndefined();
+      expect(result.phase).toBe("execute");
+    });
+  });
+
+  it("shows the resolved review pipeline from config", async () => {
+    const { runConfigurePhase } = await import("./configure.js");
+    const { getConfig } = await import("../../config.js");
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), "configure-"));
+    fs.writeFileSync(path.join(dir, ".superteam.json"), JSON.stringify({
+      review: {
+        required: ["spec"],
+        optional: ["a11y"],
+        profiles: [{ paths: ["src/auth/**"], required: ["security"] }],
+      },
+    }));
+    getConfig(dir, true);
+    const ctx = { ...makeCtx(), cwd: dir };
+    ctx.ui.select.mockResolvedValueOnce("Auto").mockResolvedValueOnce("Iterative");
+
+    await runConfigurePhase(makeState(), ctx);
+
+    const message = ctx.ui.notify.mock.calls.map((c: any[]) => c[0]).find((m: string) => m.startsWith("Review pipeline"));
+    expect(message).toContain("Required: spec");
+    expect(message).toContain("a11y (no a11y-reviewer agent — skipped)");
+    expect(message).toContain("When src/auth/** changes: + security (required)");
+
+    getConfig("/nonexistent-path-for-test", true);
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
 });
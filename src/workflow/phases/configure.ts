@@ -1,9 +1,15 @@
 /**
- * Configure phase — direct ctx.ui dialogs for execution and review settings.
+ * Configure phase — direct ctx.ui dialogs for execution and review settings,
+ * then the resolved review pipeline, a cost/time estimate and an optional workflow budget.
  */
 
 import type { OrchestratorState } from "../orchestrator-state.js";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { getConfig } from "../../config.js";
+import { readHistory } from "../history.js";
+import { estimateWorkflow, formatEstimate, parseBudgetInput, type WorkflowEstimate } from "../estimate.js";
+import { formatReviewPipeline, resolveReviewPipeline } from "../review-pipeline.js";
+import { discoverAgents } from "../../dispatch.js";
 
 type Ctx = ExtensionContext | { cwd: string; hasUI?: boolean; ui?: any };
 
@@ -51,6 +57,38 @@ export async function runConfigurePhase(
 	};
 	state.config.reviewMode = reviewModeMap[reviewModeLabel] || "iterative";
 
+	// 4. Resolved review pipeline
+	const review = getConfig(ctx.cwd).review;
+	try {
+		const installed = new Set(discoverAgents(ctx.cwd, true).agents.map((a) => a.name));
+		ui?.notify?.(formatReviewPipeline(review, installed), "info");
+	} catch {
+		// Non-fatal — execute resolves the pipeline again per task
+	}
+
+	// 5. Estimate + workflow budget
+	let estimate: WorkflowEstimate | undefined;
+	try {
+		const pipeline = resolveReviewPipeline(review);
+		estimate = estimateWorkflow(state.tasks, readHistory(ctx.cwd), pipeline.required.length + pipeline.optional.length);
+		ui?.notify?.(formatEstimate(estimate), "info");
+	} catch {
+		// Non-fatal — configure without an estimate
+	}
+
+	const budgetPrompt = estimate
+		? `Workflow budget in USD (estimate ~$${estimate.costUsd.toFixed(2)}; blank for none)`
+		: "Workflow budget in USD (blank for none)";
+	const budget = parseBudgetInput(await ui?.input?.(budgetPrompt, ""));
+	if (budget.invalid) {
+		ui?.notify?.("Invalid budget — continuing without a workflow budget", "warning");
+	}
+	if (budget.budgetUsd !== undefined) {
+		state.config.budgetUsd = budget.budgetUsd;
+	} else {
+		delete state.config.budgetUsd;
+	}
+
 	// Set defaults
 	if (!state.config.maxPlanReviewCycles) state.config.maxPlanReviewCycles = 3;
 	if (!state.config.maxTaskReviewCycles) state.config.maxTaskReviewCycles = 3;
@@ -9,6 +9,9 @@ vi.mock("../../dispatch.js", () => ({
 	getFinalOutput: vi.fn(),
 	checkCostBudget: vi.fn(),
 	hasWriteToolCalls: vi.fn().mockReturnValue(false),
+	setSubprocessEnv: vi.fn(),
+	PHASE_ENV_VAR: "PI_SUPERTEAM_PHASE",
+	TDD_MODE_ENV_VAR: "PI_SUPERTEAM_TDD_MODE",
 }));
 
 vi.mock("../orchestrator-state.js", async (importOriginal) => {
@@ -21,6 +24,12 @@ vi.mock("../git-utils.js", () => ({
 	computeChangedFiles: vi.fn(),
 	resetToSha: vi.fn(),
 	squashTaskCommits: vi.fn(),
+	cherryPickCommit: vi.fn(),
+}));
+
+vi.mock("../parallel-execution.js", () => ({
+	selectParallelGroup: vi.fn().mockReturnValue([]),
+	implementInWorktrees: vi.fn(),
 }));
 
 vi.mock("../../review-parser.js", async (importOriginal) => {
@@ -44,7 +53,9 @@ vi.mock("../failure-taxonomy.js", () => ({
 		"review-max-retries": "escalate",
 		"validation-failure": "retry-then-escalate",
 		"impl-crash": "retry-then-escalate",
+		"vacuous-test": "escalate",
 	},
+	AUTO_RETRY_LIMITS: { "auto-retry": 2, "retry-then-escalate": 1 },
 }));
 
 vi.mock("../cross-task-validation.js", () => ({
@@ -56,6 +67,14 @@ vi.mock("../test-baseline.js", () => ({
 	captureBaseline: vi.fn(),
 }));
 
+vi.mock("../vacuous-tests.js", () => ({
+	checkVacuousTests: vi.fn(),
+}));
+
+vi.mock("../coverage.js", () => ({
+	runCoverageCheck: vi.fn(),
+}));
+
 vi.mock("../progress.js", () => ({
 	writeProgressFile: vi.fn(),
 	computeProgressSummary: vi.fn(),
@@ -71,7 +90,8 @@ vi.mock("../checkpoint.js", () => ({
 
 import { discoverAgents, dispatchAgent, dispatchParallel, getFinalOutput, checkCostBudget, hasWriteToolCalls } from "../../dispatch.ts";
 import { saveState } from "../orchestrator-state.ts";
-import { getCurrentSha, computeChangedFiles, resetToSha, squashTaskCommits } from "../git-utils.ts";
+import { getCurrentSha, computeChangedFiles, resetToSha, squashTaskCommits, cherryPickCommit } from "../git-utils.ts";
+import { selectParallelGroup, implementInWorktrees } from "../parallel-execution.ts";
 import { parseReviewOutput, hasCriticalFindings } from "../../review-parser.ts";
 import { getConfig } from "../../config.ts";
 import { runExecutePhase, runValidation } from "./execute.ts";
@@ -79,6 +99,8 @@ import { runCrossTaskValidation, shouldRunValidation } from "../cross-task-valid
 import { captureBaseline } from "../test-baseline.ts";
 import { resolveFailureAction } from "../failure-taxonomy.ts";
 import { computeProgressSummary, formatProgressSummary } from "../progress.ts";
+import { checkVacuousTests } from "../vacuous-tests.ts";
+import { runCoverageCheck } from "../coverage.ts";
 import { evaluateCheckpointTriggers, presentCheckpoint, presentPlanRevision, applyPlanAdjustment } from "../checkpoint.ts";
 import type { AgentProfile, DispatchResult, CostCheckResult } from "../../dispatch.ts";
 
@@ -95,6 +117,8 @@ const mockComputeProgressSummary = vi.mocked(computeProgressSummary);
 const mockFormatProgressSummary = vi.mocked(formatProgressSummary);
 
 const mockGetConfig = vi.mocked(getConfig);
+const mockCheckVacuousTests = vi.mocked(checkVacuousTests);
+const mockRunCoverageCheck = vi.mocked(runCoverageCheck);
 
 const mockDiscoverAgents = vi.mocked(discoverAgents);
 const mockDispatchAgent = vi.mocked(dispatchAgent);
@@ -106,6 +130,9 @@ const mockGetCurrentSha = vi.mocked(getCurrentSha);
 const mockComputeChangedFiles = vi.mocked(computeChangedFiles);
 const mockResetToSha = vi.mocked(resetToSha);
 const mockSquashTaskCommits = vi.mocked(squashTaskCommits);
+const mockCherryPickCommit = vi.mocked(cherryPickCommit);
+const mockSelectParallelGroup = vi.mocked(selectParallelGroup);
+const mockImplementInWorktrees = vi.mocked(implementInWorktrees);
 const mockParseReviewOutput = vi.mocked(parseReviewOutput);
 const mockHasCriticalFindings = vi.mocked(hasCriticalFindings);
 
@@ -183,14 +210,18 @@ function setupDefaultMocks() {
 	mockGetConfig.mockReturnValue({ validationCommand: "", testCommand: "", validationCadence: "every", validationInterval: 3 } as any);
 	mockShouldRunValidation.mockReturnValue(false);
 	mockEvaluateCheckpointTriggers.mockReturnValue([]);
-	mockResolveFailureAction.mockImplementation((type) => {
+	mockSelectParallelGroup.mockReturnValue([]);
+	mockResolveFailureAction.mockImplementation((type, overrides) => {
 		const defaults: Record<string, string> = {
+			"parse-error": "auto-retry",
 			"test-regression": "stop-show-diff",
 			"test-flake": "warn-continue",
+			"tool-timeout": "retry-then-escalate",
+			"budget-threshold": "checkpoint",
 			"validation-failure": "retry-then-escalate",
 			"impl-crash": "retry-then-escalate",
 		};
-		return (defaults[type] || "escalate") as any;
+		return (overrides?.[type] || defaults[type] || "escalate") as any;
 	});
 }
 
@@ -301,9 +332,11 @@ describe("runExecutePhase", () => {
 			expect(mockDispatchAgent.mock.calls[0][1]).toContain("Task 1");
 		});
 
-		it("escalates when implementer fails (exit code != 0)", async () => {
+		it("escalates when implementer fails (exit code != 0) after one automatic retry", async () => {
 			setupDefaultMocks();
-			mockDispatchAgent.mockResolvedValueOnce(makeResult({ exitCode: 1, errorMessage: "compilation error" }));
+			mockDispatchAgent
+				.mockResolvedValueOnce(makeResult({ exitCode: 1, errorMessage: "compilation error" }))
+				.mockResolvedValueOnce(makeResult({ exitCode: 1, errorMessage: "compilation error" }));
 			const ctx = makeCtx();
 			ctx.ui.select.mockResolvedValue("Skip");
 			const state = makeState();
@@ -315,6 +348,22 @@ describe("runExecutePhase", () => {
 			expect(result.tasks[0].status).toBe("skipped");
 		});
 
+		it("keeps the first attempt's base SHA when the user retries", async () => {
+			setupDefaultMocks();
+			mockGetCurrentSha.mockResolvedValueOnce("base-sha").mockResolvedValue("partial-sha");
+			mockDispatchAgent
+				.mockResolvedValueOnce(makeResult({ exitCode: 1, errorMessage: "compilation error" }))
+				.mockResolvedValueOnce(makeResult({ exitCode: 1, errorMessage: "compilation error" }));
+			const ctx = makeCtx();
+			ctx.ui.select.mockResolvedValueOnce("Retry");
+			const result = await runExecutePhase(makeState(), ctx);
+
+			expect(result.tasks[0].status).toBe("complete");
+			expect(result.tasks[0].gitShaBeforeImpl).toBe("base-sha");
+			expect(mockComputeChangedFiles).toHaveBeenCalledWith("/fake/project", "base-sha");
+			expect(mockSquashTaskCommits).toHaveBeenCalledWith("/fake/project", "base-sha", 1, "Task 1");
+		});
+
 		it("accumulates cost from implementer dispatch", async () => {
 			setupDefaultMocks();
 			mockDispatchAgent.mockResolvedValue(makeResult({ usage: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0.05, contextTokens: 0, turns: 0 } }));
@@ -326,6 +375,79 @@ describe("runExecutePhase", () => {
 		});
 	});
 
+	// --- Parallel worktree execution ---
+
+	describe("parallel worktree execution", () => {
+		function setupParallel() {
+			setupDefaultMocks();
+			mockGetConfig.mockReturnValue({ validationCommand: "", testCommand: "", maxParallelTasks: 2 } as any);
+			mockSelectParallelGroup.mockImplementation((tasks, start) => start === 0 ? tasks.slice(0, 2) : []);
+			mockImplementInWorktrees.mockImplementation(async (group) => {
+				for (const t of group) t.worktreeCommitSha = `wt-${t.id}`;
+				return group.map((t) => ({ taskId: t.id, commitSha: `wt-${t.id}`, costUsd: 0.5 }));
+			});
+			mockCherryPickCommit.mockImplementation(async (_cwd, sha) => ({ success: true, sha: `merged-${sha}`, conflictFiles: [] }));
+		}
+
+		function twoTasks() {
+			return [
+				makeTask({ id: 1, title: "Task 1", files: ["src/a.ts"] }),
+				makeTask({ id: 2, title: "Task 2", files: ["src/b.ts"] }),
+			];
+		}
+
+		it("does not group tasks when maxParallelTasks is 1", async () => {
+			setupDefaultMocks();
+			const state = makeState({ tasks: twoTasks() });
+			await runExecutePhase(state, fakeCtx);
+			expect(mockImplementInWorktrees).not.toHaveBeenCalled();
+		});
+
+		it("merges each worktree commit instead of dispatching the implementer", async () => {
+			setupParallel();
+			const state = makeState({ tasks: twoTasks() });
+			const result = await runExecutePhase(state, fakeCtx);
+
+			expect(mockImplementInWorktrees).toHaveBeenCalledTimes(1);
+			expect(mockCherryPickCommit).toHaveBeenCalledWith("/fake/project", "wt-1");
+			expect(mockCherryPickCommit).toHaveBeenCalledWith("/fake/project", "wt-2");
+			const implCalls = mockDispatchAgent.mock.calls.filter((c) => c[0].name === "implementer");
+			expect(implCalls).toHaveLength(0);
+			expect(result.tasks.every((t) => t.status === "complete")).toBe(true);
+			expect(result.tasks.every((t) => t.worktreeCommitSha === undefined)).toBe(true);
+			expect(result.totalCostUsd).toBeGreaterThanOrEqual(1.0);
+		});
+
+		it("escalates merge conflicts and re-implements sequentially on retry", async () => {
+			setupParallel();
+			mockCherryPickCommit.mockImplementation(async (_cwd, sha) => sha === "wt-2"
+				? { success: false, sha: "", conflictFiles: ["src/shared.ts"], error: "conflict" }
+				: { success: true, sha: "merged", conflictFiles: [] });
+			const ctx = makeCtx();
+			ctx.ui.select.mockResolvedValueOnce("Retry");
+			const state = makeState({ tasks: twoTasks() });
+			const result = await runExecutePhase(state, ctx);
+
+			expect(ctx.ui.select.mock.calls[0][0]).toContain("src/shared.ts");
+			const implCalls = mockDispatchAgent.mock.calls.filter((c) => c[0].name === "implementer");
+			expect(implCalls).toHaveLength(1);
+			expect(implCalls[0][1]).toContain("Task 2");
+			expect(result.tasks[1].status).toBe("complete");
+		});
+
+		it("skips the task when the user chooses Skip on a merge conflict", async () => {
+			setupParallel();
+			mockCherryPickCommit.mockResolvedValue({ success: false, sha: "", conflictFiles: ["src/a.ts"], error: "conflict" });
+			const ctx = makeCtx();
+			ctx.ui.select.mockResolvedValue("Skip");
+			const state = makeState({ tasks: twoTasks() });
+			const result = await runExecutePhase(state, ctx);
+
+			expect(result.tasks[0].status).toBe("skipped");
+			expect(result.tasks[1].status).toBe("skipped");
+		});
+	});
+
 	// --- Spec review ---
 
 	describe("spec review", () => {
@@ -536,6 +658,73 @@ describe("runExecutePhase", () => {
 		});
 	});
 
+	// --- Configured review pipeline ---
+
+	describe("review pipeline from config", () => {
+		const reviewAgents = [
+			makeAgent("implementer"), makeAgent("spec-reviewer"), makeAgent("quality-reviewer"),
+			makeAgent("a11y-reviewer"), makeAgent("security-reviewer"), makeAgent("performance-reviewer"),
+		];
+
+		it("runs config.review.required reviewers, including custom agents, in the review loop", async () => {
+			setupDefaultMocks();
+			mockDiscoverAgents.mockReturnValue({ agents: reviewAgents, projectAgentsDir: null });
+			mockGetConfig.mockReturnValue({
+				validationCommand: "", testCommand: "", validationCadence: "every", validationInterval: 3,
+				review: { required: ["spec", "a11y"], optional: [], parallelOptional: true, profiles: [] },
+			} as any);
+
+			const result = await runExecutePhase(makeState(), fakeCtx);
+
+			expect(mockDispatchParallel).toHaveBeenCalledTimes(1);
+			const [agents, prompts] = mockDispatchParallel.mock.calls[0];
+			expect(agents.map((a: AgentProfile) => a.name)).toEqual(["spec-reviewer", "a11y-reviewer"]);
+			expect(prompts[1]).toContain("## A11y review for: Task 1");
+			expect(result.tasks[0].reviewsPassed).toEqual(["spec", "a11y"]);
+		});
+
+		it("adds profile reviewers when the task changes matching paths", async () => {
+			setupDefaultMocks();
+			mockDiscoverAgents.mockReturnValue({ agents: reviewAgents, projectAgentsDir: null });
+			mockComputeChangedFiles.mockResolvedValue(["src/auth/session.ts"]);
+			mockDispatchParallel.mockResolvedValue([makeResult(), makeResult(), makeResult()]);
+			mockGetConfig.mockReturnValue({
+				validationCommand: "", testCommand: "", validationCadence: "every", validationInterval: 3,
+				review: {
+					required: ["spec", "quality"], optional: ["security"], parallelOptional: true,
+					profiles: [{ paths: ["src/auth/**"], required: ["security"] }, { paths: ["src/ui/**"], required: ["a11y"] }],
+				},
+			} as any);
+
+			const ctx = makeCtx();
+			const result = await runExecutePhase(makeState(), ctx);
+
+			const [agents] = mockDispatchParallel.mock.calls[0];
+			expect(agents.map((a: AgentProfile) => a.name)).toEqual(["spec-reviewer", "quality-reviewer", "security-reviewer"]);
+			// security moved from optional to required — no separate optional round
+			expect(mockDispatchParallel).toHaveBeenCalledTimes(1);
+			expect(ctx.ui.notify).toHaveBeenCalledWith("Task 1: review profile src/auth/** applies", "info");
+			expect(result.tasks[0].reviewsPassed).toContain("security");
+		});
+
+		it("runs optional reviewers one at a time when parallelOptional is false", async () => {
+			setupDefaultMocks();
+			mockDiscoverAgents.mockReturnValue({ agents: reviewAgents, projectAgentsDir: null });
+			mockHasCriticalFindings.mockReturnValue(false);
+			mockGetConfig.mockReturnValue({
+				validationCommand: "", testCommand: "", validationCadence: "every", validationInterval: 3,
+				review: { required: ["spec", "quality"], optional: ["security", "performance"], parallelOptional: false, profiles: [] },
+			} as any);
+
+			const result = await runExecutePhase(makeState(), fakeCtx);
+
+			expect(mockDispatchParallel).toHaveBeenCalledTimes(1);
+			const sequential = mockDispatchAgent.mock.calls.map((c) => c[0].name).filter((n) => n.endsWith("-reviewer"));
+			expect(sequential).toEqual(["security-reviewer", "performance-reviewer"]);
+			expect(result.tasks[0].reviewsPassed).toEqual(expect.arrayContaining(["security-reviewer", "performance-reviewer"]));
+		});
+	});
+
 	// --- Parallel reviews (D4) ---
 
 	describe("parallel reviews (D4)", () => {
@@ -821,6 +1010,46 @@ describe("runExecutePhase", () => {
 		});
 	});
 
+	// --- Task dependencies ---
+
+	describe("task dependencies", () => {
+		it("runs tasks in dependency order rather than plan order", async () => {
+			setupDefaultMocks();
+			const state = makeState({
+				tasks: [
+					makeTask({ id: 1, title: "Task 1", dependsOn: [2] }),
+					makeTask({ id: 2, title: "Task 2", status: "pending" }),
+				],
+			});
+			const result = await runExecutePhase(state, fakeCtx);
+
+			const implPrompts = mockDispatchAgent.mock.calls
+				.filter(c => c[0].name === "implementer")
+				.map(c => c[1] as string);
+			expect(implPrompts[0]).toContain("Task 2");
+			expect(implPrompts[1]).toContain("Task 1");
+			expect(result.tasks.every(t => t.status === "complete")).toBe(true);
+			expect(result.phase).toBe("finalize");
+		});
+
+		it("skips tasks whose dependency was skipped", async () => {
+			setupDefaultMocks();
+			const state = makeState({
+				tasks: [
+					makeTask({ id: 1, title: "Task 1", status: "skipped" }),
+					makeTask({ id: 2, title: "Task 2", status: "pending", dependsOn: [1] }),
+					makeTask({ id: 3, title: "Task 3", status: "pending" }),
+				],
+			});
+			const result = await runExecutePhase(state, fakeCtx);
+
+			expect(result.tasks[1].status).toBe("skipped");
+			expect(result.tasks[2].status).toBe("complete");
+			expect(fakeCtx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("Task 2 skipped"), "warning");
+			expect(result.phase).toBe("finalize");
+		});
+	});
+
 	// --- Changed files refresh after fix ---
 
 	describe("changed files refresh", () => {
@@ -943,13 +1172,13 @@ describe("runExecutePhase", () => {
 			});
 			const ctx = makeCtx();
 
-			// First impl fails, user selects Rollback, second impl (retry) succeeds,
-			// then remaining dispatches succeed
+			// Impl fails twice (automatic retry, then escalation), user selects Rollback,
+			// third impl succeeds, then remaining dispatches succeed
 			let implCallCount = 0;
 			mockDispatchAgent.mockImplementation(async (agent) => {
 				if (agent.name === "implementer") {
 					implCallCount++;
-					if (implCallCount === 1) {
+					if (implCallCount <= 2) {
 						return makeResult({ exitCode: 1, errorMessage: "Failed" });
 					}
 				}
@@ -1001,12 +1230,12 @@ describe("runExecutePhase", () => {
 			mockResetToSha.mockResolvedValue(true);
 			mockComputeChangedFiles.mockResolvedValue(["src/changed.ts", "src/other.ts"]);
 
-			// First impl fails → Rollback → retry succeeds
+			// Impl fails twice (automatic retry, then escalation) → Rollback → retry succeeds
 			let implCallCount = 0;
 			mockDispatchAgent.mockImplementation(async (agent) => {
 				if (agent.name === "implementer") {
 					implCallCount++;
-					if (implCallCount === 1) return makeResult({ exitCode: 1, errorMessage: "Failed" });
+					if (implCallCount <= 2) return makeResult({ exitCode: 1, errorMessage: "Failed" });
 				}
 				return makeResult();
 			});
@@ -1168,6 +1397,7 @@ describe("runExecutePhase", () => {
 			mockGetConfig.mockReturnValue({
 				validationCommand: "",
 				testCommand: "npx vitest run",
+				testOutputFormat: "auto",
 				validationCadence: "every",
 				validationInterval: 3,
 			} as any);
@@ -1189,7 +1419,7 @@ describe("runExecutePhase", () => {
 			const state = makeState();
 			const result = await runExecutePhase(state, fakeCtx);
 
-			expect(mockCaptureBaseline).toHaveBeenCalledWith("npx vitest run", fakeCtx.cwd);
+			expect(mockCaptureBaseline).toHaveBeenCalledWith("npx vitest run", fakeCtx.cwd, "auto");
 			expect(result.tasks[0].status).toBe("complete");
 		});
 
@@ -1328,6 +1558,8 @@ describe("runExecutePhase", () => {
 	// --- Failure taxonomy integration ---
 
 	describe("failure taxonomy integration", () => {
+		const failureActions = { "test-flake": "ignore" as const };
+
 		it("calls resolveFailureAction for test-regression on cross-task validation failure", async () => {
 			setupDefaultMocks();
 			mockGetConfig.mockReturnValue({
@@ -1335,6 +1567,7 @@ describe("runExecutePhase", () => {
 				testCommand: "npx vitest run",
 				validationCadence: "every",
 				validationInterval: 3,
+				failureActions,
 			} as any);
 			mockShouldRunValidation.mockReturnValue(true);
 			mockCaptureBaseline.mockResolvedValue({
@@ -1357,7 +1590,7 @@ describe("runExecutePhase", () => {
 			const state = makeState();
 			await runExecutePhase(state, ctx);
 
-			expect(mockResolveFailureAction).toHaveBeenCalledWith("test-regression");
+			expect(mockResolveFailureAction).toHaveBeenCalledWith("test-regression", failureActions);
 		});
 
 		it("calls resolveFailureAction for test-flake and warns when action is warn-continue", async () => {
@@ -1367,6 +1600,7 @@ describe("runExecutePhase", () => {
 				testCommand: "npx vitest run",
 				validationCadence: "every",
 				validationInterval: 3,
+				failureActions,
 			} as any);
 			mockShouldRunValidation.mockReturnValue(true);
 			mockCaptureBaseline.mockResolvedValue({
@@ -1389,13 +1623,13 @@ describe("runExecutePhase", () => {
 			const state = makeState();
 			const result = await runExecutePhase(state, ctx);
 
-			expect(mockResolveFailureAction).toHaveBeenCalledWith("test-flake");
+			expect(mockResolveFailureAction).toHaveBeenCalledWith("test-flake", failureActions);
 			expect(result.tasks[0].status).toBe("complete");
 		});
 
 		it("calls resolveFailureAction for validation-failure on validation gate failure", async () => {
 			setupDefaultMocks();
-			mockGetConfig.mockReturnValue({ validationCommand: "false", testCommand: "", validationCadence: "every", validationInterval: 3 } as any);
+			mockGetConfig.mockReturnValue({ validationCommand: "false", testCommand: "", validationCadence: "every", validationInterval: 3, failureActions } as any);
 			mockResolveFailureAction.mockReturnValue("retry-then-escalate");
 
 			const ctx = makeCtx("/tmp");
@@ -1403,7 +1637,301 @@ describe("runExecutePhase", () => {
 			const state = makeState();
 			await runExecutePhase(state, ctx);
 
-			expect(mockResolveFailureAction).toHaveBeenCalledWith("validation-failure");
+			expect(mockResolveFailureAction).toHaveBeenCalledWith("validation-failure", failureActions);
+		});
+	});
+
+	// --- Vacuous test check ---
+
+	describe("vacuous test check", () => {
+		const vacuous = { testFiles: ["src/a.test.ts"], implFiles: ["src/a.ts"], vacuous: ["src/a.test.ts"] };
+		const sound = { ...vacuous, vacuous: [] };
+
+		function enableCheck(failureActions = {}) {
+			mockGetConfig.mockReturnValue({
+				validationCommand: "", testCommand: "npx vitest run", validationCadence: "every", validationInterval: 3,
+				vacuousTestCheck: true, failureActions,
+			} as any);
+		}
+
+		it("does not run unless vacuousTestCheck is enabled", async () => {
+			setupDefaultMocks();
+			await runExecutePhase(makeState(), makeCtx());
+			expect(mockCheckVacuousTests).not.toHaveBeenCalled();
+		});
+
+		it("completes the task when its tests fail without the implementation", async () => {
+			setupDefaultMocks();
+			enableCheck();
+			mockCheckVacuousTests.mockResolvedValue(sound);
+
+			const result = await runExecutePhase(makeState(), makeCtx());
+
+			expect(mockCheckVacuousTests).toHaveBeenCalledWith("/fake/project", "abc123", expect.objectContaining({ vacuousTestCheck: true }));
+			expect(result.tasks[0].status).toBe("complete");
+		});
+
+		it("escalates vacuous tests as a vacuous-test failure", async () => {
+			setupDefaultMocks();
+			enableCheck();
+			mockCheckVacuousTests.mockResolvedValue(vacuous);
+			const ctx = makeCtx();
+			ctx.ui.select.mockResolvedValue("Skip");
+
+			const result = await runExecutePhase(makeState(), ctx);
+
+			expect(mockResolveFailureAction).toHaveBeenCalledWith("vacuous-test", {});
+			expect(ctx.ui.select).toHaveBeenCalledWith(
+				expect.stringContaining("Tests still pass with the task's implementation reverted: src/a.test.ts"),
+				expect.any(Array),
+			);
+			expect(result.tasks[0].status).toBe("skipped");
+			expect(mockSquashTaskCommits).not.toHaveBeenCalled();
+		});
+
+		it("on auto-retry asks the implementer to fix the tests and checks again", async () => {
+			setupDefaultMocks();
+			enableCheck({ "vacuous-test": "auto-retry" });
+			mockCheckVacuousTests.mockResolvedValueOnce(vacuous).mockResolvedValueOnce(sound);
+
+			const result = await runExecutePhase(makeState(), makeCtx());
+
+			expect(mockCheckVacuousTests).toHaveBeenCalledTimes(2);
+			const fixPrompt = mockDispatchAgent.mock.calls.at(-1)![1];
+			expect(fixPrompt).toContain("still pass when the task's implementation is reverted");
+			expect(fixPrompt).toContain("- src/a.test.ts");
+			expect(result.tasks[0].failureRetries).toEqual({ "vacuous-test": 1 });
+			expect(result.tasks[0].status).toBe("complete");
+		});
+	});
+
+	// --- Coverage-aware GREEN check ---
+
+	describe("coverage check", () => {
+		const coverageReport = { command: "npx vitest run --coverage", path: "coverage/lcov.info" };
+		const uncovered = {
+			findings: [{ severity: "medium" as const, file: "src/a.ts", line: 12, issue: "Added lines 12–14 are not covered by any test" }],
+			checkedFiles: ["src/a.ts"],
+		};
+		const covered = { findings: [], checkedFiles: ["src/a.ts"] };
+
+		function enableCoverage() {
+			mockGetConfig.mockReturnValue({
+				validationCommand: "", testCommand: "", validationCadence: "every", validationInterval: 3, coverageReport,
+			} as any);
+		}
+
+		it("does not run unless coverageReport is configured", async () => {
+			setupDefaultMocks();
+			await runExecutePhase(makeState(), makeCtx());
+			expect(mockRunCoverageCheck).not.toHaveBeenCalled();
+		});
+
+		it("sends uncovered added lines through the fix loop as coverage findings", async () => {
+			setupDefaultMocks();
+			enableCoverage();
+			mockRunCoverageCheck.mockResolvedValueOnce(uncovered).mockResolvedValueOnce(covered);
+
+			const result = await runExecutePhase(makeState(), makeCtx());
+
+			expect(mockRunCoverageCheck).toHaveBeenCalledWith("/fake/project", "abc123", coverageReport, expect.objectContaining({ coverageReport }));
+			const fixPrompt = mockDispatchAgent.mock.calls.at(-1)![1];
+			expect(fixPrompt).toContain("Review: coverage — FAILED");
+			expect(fixPrompt).toContain("[MEDIUM] src/a.ts:12: Added lines 12–14 are not covered by any test");
+			expect(result.tasks[0].reviewsFailed).toEqual(["coverage"]);
+			expect(result.tasks[0].reviewsPassed).toContain("coverage");
+			expect(result.tasks[0].status).toBe("complete");
+		});
+
+		it("runs even when no required reviewer agent is installed", async () => {
+			setupDefaultMocks();
+			enableCoverage();
+			mockDiscoverAgents.mockReturnValue({ agents: [makeAgent("implementer")], projectAgentsDir: null });
+			mockRunCoverageCheck.mockResolvedValue(covered);
+
+			const result = await runExecutePhase(makeState(), makeCtx());
+
+			expect(mockDispatchParallel).not.toHaveBeenCalled();
+			expect(mockRunCoverageCheck).toHaveBeenCalledTimes(1);
+			expect(result.tasks[0].reviewsPassed).toContain("coverage");
+			expect(result.tasks[0].status).toBe("complete");
+		});
+
+		it("notifies and carries on when the check is skipped", async () => {
+			setupDefaultMocks();
+			enableCoverage();
+			mockRunCoverageCheck.mockResolvedValue({ findings: [], checkedFiles: [], skipped: "couldn't read coverage report coverage/lcov.info: ENOENT" });
+			const ctx = makeCtx();
+
+			const result = await runExecutePhase(makeState(), ctx);
+
+			expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("coverage check skipped — couldn't read coverage report"), "info");
+			expect(result.tasks[0].reviewsPassed).not.toContain("coverage");
+			expect(result.tasks[0].status).toBe("complete");
+		});
+	});
+
+	// --- failureActions routing ---
+
+	describe("failureActions routing", () => {
+		const failingImpl = () => makeResult({ exitCode: 1, errorMessage: "compilation error" });
+		const failReview = {
+			status: "fail" as const,
+			findings: { passed: false, findings: [{ severity: "high" as const, file: "a.ts", issue: "bad" }], mustFix: ["fix"], summary: "fail" },
+		};
+
+		function withFailureActions(failureActions: Record<string, string>, extra: Record<string, unknown> = {}) {
+			mockGetConfig.mockReturnValue({
+				validationCommand: "", testCommand: "", validationCadence: "every", validationInterval: 3,
+				failureActions, ...extra,
+			} as any);
+		}
+
+		it("auto-retry re-dispatches a crashed implementer twice before escalating", async () => {
+			setupDefaultMocks();
+			withFailureActions({ "impl-crash": "auto-retry" });
+			mockDispatchAgent
+				.mockResolvedValueOnce(failingImpl())
+				.mockResolvedValueOnce(failingImpl());
+
+			const ctx = makeCtx();
+			const result = await runExecutePhase(makeState(), ctx);
+
+			expect(ctx.ui.select).not.toHaveBeenCalled();
+			expect(result.tasks[0].status).toBe("complete");
+			expect(result.tasks[0].failureRetries).toEqual({ "impl-crash": 2 });
+		});
+
+		it("escalate override asks the user on the first implementer crash", async () => {
+			setupDefaultMocks();
+			withFailureActions({ "impl-crash": "escalate" });
+			mockDispatchAgent.mockResolvedValueOnce(failingImpl());
+
+			const ctx = makeCtx();
+			ctx.ui.select.mockResolvedValue("Skip");
+			const result = await runExecutePhase(makeState(), ctx);
+
+			expect(ctx.ui.select).toHaveBeenCalledTimes(1);
+			expect(mockDispatchAgent.mock.calls.filter(c => c[0].name === "implementer")).toHaveLength(1);
+			expect(result.tasks[0].status).toBe("skipped");
+		});
+
+		it("checkpoint pauses the workflow with the task pending", async () => {
+			setupDefaultMocks();
+			withFailureActions({ "impl-crash": "checkpoint" });
+			mockDispatchAgent.mockResolvedValueOnce(failingImpl());
+
+			const ctx = makeCtx();
+			const result = await runExecutePhase(makeState(), ctx);
+
+			expect(ctx.ui.select).not.toHaveBeenCalled();
+			expect(result.phase).toBe("execute");
+			expect(result.error).toBeUndefined();
+			expect(result.tasks[0].status).toBe("pending");
+			expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("paused at checkpoint"), "warning");
+		});
+
+		it("checkpoint stops runWorkflowLoop instead of re-dispatching the task", async () => {
+			const { runWorkflowLoop } = await import("../orchestrator.ts");
+			setupDefaultMocks();
+			withFailureActions({ "impl-crash": "checkpoint" });
+			// Every implementer run crashes — re-entering execute would dispatch it again
+			mockDispatchAgent.mockResolvedValue(failingImpl());
+
+			const ctx = makeCtx();
+			const result = await runWorkflowLoop(makeState({ gitStartingSha: "abc123" }), ctx);
+
+			expect(mockDispatchAgent.mock.calls.filter(c => c[0].name === "implementer")).toHaveLength(1);
+			expect(result.paused).toBe(true);
+			expect(result.tasks[0].status).toBe("pending");
+			expect(ctx.ui.notify).toHaveBeenCalledWith("Workflow paused. Use /workflow to resume.", "info");
+			expect(ctx.ui.setWidget).toHaveBeenCalledWith("workflow-progress", undefined);
+		});
+
+		it("classifies implementer timeouts as tool-timeout", async () => {
+			setupDefaultMocks();
+			withFailureActions({ "tool-timeout": "ignore" });
+			mockDispatchAgent.mockResolvedValueOnce(makeResult({ exitCode: 1, errorMessage: "Request timed out" }));
+
+			const result = await runExecutePhase(makeState(), makeCtx());
+
+			expect(mockResolveFailureAction).toHaveBeenCalledWith("tool-timeout", { "tool-timeout": "ignore" });
+			expect(result.tasks[0].status).toBe("complete");
+		});
+
+		it("escalates validation failures without an auto-fix when the action is escalate", async () => {
+			setupDefaultMocks();
+			withFailureActions({ "validation-failure": "escalate" }, { validationCommand: "false" });
+
+			const ctx = makeCtx("/tmp");
+			ctx.ui.select.mockResolvedValue("Skip");
+			const result = await runExecutePhase(makeState(), ctx);
+
+			expect(mockDispatchAgent.mock.calls.filter(c => c[0].name === "implementer")).toHaveLength(1);
+			expect(ctx.ui.select.mock.calls[0][0]).toContain("Validation failed");
+			expect(result.tasks[0].status).toBe("skipped");
+		});
+
+		it("re-runs inconclusive reviews automatically for parse-error auto-retry", async () => {
+			setupDefaultMocks();
+			withFailureActions({});
+			const inconclusive = { status: "inconclusive" as const, rawOutput: "garbage", parseError: "no JSON" };
+			mockParseReviewOutput
+				.mockReturnValueOnce(inconclusive)
+				.mockReturnValueOnce(inconclusive);
+
+			const ctx = makeCtx();
+			const result = await runExecutePhase(makeState(), ctx);
+
+			expect(ctx.ui.select).not.toHaveBeenCalled();
+			expect(mockDispatchParallel).toHaveBeenCalledTimes(2);
+			expect(result.tasks[0].fixAttempts).toBe(0);
+			expect(result.tasks[0].status).toBe("complete");
+		});
+
+		it("completes the task when review-max-retries is warn-continue", async () => {
+			setupDefaultMocks();
+			withFailureActions({ "review-max-retries": "warn-continue" });
+			mockParseReviewOutput.mockReturnValue(failReview);
+
+			const ctx = makeCtx();
+			const result = await runExecutePhase(makeState(), ctx);
+
+			expect(ctx.ui.select).not.toHaveBeenCalled();
+			expect(ctx.ui.notify).toHaveBeenCalledWith(expect.stringContaining("Reviews failed after 3 attempts"), "warning");
+			expect(result.tasks[0].status).toBe("complete");
+		});
+
+		it("runs another round of fixes when review-max-retries is auto-retry", async () => {
+			setupDefaultMocks();
+			withFailureActions({ "review-max-retries": "auto-retry" });
+			mockParseReviewOutput.mockReturnValue(failReview);
+
+			const ctx = makeCtx();
+			ctx.ui.select.mockResolvedValue("Skip");
+			const state = makeState({
+				config: {
+					tddMode: "tdd", reviewMode: "iterative", executionMode: "auto",
+					batchSize: 3, maxPlanReviewCycles: 3, maxTaskReviewCycles: 2,
+				},
+			});
+			const result = await runExecutePhase(state, ctx);
+
+			// 2 review rounds per cycle × 3 cycles (initial + 2 automatic retries)
+			expect(mockDispatchParallel).toHaveBeenCalledTimes(6);
+			expect(ctx.ui.select).toHaveBeenCalledTimes(1);
+			expect(result.tasks[0].status).toBe("skipped");
+		});
+
+		it("drops budget checkpoints when budget-threshold is ignore", async () => {
+			setupDefaultMocks();
+			withFailureActions({ "budget-threshold": "ignore" });
+			mockEvaluateCheckpointTriggers.mockReturnValue([{ type: "budget-warning", message: "Budget warning" }]);
+
+			const result = await runExecutePhase(makeState(), makeCtx());
+
+			expect(mockPresentCheckpoint).not.toHaveBeenCalled();
+			expect(result.lastBudgetCheckpointCostUsd).toBe(result.totalCostUsd);
 		});
 	});
 
@@ -1426,6 +1954,12 @@ describe("runExecutePhase", () => {
 			expect(result.success).toBe(true);
 		});
 
+		it("reports timeouts separately from failures", async () => {
+			const result = await runValidation("sleep 5", "/tmp", 100);
+			expect(result.success).toBe(false);
+			expect(result.timedOut).toBe(true);
+		});
+
 		it("returns failure for a nonexistent command", async () => {
 			const result = await runValidation("nonexistent_command_xyz_12345", "/tmp");
 			expect(result.success).toBe(false);
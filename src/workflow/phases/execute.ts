@@ -1,16 +1,21 @@
 import type { OrchestratorState, TaskExecState } from "../orchestrator-state.js";
-import { saveState } from "../orchestrator-state.js";
-import { buildImplPrompt, buildFixPrompt, buildSpecReviewPrompt, buildQualityReviewPrompt, extractPlanContext } from "../prompt-builder.js";
-import { getCurrentSha, computeChangedFiles, resetToSha, squashTaskCommits } from "../git-utils.js";
-import { discoverAgents, dispatchAgent, dispatchParallel, getFinalOutput, checkCostBudget, hasWriteToolCalls, type AgentProfile, type OnStreamEvent } from "../../dispatch.js";
+import { saveState, recordCost } from "../orchestrator-state.js";
+import { buildImplPrompt, buildFixPrompt, buildReviewPrompt, extractPlanContext } from "../prompt-builder.js";
+import { getCurrentSha, computeChangedFiles, resetToSha, squashTaskCommits, cherryPickCommit } from "../git-utils.js";
+import { discoverAgents, dispatchAgent, dispatchParallel, getFinalOutput, checkCostBudget, hasWriteToolCalls, type AgentProfile, type DispatchResult, type OnStreamEvent } from "../../dispatch.js";
 import { parseReviewOutput, formatFindings, hasCriticalFindings, type ReviewFindings, type ParseResult } from "../../review-parser.js";
 import { formatToolAction, formatTaskProgress, createActivityBuffer } from "../ui.js";
 import { computeProgressSummary, formatProgressSummary } from "../progress.js";
-import { getConfig } from "../../config.js";
+import { getConfig, type CoverageReportConfig, type SuperteamConfig } from "../../config.js";
 import { runCrossTaskValidation, shouldRunValidation } from "../cross-task-validation.js";
 import { captureBaseline } from "../test-baseline.js";
-import { resolveFailureAction } from "../failure-taxonomy.js";
+import { resolveFailureAction, AUTO_RETRY_LIMITS, type FailureAction, type FailureType } from "../failure-taxonomy.js";
 import { evaluateCheckpointTriggers, presentCheckpoint, presentPlanRevision, applyPlanAdjustment } from "../checkpoint.js";
+import { selectParallelGroup, implementInWorktrees } from "../parallel-execution.js";
+import { nextRunnableTaskIndex } from "../task-graph.js";
+import { resolveReviewPipeline, reviewerAgentName } from "../review-pipeline.js";
+import { checkVacuousTests } from "../vacuous-tests.js";
+import { runCoverageCheck } from "../coverage.js";
 import { execFile as execFileCb } from "node:child_process";
 import { promisify } from "node:util";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
@@ -19,14 +24,33 @@ const execFileAsync = promisify(execFileCb);
 
 type AgentMap = Map<string, AgentProfile>;
 type Ctx = ExtensionContext | { cwd: string; hasUI?: boolean; ui?: any };
-
-/** Run a validation command. Returns { success, error? }. Exported for testing. */
-export async function runValidation(command: string, cwd: string): Promise<{ success: boolean; error?: string }> {
+type FailureOverrides = Partial<Record<FailureType, FailureAction>>;
+
+/**
+ * Outcome of handling a failure through the taxonomy:
+ * - proceed: carry on as if the step succeeded (ignore / warn-continue)
+ * - auto-retry: re-run the failing step automatically
+ * - retry / skip / abort: the user's escalation choice
+ * - pause: the task is left pending at a checkpoint
+ */
+type FailureDecision = "proceed" | "auto-retry" | "retry" | "skip" | "abort" | "pause";
+
+const TIMEOUT_RE = /timed? ?out|timeout/i;
+
+/** Run a validation command. Returns { success, error?, timedOut? }. Exported for testing. */
+export async function runValidation(
+	command: string,
+	cwd: string,
+	timeoutMs = 60_000,
+): Promise<{ success: boolean; error?: string; timedOut?: boolean }> {
 	if (!command) return { success: true };
 	try {
-		await execFileAsync("bash", ["-c", command], { cwd, timeout: 60_000 });
+		await execFileAsync("bash", ["-c", command], { cwd, timeout: timeoutMs });
 		return { success: true };
 	} catch (err: any) {
+		if (err.killed && err.signal === "SIGTERM") {
+			return { success: false, error: `Command timed out after ${timeoutMs / 1000}s`, timedOut: true };
+		}
 		const stderr = err.stderr || err.message || "unknown error";
 		return { success: false, error: String(stderr).slice(0, 500) };
 	}
@@ -69,13 +93,6 @@ export async function runExecutePhase(
 	for (const a of agents) agentMap.set(a.name, a);
 
 	const implementer = agentMap.get("implementer");
-	const specReviewer = agentMap.get("spec-reviewer");
-	const qualityReviewer = agentMap.get("quality-reviewer");
-
-	const optionalReviewerNames = ["security-reviewer", "performance-reviewer"];
-	const optionalReviewers = optionalReviewerNames
-		.map(name => agentMap.get(name))
-		.filter((a): a is AgentProfile => a !== undefined);
 
 	// 2. Extract plan context
 	const planContext = extractPlanContext(state.planContent || "");
@@ -99,12 +116,14 @@ export async function runExecutePhase(
 	};
 
 	// 4b. Capture test baseline if testCommand configured
+	const phaseConfig = getConfig(ctx.cwd);
+	const maxParallel = phaseConfig.maxParallelTasks || 1;
+	const failureActions = phaseConfig.failureActions;
 	{
-		const baselineConfig = getConfig(ctx.cwd);
-		const testCommand = baselineConfig.testCommand || "";
+		const testCommand = phaseConfig.testCommand || "";
 		if (testCommand && !state.testBaseline) {
 			ui?.notify?.("Capturing test baseline...", "info");
-			state.testBaseline = await captureBaseline(testCommand, ctx.cwd);
+			state.testBaseline = await captureBaseline(testCommand, ctx.cwd, phaseConfig.testOutputFormat);
 			saveState(state, ctx.cwd);
 		}
 	}
@@ -112,14 +131,11 @@ export async function runExecutePhase(
 	// 5. Task loop
 	let batchCounter = 0;
 
-	for (let i = state.currentTaskIndex; i < state.tasks.length; i++) {
+	// Tasks run in dependency (topological) order; ties keep plan order.
+	for (let i = nextRunnableTaskIndex(state.tasks); i !== -1; i = nextRunnableTaskIndex(state.tasks)) {
 		const task = state.tasks[i];
 		state.currentTaskIndex = i;
 
-		if (task.status === "complete" || task.status === "skipped" || task.status === "escalated") {
-			continue;
-		}
-
 		// a. COST CHECK
 		const costCheck = checkCostBudget(ctx.cwd);
 		if (!costCheck.allowed) {
@@ -142,110 +158,139 @@ export async function runExecutePhase(
 				saveState(state, ctx.cwd);
 				continue;
 			}
-			// retry — decrement so for-loop re-runs this index
-			i--;
+			// retry — task is still pending, so it is picked again
 			continue;
 		}
 
-		task.gitShaBeforeImpl = await getCurrentSha(ctx.cwd);
-		task.status = "implementing";
-		saveState(state, ctx.cwd);
-
 		// Collect prior task summaries for context forwarding (D6)
 		const priorTasks = state.tasks
 			.filter(t => t.status === "complete" && t.summary)
 			.map(t => t.summary!);
 
-		const implResult = await dispatchAgent(
-			implementer, buildImplPrompt(task, planContext, undefined, priorTasks), ctx.cwd, signal, undefined, makeOnStreamEvent(),
-		);
-		state.totalCostUsd += implResult.usage.cost;
-
-		if (implResult.exitCode !== 0) {
-			const reason = implResult.errorMessage || "Implementation failed (non-zero exit)";
-			const escalation = await escalate(task, reason, ui, ctx.cwd);
-			if (escalation === "abort") {
-				state.error = "Aborted by user";
+		// b0. PARALLEL IMPLEMENTATION — independent tasks run side by side in worktrees
+		if (maxParallel > 1 && !task.worktreeCommitSha) {
+			const group = selectParallelGroup(state.tasks, i, maxParallel);
+			if (group.length > 0) {
+				ui?.notify?.(`Implementing ${group.length} independent tasks in parallel worktrees...`, "info");
+				const outcomes = await implementInWorktrees(group, implementer, planContext, priorTasks, ctx.cwd, signal);
+				for (const outcome of outcomes) {
+					recordCost(state, implementer.name, outcome.costUsd);
+					if (outcome.error) {
+						ui?.notify?.(`Task ${outcome.taskId} parallel implementation failed (${outcome.error}) — it will run sequentially`, "warning");
+					}
+				}
 				saveState(state, ctx.cwd);
-				return state;
 			}
-			if (escalation === "skip") {
-				task.status = "skipped";
-				saveState(state, ctx.cwd);
+		}
+
+		// Retries keep the first attempt's base, so its partial commits stay part of the task
+		if (!task.gitShaBeforeImpl) task.gitShaBeforeImpl = await getCurrentSha(ctx.cwd);
+		task.status = "implementing";
+		saveState(state, ctx.cwd);
+
+		if (task.worktreeCommitSha) {
+			// b1. MERGE the task's squashed worktree commit onto the workflow branch
+			const merge = await cherryPickCommit(ctx.cwd, task.worktreeCommitSha);
+			task.worktreeCommitSha = undefined;
+			saveState(state, ctx.cwd);
+
+			if (!merge.success) {
+				const detail = merge.conflictFiles.length > 0 ? merge.conflictFiles.join(", ") : (merge.error || "unknown error");
+				const escalation = await escalate(task, `Merge conflict applying parallel worktree commit: ${detail}`, ui, ctx.cwd);
+				if (escalation === "abort") {
+					state.error = "Aborted by user";
+					saveState(state, ctx.cwd);
+					return state;
+				}
+				if (escalation === "skip") {
+					task.status = "skipped";
+					saveState(state, ctx.cwd);
+					continue;
+				}
+				// retry — re-implement sequentially on top of the current branch
+				task.status = "pending";
 				continue;
 			}
-			// retry — decrement so for-loop re-runs this index
-			task.status = "pending";
-			i--;
-			continue;
+		} else {
+			const implResult = await dispatchAgent(
+				implementer, buildImplPrompt(task, planContext, undefined, priorTasks), ctx.cwd, signal, undefined, makeOnStreamEvent(),
+			);
+			recordCost(state, implResult.agent, implResult.usage.cost);
+
+			if (implResult.exitCode !== 0) {
+				const reason = implResult.errorMessage || "Implementation failed (non-zero exit)";
+				const type: FailureType = TIMEOUT_RE.test(implResult.errorMessage || "") ? "tool-timeout" : "impl-crash";
+				const decision = await handleFailure(type, task, reason, ui, ctx.cwd, failureActions);
+				if (decision === "abort") {
+					state.error = "Aborted by user";
+					saveState(state, ctx.cwd);
+					return state;
+				}
+				if (decision === "pause") {
+					state.paused = true;
+					saveState(state, ctx.cwd);
+					return state;
+				}
+				if (decision === "skip") {
+					task.status = "skipped";
+					saveState(state, ctx.cwd);
+					continue;
+				}
+				if (decision !== "proceed") {
+					// retry — task is pending again, so it is picked again
+					task.status = "pending";
+					continue;
+				}
+			}
 		}
 
-		// c. VALIDATION GATE (with auto-fix retry)
+		// c. VALIDATION GATE (auto-fix is the retry for validation failures)
 		{
 			const valConfig = getConfig(ctx.cwd);
 			const validationCommand = valConfig.validationCommand || "";
 			if (validationCommand) {
-				const valResult = await runValidation(validationCommand, ctx.cwd);
-				if (!valResult.success) {
+				let valResult = await runValidation(validationCommand, ctx.cwd);
+				let fixAttempted = false;
+				let decision: FailureDecision = "proceed";
+				while (!valResult.success) {
+					const type: FailureType = valResult.timedOut ? "tool-timeout" : "validation-failure";
+					const detail = valResult.error || "command exited with non-zero";
+					const reason = fixAttempted ? `Validation still failing after auto-fix: ${detail}` : `Validation failed: ${detail}`;
+					decision = await handleFailure(type, task, reason, ui, ctx.cwd, failureActions);
+					if (decision !== "auto-retry") break;
+
 					// Auto-fix attempt: dispatch implementer with error details
-					if (implementer) {
-						ui?.notify?.("Validation failed, attempting auto-fix...", "warning");
-						const fixPrompt = `Fix these validation errors for task "${task.title}":\n\n${valResult.error}\n\nRun the validation command to verify: ${validationCommand}`;
-						const fixResult = await dispatchAgent(
-							implementer, fixPrompt, ctx.cwd, signal, undefined, makeOnStreamEvent(),
-						);
-						state.totalCostUsd += fixResult.usage.cost;
-
-						// Re-run validation after fix (re-read config for testability)
-						const revalConfig = getConfig(ctx.cwd);
-						const revalCommand = revalConfig.validationCommand || "";
-						const revalResult = revalCommand ? await runValidation(revalCommand, ctx.cwd) : { success: true };
-						if (!revalResult.success) {
-							const valAction = resolveFailureAction("validation-failure");
-							if (valAction === "warn-continue") {
-								ui?.notify?.(`Validation still failing after auto-fix: ${revalResult.error || "command exited with non-zero"}`, "warning");
-							} else if (valAction === "ignore") {
-								// Skip escalation
-							} else {
-								const reason = `Validation still failing after auto-fix: ${revalResult.error || "command exited with non-zero"}`;
-								const escalation = await escalate(task, reason, ui, ctx.cwd);
-								if (escalation === "abort") {
-									state.error = "Aborted by user";
-									saveState(state, ctx.cwd);
-									return state;
-								}
-								if (escalation === "skip") {
-									task.status = "skipped";
-									saveState(state, ctx.cwd);
-									continue;
-								}
-								task.status = "pending";
-								i--;
-								continue;
-							}
-						}
-					} else {
-						const valAction = resolveFailureAction("validation-failure");
-						if (valAction === "warn-continue") {
-							ui?.notify?.(`Validation failed: ${valResult.error || "command exited with non-zero"}`, "warning");
-						} else if (valAction === "ignore") {
-							// Skip escalation
-						} else {
-							const reason = `Validation failed: ${valResult.error || "command exited with non-zero"}`;
-							const escalation = await escalate(task, reason, ui, ctx.cwd);
-							if (escalation === "abort") {
-								state.error = "Aborted by user";
-								saveState(state, ctx.cwd);
-								return state;
-							}
-							if (escalation === "skip") {
-								task.status = "skipped";
-								saveState(state, ctx.cwd);
-								continue;
-							}
-						}
+					ui?.notify?.("Validation failed, attempting auto-fix...", "warning");
+					const fixPrompt = `Fix these validation errors for task "${task.title}":\n\n${valResult.error}\n\nRun the validation command to verify: ${validationCommand}`;
+					const fixResult = await dispatchAgent(
+						implementer, fixPrompt, ctx.cwd, signal, undefined, makeOnStreamEvent(),
+					);
+					recordCost(state, fixResult.agent, fixResult.usage.cost);
+					fixAttempted = true;
+
+					// Re-run validation after fix (re-read config for testability)
+					const revalConfig = getConfig(ctx.cwd);
+					const revalCommand = revalConfig.validationCommand || "";
+					valResult = revalCommand ? await runValidation(revalCommand, ctx.cwd) : { success: true };
+				}
+				if (!valResult.success) {
+					if (decision === "abort") {
+						state.error = "Aborted by user";
+						saveState(state, ctx.cwd);
+						return state;
+					}
+					if (decision === "pause") {
+						state.paused = true;
+						saveState(state, ctx.cwd);
+						return state;
+					}
+					if (decision === "skip") {
+						task.status = "skipped";
+						saveState(state, ctx.cwd);
+						continue;
+					}
+					if (decision === "retry") {
 						task.status = "pending";
-						i--;
 						continue;
 					}
 				}
@@ -255,24 +300,39 @@ export async function runExecutePhase(
 		// d. CHANGED FILES
 		let changedFiles = await computeChangedFiles(ctx.cwd, task.gitShaBeforeImpl);
 
-		// e+f. PARALLEL SPEC + QUALITY REVIEW
+		// Reviewers from config.review, plus any profile matching this task's changed files
+		const pipeline = resolveReviewPipeline(phaseConfig.review, changedFiles);
+		if (pipeline.matchedProfiles.length > 0) {
+			ui?.notify?.(`Task ${task.id}: review profile ${pipeline.matchedProfiles.join("; ")} applies`, "info");
+		}
+		const requiredReviewers = pipeline.required
+			.map((name) => ({ name, agent: agentMap.get(reviewerAgentName(name)) }))
+			.filter((r): r is { name: string; agent: AgentProfile } => r.agent !== undefined);
+		const optionalReviewers = pipeline.optional
+			.map((name) => agentMap.get(reviewerAgentName(name)))
+			.filter((a): a is AgentProfile => a !== undefined);
+
+		// e+f. PARALLEL REQUIRED REVIEWS (review-fix loop)
 		{
 			const reviewResult = await runParallelReviewLoop(
-				state, task, specReviewer, qualityReviewer, implementer,
-				changedFiles, maxRetries, ctx, signal, ui, makeOnStreamEvent,
+				state, task, requiredReviewers, pipeline.required, implementer,
+				changedFiles, maxRetries, ctx, signal, ui, makeOnStreamEvent, failureActions,
+				phaseConfig.coverageReport ? { report: phaseConfig.coverageReport, config: phaseConfig } : undefined,
 			);
-			if (reviewResult === "escalated") return state;
+			if (reviewResult === "escalated" || reviewResult === "paused") return state;
 		}
 
 		// g. OPTIONAL REVIEWS
 		if (optionalReviewers.length > 0) {
 			changedFiles = await computeChangedFiles(ctx.cwd, task.gitShaBeforeImpl);
 			const optAgents = optionalReviewers;
-			const optTasks = optAgents.map(() => buildQualityReviewPrompt(task, changedFiles));
+			const optTasks = optAgents.map((a) => buildReviewPrompt(task, changedFiles, a.name));
 
-			const optResults = await dispatchParallel(optAgents, optTasks, ctx.cwd, signal);
+			const optResults = pipeline.parallelOptional
+				? await dispatchParallel(optAgents, optTasks, ctx.cwd, signal)
+				: await dispatchSequential(optAgents, optTasks, ctx.cwd, signal);
 			for (const r of optResults) {
-				state.totalCostUsd += r.usage.cost;
+				recordCost(state, r.agent, r.usage.cost);
 			}
 
 			for (let j = 0; j < optResults.length; j++) {
@@ -304,6 +364,67 @@ export async function runExecutePhase(
 			}
 		}
 
+		// g2. VACUOUS TEST CHECK — the task's tests must fail without its implementation
+		if (phaseConfig.vacuousTestCheck && task.gitShaBeforeImpl) {
+			let check = await checkVacuousTests(ctx.cwd, task.gitShaBeforeImpl, phaseConfig);
+			if (check.skipped) {
+				ui?.notify?.(`Task ${task.id}: vacuous test check skipped — ${check.skipped}`, "info");
+			}
+			let outcome: "passed" | "return" | "skip" | "retry" = "passed";
+			while (check.vacuous.length > 0) {
+				const decision = await handleFailure(
+					"vacuous-test",
+					task,
+					`Tests still pass with the task's implementation reverted: ${check.vacuous.join(", ")}`,
+					ui,
+					ctx.cwd,
+					failureActions,
+				);
+				if (decision === "proceed") break;
+				if (decision === "abort") {
+					state.error = "Aborted by user";
+					outcome = "return";
+					break;
+				}
+				if (decision === "pause") {
+					state.paused = true;
+					outcome = "return";
+					break;
+				}
+				if (decision === "skip") {
+					outcome = "skip";
+					break;
+				}
+				if (decision === "retry") {
+					outcome = "retry";
+					break;
+				}
+				// auto-retry — have the implementer make the tests exercise the change, then check again
+				const fixResult = await dispatchAgent(
+					implementer,
+					[
+						`These tests for task "${task.title}" still pass when the task's implementation is reverted, so they don't test the new behavior:`,
+						``,
+						check.vacuous.map((f) => `- ${f}`).join("\n"),
+						``,
+						`Change them so they fail without the implementation and pass with it. Don't weaken other tests.`,
+					].join("\n"),
+					ctx.cwd, signal, undefined, makeOnStreamEvent(),
+				);
+				recordCost(state, fixResult.agent, fixResult.usage.cost);
+				check = await checkVacuousTests(ctx.cwd, task.gitShaBeforeImpl, phaseConfig);
+			}
+			if (outcome === "return") {
+				saveState(state, ctx.cwd);
+				return state;
+			}
+			if (outcome === "skip" || outcome === "retry") {
+				task.status = outcome === "skip" ? "skipped" : "pending";
+				saveState(state, ctx.cwd);
+				continue;
+			}
+		}
+
 		// h. COMPLETE
 		task.status = "complete";
 
@@ -317,7 +438,8 @@ export async function runExecutePhase(
 			}
 		}
 
-		state.currentTaskIndex = i + 1;
+		const nextIndex = nextRunnableTaskIndex(state.tasks);
+		state.currentTaskIndex = nextIndex === -1 ? state.tasks.length : nextIndex;
 		saveState(state, ctx.cwd);
 
 		// h1b. PROGRESS SUMMARY
@@ -334,13 +456,27 @@ export async function runExecutePhase(
 		}
 
 		// Update progress widget
-		ui?.setWidget?.("workflow-progress", formatTaskProgress(state.tasks, i + 1));
+		ui?.setWidget?.("workflow-progress", formatTaskProgress(state.tasks, state.currentTaskIndex));
 
 		// h1c. CHECKPOINT EVALUATION
 		{
 			const checkConfig = getConfig(ctx.cwd);
 			const costs = checkConfig.costs;
-			const triggers = evaluateCheckpointTriggers(state, costs);
+			let triggers = evaluateCheckpointTriggers(state, costs);
+
+			// Budget triggers follow the budget-threshold action; "checkpoint" and escalations present them
+			const isBudgetTrigger = (t: { type: string }) => t.type === "budget-warning" || t.type === "budget-critical";
+			const budgetTriggers = triggers.filter(isBudgetTrigger);
+			if (budgetTriggers.length > 0) {
+				const budgetAction = resolveFailureAction("budget-threshold", failureActions);
+				if (budgetAction === "ignore" || budgetAction === "warn-continue") {
+					if (budgetAction === "warn-continue") {
+						for (const t of budgetTriggers) ui?.notify?.(t.message, "warning");
+					}
+					state.lastBudgetCheckpointCostUsd = state.totalCostUsd;
+					triggers = triggers.filter(t => !isBudgetTrigger(t));
+				}
+			}
 
 			if (triggers.length > 0 && ui?.select) {
 				const completedCount = state.tasks.filter(t => t.status === "complete").length;
@@ -376,6 +512,10 @@ export async function runExecutePhase(
 					const adjustment = await presentPlanRevision(state.tasks, ui);
 					if (adjustment) {
 						state.tasks = applyPlanAdjustment(state.tasks, adjustment) as TaskExecState[];
+						const keptIds = adjustment.droppedTaskIds.filter(id => state.tasks.some(t => t.id === id));
+						if (keptIds.length > 0) {
+							ui?.notify?.(`Kept task ${keptIds.join(", ")} — pending tasks depend on it`, "warning");
+						}
 						saveState(state, ctx.cwd);
 					}
 				}
@@ -395,11 +535,11 @@ export async function runExecutePhase(
 				const completedCount = state.tasks.filter(t => t.status === "complete").length;
 
 				if (shouldRunValidation(valCadence, valInterval, completedCount)) {
-					const valResult = await runCrossTaskValidation(testCmd, state.testBaseline, ctx.cwd);
+					const valResult = await runCrossTaskValidation(testCmd, state.testBaseline, ctx.cwd, crossConfig.testOutputFormat);
 
 					// Classify flakes via taxonomy
 					if (valResult.flakyTests.length > 0) {
-						const flakeAction = resolveFailureAction("test-flake");
+						const flakeAction = resolveFailureAction("test-flake", failureActions);
 						if (flakeAction === "warn-continue") {
 							ui?.notify?.(`Detected flaky tests: ${valResult.flakyTests.join(", ")}`, "warning");
 						}
@@ -408,30 +548,35 @@ export async function runExecutePhase(
 					// Classify regressions via taxonomy
 					if (!valResult.passed) {
 						state.lastValidationFailed = true;
-						const regressionAction = resolveFailureAction("test-regression");
 						const failNames = valResult.blockingFailures.map(f => f.name).join(", ");
-
-						if (regressionAction === "stop-show-diff" || regressionAction === "escalate") {
-							const escalation = await escalate(
-								task,
-								`Task introduced test regression: ${failNames}`,
-								ui,
-								ctx.cwd,
-							);
-							if (escalation === "abort") {
-								state.error = "Aborted by user";
-								saveState(state, ctx.cwd);
-								return state;
-							}
-							if (escalation === "skip") {
-								task.status = "skipped";
-								saveState(state, ctx.cwd);
-								continue;
-							}
+						const decision = await handleFailure(
+							"test-regression",
+							task,
+							`Task introduced test regression: ${failNames}`,
+							ui,
+							ctx.cwd,
+							failureActions,
+						);
+						if (decision === "abort") {
+							state.error = "Aborted by user";
+							saveState(state, ctx.cwd);
+							return state;
+						}
+						if (decision === "pause") {
+							state.currentTaskIndex = i;
+							state.paused = true;
+							saveState(state, ctx.cwd);
+							return state;
+						}
+						if (decision === "skip") {
+							task.status = "skipped";
+							saveState(state, ctx.cwd);
+							continue;
+						}
+						if (decision !== "proceed") {
 							// Reset index so the task is retried
 							task.status = "pending";
 							state.currentTaskIndex = i;
-							i--;
 							saveState(state, ctx.cwd);
 							continue;
 						}
@@ -456,7 +601,15 @@ export async function runExecutePhase(
 		}
 	}
 
-	// 5. All tasks done
+	// 5. Anything still unfinished is blocked by a skipped/escalated dependency
+	for (const t of state.tasks) {
+		if (t.status === "complete" || t.status === "skipped" || t.status === "escalated") continue;
+		const blockers = (t.dependsOn ?? []).filter(dep => state.tasks.some(d => d.id === dep && d.status !== "complete"));
+		t.status = "skipped";
+		ui?.notify?.(`Task ${t.id} skipped — depends on unfinished task ${blockers.join(", ")}`, "warning");
+	}
+
+	// 6. All tasks done
 	state.phase = "finalize";
 	saveState(state, ctx.cwd);
 	return state;
@@ -464,11 +617,25 @@ export async function runExecutePhase(
 
 // --- Parallel review loop (D4) ---
 
+/** Run optional reviewers one after another (review.parallelOptional: false). */
+async function dispatchSequential(
+	agents: AgentProfile[],
+	tasks: string[],
+	cwd: string,
+	signal: AbortSignal | undefined,
+): Promise<DispatchResult[]> {
+	const results: DispatchResult[] = [];
+	for (let i = 0; i < agents.length; i++) {
+		results.push(await dispatchAgent(agents[i], tasks[i], cwd, signal));
+	}
+	return results;
+}
+
 async function runParallelReviewLoop(
 	state: OrchestratorState,
 	task: TaskExecState,
-	specReviewer: AgentProfile | undefined,
-	qualityReviewer: AgentProfile | undefined,
+	available: { name: string; agent: AgentProfile }[],
+	requiredNames: string[],
 	implementer: AgentProfile,
 	changedFiles: string[],
 	maxRetries: number,
@@ -476,16 +643,17 @@ async function runParallelReviewLoop(
 	signal: AbortSignal | undefined,
 	ui: any,
 	makeOnStreamEvent: () => OnStreamEvent,
-): Promise<"passed" | "escalated"> {
-	// Build list of available reviewers
-	const reviewers: AgentProfile[] = [];
-	const reviewNames: string[] = [];
-	if (specReviewer) { reviewers.push(specReviewer); reviewNames.push("spec"); }
-	if (qualityReviewer) { reviewers.push(qualityReviewer); reviewNames.push("quality"); }
+	failureActions?: FailureOverrides,
+	coverage?: { report: CoverageReportConfig; config: SuperteamConfig },
+): Promise<"passed" | "escalated" | "paused"> {
+	// Reviewers whose agent is installed; with none, the required reviews count as passed
+	const reviewers = available.map((r) => r.agent);
+	const reviewNames = available.map((r) => r.name);
 
 	if (reviewers.length === 0) {
-		task.reviewsPassed.push("spec", "quality");
-		return "passed";
+		task.reviewsPassed.push(...requiredNames);
+		// The coverage check still runs through the fix loop on its own
+		if (!coverage || !task.gitShaBeforeImpl) return "passed";
 	}
 
 	task.status = "reviewing";
@@ -495,15 +663,12 @@ async function runParallelReviewLoop(
 
 	for (let attempt = 0; attempt < maxRetries; attempt++) {
 		// Build prompts for each reviewer
-		const prompts = reviewers.map((_, i) => {
-			if (reviewNames[i] === "spec") return buildSpecReviewPrompt(task, currentChangedFiles);
-			return buildQualityReviewPrompt(task, currentChangedFiles);
-		});
+		const prompts = reviewNames.map((name) => buildReviewPrompt(task, currentChangedFiles, name));
 
 		// Dispatch in parallel
-		const results = await dispatchParallel(reviewers, prompts, ctx.cwd, signal);
+		const results = reviewers.length > 0 ? await dispatchParallel(reviewers, prompts, ctx.cwd, signal) : [];
 		for (const r of results) {
-			state.totalCostUsd += r.usage.cost;
+			recordCost(state, r.agent, r.usage.cost);
 		}
 
 		// Write-guard check on parallel results
@@ -518,28 +683,75 @@ async function runParallelReviewLoop(
 			const output = getFinalOutput(r.messages);
 			return parseReviewOutput(output);
 		});
+		const names = [...reviewNames];
+
+		// Coverage-aware GREEN check — uncovered added lines are findings like a reviewer's
+		if (coverage && task.gitShaBeforeImpl) {
+			const check = await runCoverageCheck(ctx.cwd, task.gitShaBeforeImpl, coverage.report, coverage.config);
+			if (check.skipped) {
+				ui?.notify?.(`Task ${task.id}: coverage check skipped — ${check.skipped}`, "info");
+			} else {
+				const passed = check.findings.length === 0;
+				const summary = passed
+					? `All added lines in ${check.checkedFiles.length} implementation file(s) are covered`
+					: `${check.findings.length} range(s) of added lines are not covered by any test`;
+				parsed.push({ status: passed ? "pass" : "fail", findings: { passed, findings: check.findings, mustFix: [], summary } });
+				names.push("coverage");
+			}
+		}
 
 		// Check if all passed
 		const allPassed = parsed.every(p => p.status === "pass");
 		if (allPassed) {
-			for (const name of reviewNames) {
+			for (const name of names) {
 				if (!task.reviewsPassed.includes(name)) task.reviewsPassed.push(name);
 			}
 			return "passed";
 		}
 
+		// Record which reviewers failed (at least once) for the history ledger
+		for (let j = 0; j < parsed.length; j++) {
+			if (parsed[j].status === "fail" && !task.reviewsFailed.includes(names[j])) task.reviewsFailed.push(names[j]);
+		}
+
 		// Check for inconclusive
 		const inconclusiveIdx = parsed.findIndex(p => p.status === "inconclusive");
 		if (inconclusiveIdx >= 0) {
 			const p = parsed[inconclusiveIdx] as { status: "inconclusive"; parseError: string };
-			const escalation = await escalate(task, `${reviewNames[inconclusiveIdx]} review inconclusive: ${p.parseError}`, ui, ctx.cwd);
-			if (escalation === "abort") { state.error = "Aborted by user"; saveState(state, ctx.cwd); return "escalated"; }
-			if (escalation === "skip") { task.status = "skipped"; saveState(state, ctx.cwd); return "escalated"; }
-			continue;
+			const reason = `${names[inconclusiveIdx]} review inconclusive: ${p.parseError}`;
+			const decision = await handleFailure("parse-error", task, reason, ui, ctx.cwd, failureActions);
+			if (decision === "abort") { state.error = "Aborted by user"; saveState(state, ctx.cwd); return "escalated"; }
+			if (decision === "skip") { task.status = "skipped"; saveState(state, ctx.cwd); return "escalated"; }
+			if (decision === "pause") { state.paused = true; saveState(state, ctx.cwd); return "paused"; }
+			if (decision === "auto-retry") {
+				// Re-run the reviews without spending a fix attempt
+				attempt--;
+				continue;
+			}
+			if (decision === "retry") continue;
+			// proceed — judge the task on the conclusive reviews only
+			if (!parsed.some(r => r.status === "fail")) {
+				for (let j = 0; j < parsed.length; j++) {
+					if (parsed[j].status === "pass" && !task.reviewsPassed.includes(names[j])) task.reviewsPassed.push(names[j]);
+				}
+				return "passed";
+			}
+		}
+
+		// Out of fix attempts — resolve via review-max-retries
+		if (attempt >= maxRetries - 1) {
+			const decision = await handleFailure("review-max-retries", task, `Reviews failed after ${maxRetries} attempts`, ui, ctx.cwd, failureActions);
+			if (decision === "abort") { state.error = "Aborted by user"; saveState(state, ctx.cwd); return "escalated"; }
+			if (decision === "skip") { task.status = "skipped"; saveState(state, ctx.cwd); return "escalated"; }
+			if (decision === "pause") { state.paused = true; saveState(state, ctx.cwd); return "paused"; }
+			if (decision === "proceed") return "passed";
+			if (decision === "retry") continue;
+			// auto-retry — fix and start another full round of reviews
+			attempt = -1;
 		}
 
 		// At least one failed — fix and retry
-		if (attempt < maxRetries - 1) {
+		{
 			task.status = "fixing";
 			task.fixAttempts++;
 			saveState(state, ctx.cwd);
@@ -549,7 +761,7 @@ async function runParallelReviewLoop(
 			for (let j = 0; j < parsed.length; j++) {
 				if (parsed[j].status === "fail") {
 					const failParsed = parsed[j] as { status: "fail"; findings: ReviewFindings };
-					allFindings.push(formatFindings(failParsed.findings, reviewNames[j]));
+					allFindings.push(formatFindings(failParsed.findings, names[j]));
 				}
 			}
 			const mergedFixPrompt = [
@@ -568,21 +780,63 @@ async function runParallelReviewLoop(
 				mergedFixPrompt,
 				ctx.cwd, signal, undefined, makeOnStreamEvent(),
 			);
-			state.totalCostUsd += fixResult.usage.cost;
+			recordCost(state, fixResult.agent, fixResult.usage.cost);
 
 			currentChangedFiles = await computeChangedFiles(ctx.cwd, task.gitShaBeforeImpl);
 			task.status = "reviewing";
 			saveState(state, ctx.cwd);
-		} else {
-			const escalation = await escalate(task, `Reviews failed after ${maxRetries} attempts`, ui, ctx.cwd);
-			if (escalation === "abort") { state.error = "Aborted by user"; saveState(state, ctx.cwd); return "escalated"; }
-			if (escalation === "skip") { task.status = "skipped"; saveState(state, ctx.cwd); return "escalated"; }
 		}
 	}
 
 	return "passed";
 }
 
+// --- Failure handling via the failure taxonomy ---
+
+/**
+ * Resolve the configured action for a failure and carry it out.
+ * Automatic retries are counted per task and failure type in `task.failureRetries`;
+ * once the action's limit is used up the failure escalates.
+ */
+async function handleFailure(
+	type: FailureType,
+	task: TaskExecState,
+	reason: string,
+	ui: any,
+	cwd: string,
+	overrides?: FailureOverrides,
+): Promise<FailureDecision> {
+	const action = resolveFailureAction(type, overrides);
+
+	if (action === "ignore") return "proceed";
+	if (action === "warn-continue") {
+		ui?.notify?.(`${reason} — continuing`, "warning");
+		return "proceed";
+	}
+	if (action === "checkpoint") {
+		task.status = "pending";
+		ui?.notify?.(`${reason} — paused at checkpoint. Run /workflow to resume task "${task.title}".`, "warning");
+		return "pause";
+	}
+	if (action === "auto-retry" || action === "retry-then-escalate") {
+		const limit = AUTO_RETRY_LIMITS[action] ?? 1;
+		const used = task.failureRetries?.[type] ?? 0;
+		if (used < limit) {
+			task.failureRetries = { ...task.failureRetries, [type]: used + 1 };
+			ui?.notify?.(`${reason} — retrying automatically (${used + 1}/${limit})`, "warning");
+			return "auto-retry";
+		}
+	}
+	if (action === "stop-show-diff" && task.gitShaBeforeImpl) {
+		const files = await computeChangedFiles(cwd, task.gitShaBeforeImpl);
+		ui?.notify?.(
+			`Changes in task "${task.title}" since ${task.gitShaBeforeImpl.slice(0, 7)}:\n${files.map(f => `  ${f}`).join("\n") || "  (none)"}`,
+			"info",
+		);
+	}
+	return escalate(task, reason, ui, cwd);
+}
+
 // --- Escalation via ctx.ui.select ---
 
 async function escalate(
@@ -615,6 +869,7 @@ async function escalate(
 			task.reviewsPassed = [];
 			task.reviewsFailed = [];
 			task.fixAttempts = 0;
+			task.failureRetries = undefined;
 		}
 		return "retry";
 	}
@@ -26,11 +26,17 @@ vi.mock("../prompt-builder.js", () => ({
 	buildFinalReviewPrompt: vi.fn(),
 }));
 
+vi.mock("../history.js", async (importOriginal) => {
+	const orig = await importOriginal<typeof import("../history.ts")>();
+	return { ...orig, appendHistory: vi.fn() };
+});
+
 import { discoverAgents, dispatchAgent, getFinalOutput } from "../../dispatch.ts";
 import { saveState, clearState } from "../orchestrator-state.ts";
 import { computeChangedFiles } from "../git-utils.ts";
 import { parseReviewOutput } from "../../review-parser.ts";
 import { buildFinalReviewPrompt } from "../prompt-builder.ts";
+import { appendHistory } from "../history.ts";
 import { runFinalizePhase } from "./finalize.ts";
 import type { AgentProfile, DispatchResult } from "../../dispatch.ts";
 
@@ -41,6 +47,7 @@ const mockClearState = vi.mocked(clearState);
 const mockComputeChangedFiles = vi.mocked(computeChangedFiles);
 const mockParseReviewOutput = vi.mocked(parseReviewOutput);
 const mockBuildFinalReviewPrompt = vi.mocked(buildFinalReviewPrompt);
+const mockAppendHistory = vi.mocked(appendHistory);
 
 function makeAgent(name: string): AgentProfile {
 	return { name, description: `${name} agent`, systemPrompt: "", source: "package", filePath: `/agents/${name}.md` };
@@ -238,4 +245,29 @@ describe("runFinalizePhase", () => {
 			expect(report).toContain("$1.23");
 		});
 	});
+
+	describe("history ledger", () => {
+		it("appends a complete entry with per-phase and per-agent cost before clearing state", async () => {
+			const state = makeState({ costByPhase: { execute: 0.1 }, costByAgent: { implementer: 0.1 } });
+			mockComputeChangedFiles.mockResolvedValue([]);
+			mockDiscoverAgents.mockReturnValue({ agents: [makeAgent("quality-reviewer")], projectAgentsDir: null });
+			mockDispatchAgent.mockResolvedValue(makeResult({ agent: "quality-reviewer" }));
+			mockParseReviewOutput.mockReturnValue({
+				status: "pass",
+				findings: { passed: true, findings: [], mustFix: [], summary: "ok" },
+			});
+
+			await runFinalizePhase(state, fakeCtx);
+
+			expect(mockAppendHistory).toHaveBeenCalledTimes(1);
+			const [cwd, entry] = mockAppendHistory.mock.calls[0];
+			expect(cwd).toBe("/fake/project");
+			expect(entry.outcome).toBe("complete");
+			expect(entry.tasks.map((t) => t.status)).toEqual(["complete", "complete"]);
+			expect(entry.costByPhase.finalize).toBeCloseTo(0.05);
+			expect(entry.costByAgent).toEqual({ implementer: 0.1, "quality-reviewer": 0.05 });
+			expect(entry.phaseDurationsMs.finalize).toBeGreaterThanOrEqual(0);
+			expect(mockAppendHistory.mock.invocationCallOrder[0]).toBeLessThan(mockClearState.mock.invocationCallOrder[0]);
+		});
+	});
 });
@@ -1,5 +1,6 @@
 import type { OrchestratorState, TaskExecState } from "../orchestrator-state.js";
-import { clearState } from "../orchestrator-state.js";
+import { clearState, recordCost, recordPhaseDuration } from "../orchestrator-state.js";
+import { appendHistory, buildHistoryEntry } from "../history.js";
 import { buildFinalReviewPrompt } from "../prompt-builder.js";
 import { computeChangedFiles } from "../git-utils.js";
 import { discoverAgents, dispatchAgent, getFinalOutput } from "../../dispatch.js";
@@ -21,6 +22,7 @@ export async function runFinalizePhase(
 	ctx: ExtensionContext | { cwd: string },
 	signal?: AbortSignal,
 ): Promise<{ state: OrchestratorState; report: string }> {
+	const startedAt = Date.now();
 	const completedTasks = state.tasks.filter((t) => t.status === "complete");
 	const skippedTasks = state.tasks.filter((t) => t.status === "skipped");
 	const escalatedTasks = state.tasks.filter((t) => t.status === "escalated");
@@ -40,7 +42,7 @@ export async function runFinalizePhase(
 		if (reviewer) {
 			const prompt = buildFinalReviewPrompt(completedTasks, changedFiles);
 			const result = await dispatchAgent(reviewer, prompt, ctx.cwd, signal);
-			state.totalCostUsd += result.usage.cost;
+			recordCost(state, result.agent, result.usage.cost);
 
 			const rawOutput = getFinalOutput(result.messages);
 			const parsed = parseReviewOutput(rawOutput);
@@ -88,6 +90,13 @@ export async function runFinalizePhase(
 
 	const report = lines.join("\n");
 
+	recordPhaseDuration(state, "finalize", Date.now() - startedAt);
+	try {
+		appendHistory(ctx.cwd, buildHistoryEntry(state, "complete"));
+	} catch {
+		// Non-fatal — the ledger is a convenience
+	}
+
 	state.phase = "done";
 	clearState(ctx.cwd);
 
@@ -5,11 +5,12 @@
 
 import * as fs from "node:fs";
 import type { OrchestratorState } from "../orchestrator-state.js";
-import { saveState } from "../orchestrator-state.js";
+import { saveState, recordCost } from "../orchestrator-state.js";
 import { buildPlanReviewPrompt, buildPlanRevisionPromptFromFindings, buildTargetedPlanRevisionPrompt } from "../prompt-builder.js";
 import { discoverAgents, dispatchAgent, getFinalOutput, hasWriteToolCalls, type OnStreamEvent } from "../../dispatch.js";
 import { parseReviewOutput, formatFindings } from "../../review-parser.js";
 import { parseTaskBlock, parseTaskHeadings } from "../plan-parser.js";
+import { validateTaskDependencies } from "../task-graph.js";
 import { formatToolAction, createActivityBuffer } from "../ui.js";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import type { AgentProfile, DispatchResult } from "../../dispatch.js";
@@ -61,6 +62,7 @@ export async function runPlanReviewPhase(
 			const reviewResults = await dispatchReviewers(
 				availableReviewers, state.planContent!, designContent, ctx.cwd, signal, makeOnStreamEvent(), ui,
 			);
+			for (const r of reviewResults) recordCost(state, r.agent, r.usage.cost);
 
 			const parsed: ParseResult[] = reviewResults.map((r) =>
 				parseReviewOutput(getFinalOutput(r.messages)),
@@ -92,8 +94,9 @@ export async function runPlanReviewPhase(
 							const guidedPrompt = buildTargetedPlanRevisionPrompt(
 								state.planContent!, findings + "\n\n## User guidance\n" + guidance, designContent,
 							);
-							await dispatchAgent(planner!, guidedPrompt, ctx.cwd, signal, undefined, makeOnStreamEvent());
-							rereadPlan(state);
+							const guidedResult = await dispatchAgent(planner!, guidedPrompt, ctx.cwd, signal, undefined, makeOnStreamEvent());
+							recordCost(state, guidedResult.agent, guidedResult.usage.cost);
+							rereadPlan(state, ui);
 							state.planReviewCycles++;
 							previousFindings = "";
 							continue;
@@ -106,9 +109,10 @@ export async function runPlanReviewPhase(
 
 				// Dispatch planner to revise — use targeted prompt
 				const revisionPrompt = buildTargetedPlanRevisionPrompt(state.planContent!, findings, designContent);
-				await dispatchAgent(planner!, revisionPrompt, ctx.cwd, signal, undefined, makeOnStreamEvent());
+				const revisionResult = await dispatchAgent(planner!, revisionPrompt, ctx.cwd, signal, undefined, makeOnStreamEvent());
+				recordCost(state, revisionResult.agent, revisionResult.usage.cost);
 
-				rereadPlan(state);
+				rereadPlan(state, ui);
 				state.planReviewCycles++;
 				continue;
 			}
@@ -133,8 +137,9 @@ export async function runPlanReviewPhase(
 		const feedback = await ui?.editor?.("Enter revision feedback");
 		if (feedback && planner) {
 			const revisionPrompt = buildPlanRevisionPromptFromFindings(state.planContent!, designContent, feedback);
-			await dispatchAgent(planner, revisionPrompt, ctx.cwd, signal, undefined, makeOnStreamEvent());
-			rereadPlan(state);
+			const revisionResult = await dispatchAgent(planner, revisionPrompt, ctx.cwd, signal, undefined, makeOnStreamEvent());
+			recordCost(state, revisionResult.agent, revisionResult.usage.cost);
+			rereadPlan(state, ui);
 		}
 
 		// Re-run reviews (recursive)
@@ -174,19 +179,28 @@ async function dispatchReviewers(
 	return Promise.all(promises);
 }
 
-/** Re-read plan from disk and update state tasks */
-function rereadPlan(state: OrchestratorState): void {
+/**
+ * Re-read plan from disk and update state tasks.
+ * A revision with invalid dependencies keeps the previous task list.
+ */
+function rereadPlan(state: OrchestratorState, ui?: any): void {
 	try {
 		const updatedContent = fs.readFileSync(state.planPath!, "utf-8");
 		state.planContent = updatedContent;
 
 		const parsedTasks = parseTaskBlock(updatedContent) || parseTaskHeadings(updatedContent);
 		if (parsedTasks && parsedTasks.length > 0) {
+			const dependencyErrors = validateTaskDependencies(parsedTasks);
+			if (dependencyErrors.length > 0) {
+				ui?.notify?.(`Revised plan has invalid task dependencies — keeping previous tasks:\n${dependencyErrors.join("\n")}`, "warning");
+				return;
+			}
 			state.tasks = parsedTasks.map((t, i) => ({
 				id: t.id || i + 1,
 				title: t.title,
 				description: t.description,
 				files: t.files,
+				dependsOn: t.dependsOn,
 				status: "pending" as const,
 				reviewsPassed: [],
 				reviewsFailed: [],
@@ -6,9 +6,11 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import type { ExtensionContext } from "@mariozechner/pi-coding-agent";
 import type { OrchestratorState, TaskExecState } from "../orchestrator-state.js";
+import { recordCost } from "../orchestrator-state.js";
 import { discoverAgents, dispatchAgent, getFinalOutput, type OnStreamEvent } from "../../dispatch.js";
 import { buildPlannerPromptFromDesign } from "../prompt-builder.js";
 import { parseTaskBlock, parseTaskHeadings } from "../plan-parser.js";
+import { validateTaskDependencies } from "../task-graph.js";
 import { formatToolAction, createActivityBuffer } from "../ui.js";
 
 type Ctx = ExtensionContext | { cwd: string; hasUI?: boolean; ui?: any };
@@ -71,17 +73,21 @@ export async function runPlanWritePhase(
 	};
 
 	const MAX_RETRIES = 2;
+	let dependencyErrors: string[] = [];
 
 	for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
 		ui?.setStatus?.("workflow", `⚡ Workflow: plan-write${attempt > 0 ? " (retry)" : ""}`);
 
-		const prompt = attempt > 0
+		let prompt = attempt > 0
 			? buildPlannerPromptFromDesign(designContent, scoutOutput, state.userDescription, planPath)
 				+ "\n\nIMPORTANT: The plan file MUST contain a ```superteam-tasks YAML block with at least one task."
 			: buildPlannerPromptFromDesign(designContent, scoutOutput, state.userDescription, planPath);
+		if (dependencyErrors.length > 0) {
+			prompt += `\n\nThe previous plan had invalid task dependencies — fix them:\n${dependencyErrors.map(e => `- ${e}`).join("\n")}`;
+		}
 
 		const result = await dispatchAgent(plannerAgent, prompt, ctx.cwd, signal, undefined, makeOnStreamEvent());
-		state.totalCostUsd += result.usage.cost;
+		recordCost(state, result.agent, result.usage.cost);
 
 		// Read plan file from disk
 		const fullPlanPath = path.join(ctx.cwd, planPath);
@@ -101,12 +107,20 @@ export async function runPlanWritePhase(
 			continue;
 		}
 
-		// Convert to TaskExecState
+		dependencyErrors = validateTaskDependencies(parsedTasks);
+		if (dependencyErrors.length > 0) {
+			ui?.notify?.(`Invalid task dependencies (attempt ${attempt + 1}):\n${dependencyErrors.join("\n")}`, "warning");
+			continue;
+		}
+
+		// Convert to TaskExecState (ids are renumbered, so remap dependencies)
+		const idMap = new Map(parsedTasks.map((t, i) => [t.id, i + 1]));
 		const tasks: TaskExecState[] = parsedTasks.map((t, i) => ({
 			id: i + 1,
 			title: t.title,
 			description: t.description,
 			files: t.files,
+			dependsOn: t.dependsOn.map(dep => idMap.get(dep)!),
 			status: "pending" as const,
 			reviewsPassed: [],
 			reviewsFailed: [],
@@ -123,6 +137,8 @@ export async function runPlanWritePhase(
 	}
 
 	// All retries exhausted
-	state.error = `Plan-write failed: no parseable tasks after ${MAX_RETRIES} attempts`;
+	state.error = dependencyErrors.length > 0
+		? `Plan-write failed: invalid task dependencies after ${MAX_RETRIES} attempts — ${dependencyErrors.join("; ")}`
+		: `Plan-write failed: no parseable tasks after ${MAX_RETRIES} attempts`;
 	return state;
 }
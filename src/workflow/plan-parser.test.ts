@@ -56,6 +56,31 @@ describe("plan-parser", () => {
 			expect(tasks[0].description).toContain("Line one");
 			expect(tasks[0].description).toContain("Line two");
 		});
+
+		it("parses dependsOn lists and defaults to none", () => {
+			const content = [
+				"```superteam-tasks",
+				"- title: Model",
+				"  description: |",
+				"    Create the model",
+				"  dependsOn: []",
+				"- title: Routes",
+				"  description: Endpoints",
+				"  files: [src/routes.ts]",
+				"  dependsOn: [1]",
+				"- title: Docs",
+				"  dependsOn: [Task 1, 2]",
+				"- title: Cleanup",
+				"```",
+			].join("\n");
+
+			const tasks = parseTaskBlock(content)!;
+			expect(tasks[0].dependsOn).toEqual([]);
+			expect(tasks[0].description).toBe("Create the model");
+			expect(tasks[1].dependsOn).toEqual([1]);
+			expect(tasks[2].dependsOn).toEqual([1, 2]);
+			expect(tasks[3].dependsOn).toEqual([]);
+		});
 	});
 
 	describe("parseTaskHeadings", () => {
@@ -76,6 +101,22 @@ describe("plan-parser", () => {
 			expect(tasks[1].files).toContain("src/build.ts");
 		});
 
+		it("parses a Depends on line in the task body", () => {
+			const content = [
+				"### Task 1: Setup",
+				"Description of setup task.",
+				"### Task 2: Build",
+				"**Depends on:** Task 1",
+				"### Task 3: Ship",
+				"Depends on: 1, 2",
+			].join("\n");
+
+			const tasks = parseTaskHeadings(content);
+			expect(tasks[0].dependsOn).toEqual([]);
+			expect(tasks[1].dependsOn).toEqual([1]);
+			expect(tasks[2].dependsOn).toEqual([1, 2]);
+		});
+
 		it("returns empty array when no task headings", () => {
 			expect(parseTaskHeadings("# Plan\nNo tasks")).toEqual([]);
 		});
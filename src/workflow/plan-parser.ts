@@ -17,6 +17,8 @@ export interface ParsedTask {
 	title: string;
 	description: string;
 	files: string[];
+	/** Ids of tasks that must complete before this one */
+	dependsOn: number[];
 }
 
 // --- Fenced block parser ---
@@ -32,6 +34,7 @@ export interface ParsedTask {
  * - title: Add validation
  *   description: Input validation layer
  *   files: [src/validation.ts]
+ *   dependsOn: [1]
  * ```
  */
 export function parseTaskBlock(content: string): ParsedTask[] | null {
@@ -65,18 +68,20 @@ export function parseTaskBlock(content: string): ParsedTask[] | null {
 
 /**
  * Heuristic fallback: parse tasks from ### Task N: headings.
+ * A "Depends on: 1, 3" line in the body declares dependencies.
  */
 export function parseTaskHeadings(content: string): ParsedTask[] {
 	const tasks: ParsedTask[] = [];
 	const headingRegex = /^###\s+Task\s+(\d+):\s*(.+)$/gm;
 
 	let match: RegExpExecArray | null;
-	const headingPositions: { id: number; title: string; start: number }[] = [];
+	const headingPositions: { id: number; title: string; headingStart: number; start: number }[] = [];
 
 	while ((match = headingRegex.exec(content)) !== null) {
 		headingPositions.push({
 			id: parseInt(match[1], 10),
 			title: match[2].trim(),
+			headingStart: match.index,
 			start: match.index + match[0].length,
 		});
 	}
@@ -84,7 +89,7 @@ export function parseTaskHeadings(content: string): ParsedTask[] {
 	for (let i = 0; i < headingPositions.length; i++) {
 		const h = headingPositions[i];
 		const end = i + 1 < headingPositions.length
-			? headingPositions[i + 1].start - headingPositions[i + 1].title.length - 15 // approximate heading start
+			? headingPositions[i + 1].headingStart
 			: content.length;
 		const body = content.slice(h.start, end).trim();
 
@@ -96,6 +101,7 @@ export function parseTaskHeadings(content: string): ParsedTask[] {
 			title: h.title,
 			description: body.split("\n").slice(0, 3).join("\n").trim(),
 			files,
+			dependsOn: extractDependsOn(body),
 		});
 	}
 
@@ -202,6 +208,13 @@ function parseYamlLikeTasks(block: string): ParsedTask[] {
 			continue;
 		}
 
+		if (trimmed.startsWith("dependsOn:")) {
+			const depsStr = trimmed.slice("dependsOn:".length).trim();
+			current.dependsOn = parseInlineArray(depsStr).map(parseTaskRef);
+			i++;
+			continue;
+		}
+
 		i++;
 	}
 
@@ -218,6 +231,7 @@ function finalizeParsedTask(partial: Partial<ParsedTask>, id: number): ParsedTas
 		title: partial.title || `Task ${id}`,
 		description: partial.description || "",
 		files: partial.files || [],
+		dependsOn: partial.dependsOn || [],
 	};
 }
 
@@ -229,6 +243,18 @@ function parseInlineArray(str: string): string[] {
 		.filter(Boolean);
 }
 
+/** "3", "Task 3", "#3" → 3; anything without a number → NaN (reported as unknown by validation) */
+function parseTaskRef(ref: string): number {
+	const match = ref.match(/\d+/);
+	return match ? parseInt(match[0], 10) : NaN;
+}
+
+function extractDependsOn(body: string): number[] {
+	const match = body.match(/^[\s*_-]*depends[\s-]on[*_]*:?[*_]*\s*(.+)$/im);
+	if (!match) return [];
+	return [...match[1].matchAll(/\d+/g)].map((m) => parseInt(m[0], 10));
+}
+
 function extractFileRefs(body: string): string[] {
 	const files: string[] = [];
 	const backtickRegex = /`([^`]+\.[a-zA-Z]+)`/g;
@@ -48,6 +48,19 @@ describe("renderProgressMarkdown", () => {
     const md = renderProgressMarkdown(state);
     expect(md).toContain("$3.42");
   });
+
+  it("lists headless auto-decisions in order", async () => {
+    const { renderProgressMarkdown } = await import("./progress.js");
+    const state = makeState({
+      autoDecisions: [
+        { prompt: "Execution Mode", choice: "Auto", reason: "executionMode: auto" },
+        { prompt: "Review Mode", choice: "Single-pass", reason: "reviewMode: single-pass" },
+      ],
+    });
+    const md = renderProgressMarkdown(state);
+    expect(md).toContain("## Auto-decisions");
+    expect(md).toContain("- Execution Mode → **Auto** *(executionMode: auto)*\n- Review Mode → **Single-pass** *(reviewMode: single-pass)*");
+  });
 });
 
 describe("getProgressPath", () => {
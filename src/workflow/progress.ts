@@ -26,6 +26,7 @@ interface ProgressState {
 	planReviewCycles?: number;
 	designPath?: string;
 	planPath?: string;
+	autoDecisions?: Array<{ prompt: string; choice: string; reason: string }>;
 }
 
 /**
@@ -112,6 +113,16 @@ export function renderProgressMarkdown(state: ProgressState): string {
 		lines.push("");
 	}
 
+	// Headless auto-decisions, in the order they were made
+	if (state.autoDecisions && state.autoDecisions.length > 0) {
+		lines.push("## Auto-decisions");
+		lines.push("");
+		for (const d of state.autoDecisions) {
+			lines.push(`- ${d.prompt} → **${d.choice}** *(${d.reason})*`);
+		}
+		lines.push("");
+	}
+
 	return lines.join("\n");
 }
 
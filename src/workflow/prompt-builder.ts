@@ -34,7 +34,7 @@ export function buildPlannerPrompt(scoutOutput: string, userDescription: string,
 		``,
 		`## Instructions`,
 		`The plan must contain a \`\`\`superteam-tasks block with YAML task list.`,
-		`Each task needs: title, description, files.`,
+		`Each task needs: title, description, files. Add dependsOn: [ids] when a task needs earlier tasks (1-based, no cycles).`,
 		`Keep tasks small: 1-3 files, 2-5 min each.`,
 		`Use TDD — each task should mention writing tests first.`,
 		`Include a Goal, Architecture, and Tech Stack header before the tasks.`,
@@ -182,6 +182,27 @@ export function buildQualityReviewPrompt(task: TaskExecState, changedFiles: stri
 		].join("\n");
 }
 
+// --- Configured reviewers ---
+
+/**
+ * Prompt for any configured reviewer: the spec and quality prompts for those
+ * review types, otherwise a review focused on the reviewer's own concern
+ * (the agent's system prompt carries the checklist).
+ */
+export function buildReviewPrompt(task: TaskExecState, changedFiles: string[], reviewType: string): string {
+	const type = reviewType.replace(/-reviewer$/, "");
+	if (type === "spec") return buildSpecReviewPrompt(task, changedFiles);
+	if (type === "quality") return buildQualityReviewPrompt(task, changedFiles);
+	return [
+		`## ${type.charAt(0).toUpperCase()}${type.slice(1)} review for: ${task.title}`,
+		``,
+		`Review these files for ${type} issues:`,
+		changedFiles.map((f) => `- ${f}`).join("\n"),
+		``,
+		`Only report findings within your ${type} remit.`,
+		].join("\n");
+}
+
 // --- Final review ---
 
 export function buildFinalReviewPrompt(completedTasks: TaskExecState[], changedFiles: string[]): string {
@@ -225,6 +246,37 @@ export function buildBrainstormQuestionsPrompt(scoutOutput: string, userDescript
 	].join("\n");
 }
 
+export function buildBrainstormSelfAnswerPrompt(
+	scoutOutput: string,
+	userDescription: string,
+	questions: BrainstormQuestion[],
+): string {
+	const questionLines = questions.map((q) => {
+		const options = q.type === "choice" && q.options?.length ? ` (options: ${q.options.join(" | ")})` : "";
+		return `- [${q.id}] ${q.text}${options}`;
+	}).join("\n");
+	return [
+		`## Task: Answer your clarifying questions`,
+		``,
+		`The user wants: ${userDescription}`,
+		``,
+		`## Questions`,
+		questionLines,
+		``,
+		`## Project context (from scout)`,
+		scoutOutput,
+		``,
+		`## Instructions`,
+		`This workflow runs unattended — nobody is available to answer these questions.`,
+		`Answer each one yourself with what best fits the request and the project context.`,
+		`For choice questions, answer with one of the listed options, verbatim.`,
+		``,
+		`Return a \`\`\`superteam-brainstorm block with type "questions", repeating every question with its id and an "answer" field.`,
+		``,
+		`IMPORTANT: In your JSON output, never use literal newlines inside string values. Use \\n escape sequences instead.`,
+	].join("\n");
+}
+
 export function buildBrainstormApproachesPrompt(
 	scoutOutput: string,
 	userDescription: string,
@@ -329,7 +381,7 @@ export function buildPlannerPromptFromDesign(
 		``,
 		`## Instructions`,
 		`The plan must contain a \`\`\`superteam-tasks block with YAML task list.`,
-		`Each task needs: title, description, files.`,
+		`Each task needs: title, description, files. Add dependsOn: [ids] when a task needs earlier tasks (1-based, no cycles).`,
 		`Keep tasks small: 1-3 files, 2-5 min each.`,
 		`Use TDD — each task should mention writing tests first.`,
 		`Include complete test code inline in task descriptions.`,
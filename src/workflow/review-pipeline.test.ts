@@ -0,0 +1,57 @@
+import { describe, it, expect } from "vitest";
+import { formatReviewPipeline, resolveReviewPipeline, reviewerAgentName } from "./review-pipeline.ts";
+
+const review = {
+	required: ["spec", "quality"],
+	optional: ["security", "a11y"],
+	parallelOptional: true,
+	profiles: [
+		{ paths: ["src/auth/**"], required: ["security"] },
+		{ paths: ["src/ui/**", "*.css"], optional: ["visual-reviewer"] },
+	],
+};
+
+describe("reviewerAgentName", () => {
+	it("maps review types to agents and keeps full agent names", () => {
+		expect(reviewerAgentName("spec")).toBe("spec-reviewer");
+		expect(reviewerAgentName("a11y-reviewer")).toBe("a11y-reviewer");
+	});
+});
+
+describe("resolveReviewPipeline", () => {
+	it("falls back to the default pipeline without config", () => {
+		expect(resolveReviewPipeline(undefined)).toEqual({
+			required: ["spec", "quality"],
+			optional: ["security", "performance"],
+			parallelOptional: true,
+			matchedProfiles: [],
+		});
+	});
+
+	it("applies profiles whose paths match the changed files", () => {
+		const pipeline = resolveReviewPipeline(review, ["src/auth/login.ts", "README.md"]);
+		expect(pipeline.required).toEqual(["spec", "quality", "security"]);
+		expect(pipeline.optional).toEqual(["a11y"]);
+		expect(pipeline.matchedProfiles).toEqual(["src/auth/**"]);
+	});
+
+	it("leaves the base pipeline when no profile matches", () => {
+		const pipeline = resolveReviewPipeline(review, ["docs/guide.md"]);
+		expect(pipeline.required).toEqual(["spec", "quality"]);
+		expect(pipeline.optional).toEqual(["security", "a11y"]);
+		expect(pipeline.matchedProfiles).toEqual([]);
+	});
+});
+
+describe("formatReviewPipeline", () => {
+	it("lists reviewers, profiles and missing agents", () => {
+		const installed = new Set(["spec-reviewer", "quality-reviewer", "security-reviewer"]);
+		expect(formatReviewPipeline(review, installed)).toBe([
+			"Review pipeline:",
+			"  Required: spec, quality",
+			"  Optional (parallel): security, a11y (no a11y-reviewer agent — skipped)",
+			"  When src/auth/** changes: + security (required)",
+			"  When src/ui/**, *.css changes: + visual-reviewer (no visual-reviewer agent — skipped)",
+		].join("\n"));
+	});
+});
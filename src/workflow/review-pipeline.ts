@@ -0,0 +1,86 @@
+/**
+ * Review pipeline — which reviewers run for a task, resolved from config.review.
+ *
+ * Entries in `required` / `optional` are review types ("spec", "a11y") mapped to
+ * `<type>-reviewer` agents, or full agent names ending in "-reviewer". Profiles add
+ * reviewers when a task changes files matching their path globs; a reviewer a
+ * profile makes required is no longer optional.
+ */
+
+import type { ReviewConfig, ReviewProfile } from "../config.js";
+import { matchesPathGlob } from "../rules/engine.js";
+
+const DEFAULT_REVIEW: Pick<ReviewConfig, "required" | "optional" | "parallelOptional" | "profiles"> = {
+	required: ["spec", "quality"],
+	optional: ["security", "performance"],
+	parallelOptional: true,
+	profiles: [],
+};
+
+export type ReviewPipeline = {
+	/** Review-fix loop reviewers, as review types */
+	required: string[];
+	/** One-shot reviewers; critical findings escalate */
+	optional: string[];
+	parallelOptional: boolean;
+	/** Path globs of the profiles that matched */
+	matchedProfiles: string[];
+};
+
+/** "spec" → "spec-reviewer"; names already ending in "-reviewer" are used as-is. */
+export function reviewerAgentName(reviewType: string): string {
+	return reviewType.endsWith("-reviewer") ? reviewType : `${reviewType}-reviewer`;
+}
+
+function profileMatches(profile: ReviewProfile, changedFiles: string[]): boolean {
+	return changedFiles.some((f) => profile.paths.some((glob) => matchesPathGlob(f, glob)));
+}
+
+/**
+ * Resolve the reviewers for a task. Without `changedFiles` no profile matches,
+ * giving the base pipeline. A missing `review` config falls back to the defaults.
+ */
+export function resolveReviewPipeline(review: Partial<ReviewConfig> | undefined, changedFiles: string[] = []): ReviewPipeline {
+	const base = { ...DEFAULT_REVIEW, ...review };
+	const required = [...base.required];
+	const optional = [...base.optional];
+	const matchedProfiles: string[] = [];
+
+	for (const profile of base.profiles ?? []) {
+		if (!profileMatches(profile, changedFiles)) continue;
+		matchedProfiles.push(profile.paths.join(", "));
+		for (const r of profile.required ?? []) if (!required.includes(r)) required.push(r);
+		for (const r of profile.optional ?? []) if (!optional.includes(r)) optional.push(r);
+	}
+
+	return {
+		required,
+		optional: optional.filter((r) => !required.includes(r)),
+		parallelOptional: base.parallelOptional,
+		matchedProfiles,
+	};
+}
+
+/**
+ * Human-readable pipeline for the configure phase. Reviewers whose agent is not
+ * installed are marked, since execute skips them.
+ */
+export function formatReviewPipeline(review: Partial<ReviewConfig> | undefined, availableAgents: Set<string>): string {
+	const mark = (r: string) => availableAgents.has(reviewerAgentName(r)) ? r : `${r} (no ${reviewerAgentName(r)} agent — skipped)`;
+	const list = (items: string[]) => items.length > 0 ? items.map(mark).join(", ") : "none";
+
+	const pipeline = resolveReviewPipeline(review);
+	const lines = [
+		"Review pipeline:",
+		`  Required: ${list(pipeline.required)}`,
+		`  Optional${pipeline.optional.length > 1 ? (pipeline.parallelOptional ? " (parallel)" : " (sequential)") : ""}: ${list(pipeline.optional)}`,
+	];
+	for (const profile of review?.profiles ?? []) {
+		const extra = [
+			...(profile.required ?? []).map((r) => `${mark(r)} (required)`),
+			...(profile.optional ?? []).map(mark),
+		];
+		if (extra.length > 0) lines.push(`  When ${profile.paths.join(", ")} changes: + ${extra.join(", ")}`);
+	}
+	return lines.join("\n");
+}
@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { initState, persistRuleStates, persistTddState, restoreFromBranch, setTddMode, getState } from "./state.ts";
+import { handleContext, loadRules, serializeRuleStates } from "../rules/engine.ts";
+import { AUDIT_FILE_ENV_VAR, getAuditLog, recordAuditEvent, resetAuditLog, workflowAuditLog, workflowAuditPath } from "./tdd-audit.ts";
+import { getTddState, grantBashWriteAllowance, markTestFileExists, resetTddState } from "./tdd-guard.ts";
+import { getConfig } from "../config.ts";
+
+function makePi() {
+	const entries: any[] = [];
+	const pi = {
+		appendEntry: vi.fn((customType: string, data: unknown) => {
+			entries.push({ type: "custom", customType, data });
+		}),
+	};
+	return { pi, entries };
+}
+
+function makeCtx(entries: any[]): any {
+	return { sessionManager: { getBranch: () => entries } };
+}
+
+function writeOnceRule(): string {
+	const dir = fs.mkdtempSync(path.join(os.tmpdir(), "state-rules-"));
+	fs.writeFileSync(
+		path.join(dir, "once.md"),
+		"---\nname: once-rule\ntrigger: \"magic word\"\nfrequency: once\n---\nOnce only\n",
+	);
+	return dir;
+}
+
+function fireCount(): number {
+	const result = handleContext({
+		type: "context",
+		messages: [{ role: "assistant", content: [{ type: "text", text: "the magic word" }] }],
+	} as any);
+	return (result?.messages ?? []).filter((m: any) => m.content?.[0]?.text?.includes("once-rule")).length;
+}
+
+describe("rule firing persistence", () => {
+	let rulesDir: string;
+
+	beforeEach(() => {
+		rulesDir = writeOnceRule();
+		loadRules(rulesDir);
+	});
+
+	afterEach(() => {
+		fs.rmSync(rulesDir, { recursive: true, force: true });
+		loadRules();
+	});
+
+	it("restores firing history so once rules stay fired after resume", () => {
+		const { pi, entries } = makePi();
+		initState(pi as any);
+
+		expect(fireCount()).toBe(1);
+		persistRuleStates();
+
+		// Simulate session_start: rules reloaded (history wiped), then restored from branch
+		loadRules(rulesDir);
+		restoreFromBranch(makeCtx(entries));
+		expect(fireCount()).toBe(0);
+	});
+
+	it("resets firing history on a branch without rule entries", () => {
+		const { pi } = makePi();
+		initState(pi as any);
+
+		expect(fireCount()).toBe(1);
+		restoreFromBranch(makeCtx([]));
+		expect(fireCount()).toBe(1);
+	});
+
+	it("restores workflow state and rule history independently", () => {
+		const { pi, entries } = makePi();
+		initState(pi as any);
+
+		setTddMode("tdd");
+		fireCount();
+		persistRuleStates();
+
+		restoreFromBranch(makeCtx(entries));
+		expect(getState().tddMode).toBe("tdd");
+		expect(entries.map((e) => e.customType)).toEqual(["superteam-state", "superteam-rules"]);
+	});
+
+	it("persists the turn counter once per turn and skips unchanged history", () => {
+		const { pi, entries } = makePi();
+		initState(pi as any);
+
+		fireCount();
+		persistRuleStates();
+		persistRuleStates();
+		fireCount(); // A turn where nothing fires
+		persistRuleStates();
+		expect(entries.map((e) => e.data.rules.currentTurn)).toEqual([1, 2]);
+
+		loadRules(rulesDir);
+		restoreFromBranch(makeCtx(entries));
+		persistRuleStates();
+		expect(entries).toHaveLength(2);
+		expect(serializeRuleStates().currentTurn).toBe(2);
+	});
+});
+
+describe("TDD guard state persistence", () => {
+	const config = getConfig("/nonexistent-path-for-test", true);
+
+	beforeEach(() => {
+		resetTddState();
+		resetAuditLog();
+	});
+
+	it("restores known test files after a session restart", () => {
+		const { pi, entries } = makePi();
+		initState(pi as any);
+
+		markTestFileExists("src/foo.test.ts", config);
+		getTddState().testFiles["src/foo.test.ts"].hasEverRun = true;
+		persistTddState();
+
+		// Simulate session_start in a fresh process
+		resetTddState();
+		restoreFromBranch(makeCtx(entries));
+		expect(getTddState().testFiles["src/foo.test.ts"]).toEqual({ exists: true, hasEverRun: true });
+	});
+
+	it("snapshots the state so later changes don't leak into earlier entries", () => {
+		const { pi, entries } = makePi();
+		initState(pi as any);
+
+		markTestFileExists("src/a.test.ts", config);
+		persistTddState();
+		const branchAtA = [...entries];
+		markTestFileExists("src/b.test.ts", config);
+		persistTddState();
+
+		restoreFromBranch(makeCtx(branchAtA));
+		expect(Object.keys(getTddState().testFiles)).toEqual(["src/a.test.ts"]);
+	});
+
+	it("only appends an entry when the state changed", () => {
+		const { pi, entries } = makePi();
+		initState(pi as any);
+
+		persistTddState();
+		markTestFileExists("src/a.test.ts", config);
+		persistTddState();
+		persistTddState();
+		grantBashWriteAllowance("codegen");
+		persistTddState();
+
+		// Granting the allowance is also an audit event, stored in its own entry
+		expect(entries.map((e) => e.customType)).toEqual(["superteam-tdd", "superteam-tdd", "superteam-tdd-audit", "superteam-tdd"]);
+	});
+
+	it("resets the guard on a branch without TDD entries", () => {
+		const { pi } = makePi();
+		initState(pi as any);
+
+		markTestFileExists("src/a.test.ts", config);
+		restoreFromBranch(makeCtx([]));
+		expect(getTddState().testFiles).toEqual({});
+	});
+
+	it("restores the audit log from all audit entries on the branch", () => {
+		const { pi, entries } = makePi();
+		initState(pi as any);
+
+		grantBashWriteAllowance("codegen");
+		persistTddState();
+		recordAuditEvent({ at: 2, kind: "impl-write", file: "src/a.ts", testFile: "src/a.test.ts" });
+		persistTddState();
+		persistTddState();
+		expect(entries.filter((e) => e.customType === "superteam-tdd-audit")).toHaveLength(2);
+
+		resetAuditLog();
+		restoreFromBranch(makeCtx(entries));
+		expect(getAuditLog().map((e) => e.kind)).toEqual(["override", "impl-write"]);
+
+		restoreFromBranch(makeCtx([]));
+		expect(getAuditLog()).toEqual([]);
+	});
+
+	it("merges audit events recorded in a workflow subprocess into the workflow log", () => {
+		const dir = fs.mkdtempSync(path.join(os.tmpdir(), "state-audit-"));
+		const { pi } = makePi();
+		initState(pi as any);
+		try {
+			// The implementer subprocess, dispatched with the workflow's audit file
+			process.env[AUDIT_FILE_ENV_VAR] = workflowAuditPath(dir);
+			recordAuditEvent({ at: 2, kind: "impl-write", file: "src/a.ts", testFile: "src/a.test.ts" });
+			persistTddState();
+			delete process.env[AUDIT_FILE_ENV_VAR];
+
+			// The parent session
+			resetAuditLog();
+			recordAuditEvent({ at: 1, kind: "override", reason: "codegen" });
+			persistTddState();
+
+			expect(workflowAuditLog(dir).map((e) => e.kind)).toEqual(["override", "impl-write"]);
+			expect(getAuditLog().map((e) => e.kind)).toEqual(["override"]);
+		} finally {
+			delete process.env[AUDIT_FILE_ENV_VAR];
+			fs.rmSync(dir, { recursive: true, force: true });
+		}
+	});
+});
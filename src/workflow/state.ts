@@ -1,5 +1,5 @@
 /**
- * Workflow state — plan tracking, TDD mode, review cycles, session persistence.
+ * Workflow state — plan tracking, TDD mode, review cycles, rule firing history, TDD guard state and audit log, session persistence.
  *
  * Branch-aware: all state derived from session entries via getBranch().
  * No global mutable state — state is reconstructed on resume.
@@ -8,6 +8,9 @@
 
 import * as fs from "node:fs";
 import type { ExtensionAPI, ExtensionContext } from "@mariozechner/pi-coding-agent";
+import { resetRuleStates, restoreRuleStates, serializeRuleStates, type RuleFiringState } from "../rules/engine.js";
+import { AUDIT_FILE_ENV_VAR, appendAuditEvents, resetAuditLog, restoreAuditLog, takeUnpersistedAuditEvents, type TddAuditEvent } from "./tdd-audit.js";
+import { resetTddState, restoreTddState, serializeTddState, type TddState } from "./tdd-guard.js";
 
 // --- Types ---
 
@@ -20,6 +23,7 @@ export interface PlanTask {
 	title: string;
 	description: string;
 	files: string[];
+	dependsOn?: number[];
 	status: TaskStatus;
 	reviewsPassed: string[];
 	reviewsFailed: string[];
@@ -54,6 +58,28 @@ interface StateEntry {
 	state: WorkflowState;
 }
 
+const RULES_ENTRY_TYPE = "superteam-rules";
+
+interface RulesEntry {
+	version: 1;
+	rules: RuleFiringState;
+}
+
+const TDD_ENTRY_TYPE = "superteam-tdd";
+
+interface TddEntry {
+	version: 1;
+	tdd: TddState;
+}
+
+/** Append-only: each entry holds the audit events recorded since the previous one */
+const TDD_AUDIT_ENTRY_TYPE = "superteam-tdd-audit";
+
+interface TddAuditEntry {
+	version: 1;
+	events: TddAuditEvent[];
+}
+
 // --- Default state ---
 
 function defaultState(): WorkflowState {
@@ -110,6 +136,7 @@ function toPlanTask(t: ParsedTask): PlanTask {
 		title: t.title,
 		description: t.description,
 		files: t.files,
+		dependsOn: t.dependsOn,
 		status: "pending",
 		reviewsPassed: [],
 		reviewsFailed: [],
@@ -122,10 +149,16 @@ function toPlanTask(t: ParsedTask): PlanTask {
 /** In-memory state cache (reconstructed from session on resume) */
 let currentState: WorkflowState = defaultState();
 let piRef: ExtensionAPI | null = null;
+/** JSON of the last persisted (or restored) TDD guard state — skips unchanged snapshots */
+let lastTddSnapshot: string | null = null;
+/** Same for rule firing history */
+let lastRulesSnapshot: string | null = null;
 
 export function initState(pi: ExtensionAPI): void {
 	piRef = pi;
 	currentState = defaultState();
+	lastTddSnapshot = null;
+	lastRulesSnapshot = null;
 }
 
 export function getState(): WorkflowState {
@@ -146,20 +179,87 @@ function persist(): void {
 	piRef.appendEntry(ENTRY_TYPE, entry);
 }
 
+/**
+ * Persist rule firing history and the turn counter so `once` / `cooldown:N` hold
+ * across resumes. Called once per turn and after rules fire; only appends an
+ * entry when the history changed since the last snapshot.
+ */
+export function persistRuleStates(): void {
+	if (!piRef) return;
+	const rules = serializeRuleStates();
+	const snapshot = JSON.stringify(rules);
+	if (snapshot === lastRulesSnapshot) return;
+	lastRulesSnapshot = snapshot;
+	const entry: RulesEntry = { version: 1, rules };
+	piRef.appendEntry(RULES_ENTRY_TYPE, entry);
+}
+
+/**
+ * Persist the TDD guard state (known test files, runs, bash allowance) so the guard
+ * doesn't block legitimate edits after a resume. Called after guard events; only
+ * appends an entry when the state changed since the last snapshot. New audit log
+ * events go in their own entry, and in a workflow subprocess also to the file
+ * named by AUDIT_FILE_ENV_VAR.
+ */
+export function persistTddState(): void {
+	if (!piRef) return;
+	const events = takeUnpersistedAuditEvents();
+	const auditFile = process.env[AUDIT_FILE_ENV_VAR];
+	if (auditFile) {
+		try {
+			appendAuditEvents(auditFile, events);
+		} catch {
+			// Non-fatal — the report just misses these events
+		}
+	}
+	if (events.length > 0) {
+		const auditEntry: TddAuditEntry = { version: 1, events };
+		piRef.appendEntry(TDD_AUDIT_ENTRY_TYPE, auditEntry);
+	}
+	const tdd = serializeTddState();
+	const snapshot = JSON.stringify(tdd);
+	if (snapshot === lastTddSnapshot) return;
+	lastTddSnapshot = snapshot;
+	const entry: TddEntry = { version: 1, tdd };
+	piRef.appendEntry(TDD_ENTRY_TYPE, entry);
+}
+
 /**
  * Reconstruct state from session branch entries.
- * Called on session_start to restore from persisted state.
+ * Called on session_start and session_tree to restore from persisted state.
+ * Each kind of state comes from its latest entry on this branch, or is reset;
+ * the TDD audit log is the concatenation of all its entries on the branch.
  */
 export function restoreFromBranch(ctx: ExtensionContext): void {
 	const entries = ctx.sessionManager.getBranch();
 	let lastState: WorkflowState | null = null;
+	let lastRules: RuleFiringState | null = null;
+	let lastTdd: TddState | null = null;
+	const auditEvents: TddAuditEvent[] = [];
 
 	for (const entry of entries) {
-		if (entry.type === "custom" && (entry as any).customType === ENTRY_TYPE) {
+		if (entry.type !== "custom") continue;
+		const customType = (entry as any).customType;
+		if (customType === ENTRY_TYPE) {
 			const data = (entry as any).data as StateEntry | undefined;
 			if (data?.version === 1 && data.state) {
 				lastState = data.state;
 			}
+		} else if (customType === RULES_ENTRY_TYPE) {
+			const data = (entry as any).data as RulesEntry | undefined;
+			if (data?.version === 1 && data.rules) {
+				lastRules = data.rules;
+			}
+		} else if (customType === TDD_ENTRY_TYPE) {
+			const data = (entry as any).data as TddEntry | undefined;
+			if (data?.version === 1 && data.tdd) {
+				lastTdd = data.tdd;
+			}
+		} else if (customType === TDD_AUDIT_ENTRY_TYPE) {
+			const data = (entry as any).data as TddAuditEntry | undefined;
+			if (data?.version === 1 && Array.isArray(data.events)) {
+				auditEvents.push(...data.events);
+			}
 		}
 	}
 
@@ -168,6 +268,26 @@ export function restoreFromBranch(ctx: ExtensionContext): void {
 	} else {
 		currentState = defaultState();
 	}
+
+	if (lastRules) {
+		restoreRuleStates(lastRules);
+	} else {
+		resetRuleStates();
+	}
+	lastRulesSnapshot = JSON.stringify(serializeRuleStates());
+
+	if (lastTdd) {
+		restoreTddState(lastTdd);
+	} else {
+		resetTddState();
+	}
+	lastTddSnapshot = JSON.stringify(serializeTddState());
+
+	if (auditEvents.length > 0) {
+		restoreAuditLog(auditEvents);
+	} else {
+		resetAuditLog();
+	}
 }
 
 // --- Task operations ---
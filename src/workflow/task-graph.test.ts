@@ -0,0 +1,69 @@
+import { describe, it, expect } from "vitest";
+import { validateTaskDependencies, dependenciesMet, nextRunnableTaskIndex } from "./task-graph.ts";
+
+describe("validateTaskDependencies", () => {
+	it("accepts a valid DAG and tasks without dependencies", () => {
+		expect(validateTaskDependencies([
+			{ id: 1 },
+			{ id: 2, dependsOn: [1] },
+			{ id: 3, dependsOn: [1, 2] },
+		])).toEqual([]);
+	});
+
+	it("reports unknown ids", () => {
+		expect(validateTaskDependencies([{ id: 1 }, { id: 2, dependsOn: [7] }]))
+			.toEqual(["Task 2 depends on unknown task 7"]);
+	});
+
+	it("reports duplicate ids", () => {
+		expect(validateTaskDependencies([{ id: 1 }, { id: 2 }, { id: 2, dependsOn: [1] }]))
+			.toEqual(["Task id 2 is used by more than one task"]);
+	});
+
+	it("reports self-dependencies", () => {
+		expect(validateTaskDependencies([{ id: 1, dependsOn: [1] }]))
+			.toEqual(["Task 1 depends on itself"]);
+	});
+
+	it("reports cycles with the full path", () => {
+		expect(validateTaskDependencies([
+			{ id: 1, dependsOn: [3] },
+			{ id: 2, dependsOn: [1] },
+			{ id: 3, dependsOn: [2] },
+		])).toEqual(["Dependency cycle: Task 1 → Task 3 → Task 2 → Task 1"]);
+	});
+});
+
+describe("nextRunnableTaskIndex", () => {
+	it("picks the first unfinished task whose dependencies are complete", () => {
+		const tasks = [
+			{ id: 1, status: "complete" },
+			{ id: 2, status: "pending", dependsOn: [3] },
+			{ id: 3, status: "pending" },
+		];
+		expect(nextRunnableTaskIndex(tasks)).toBe(2);
+		tasks[2].status = "complete";
+		expect(nextRunnableTaskIndex(tasks)).toBe(1);
+	});
+
+	it("returns -1 when all tasks are done", () => {
+		expect(nextRunnableTaskIndex([{ id: 1, status: "complete" }, { id: 2, status: "skipped" }])).toBe(-1);
+	});
+
+	it("returns -1 when remaining tasks are blocked by a skipped dependency", () => {
+		expect(nextRunnableTaskIndex([
+			{ id: 1, status: "skipped" },
+			{ id: 2, status: "pending", dependsOn: [1] },
+		])).toBe(-1);
+	});
+
+	it("resumes an in-progress task", () => {
+		expect(nextRunnableTaskIndex([{ id: 1, status: "complete" }, { id: 2, status: "reviewing" }])).toBe(1);
+	});
+});
+
+describe("dependenciesMet", () => {
+	it("ignores ids that are no longer in the task list", () => {
+		expect(dependenciesMet({ id: 2, dependsOn: [1] }, [{ id: 2, status: "pending" }])).toBe(true);
+	});
+});
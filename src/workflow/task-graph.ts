@@ -0,0 +1,99 @@
+/**
+ * Task graph — dependency validation and runnable-task selection.
+ *
+ * Tasks declare `dependsOn` as a list of task ids. Plans are rejected when a
+ * dependency points at an unknown id or forms a cycle; at execution time the
+ * next task is picked in topological order (ties broken by plan order).
+ *
+ * Pure functions — no I/O, no state dependencies.
+ */
+
+export interface GraphTask {
+	id: number;
+	dependsOn?: number[];
+}
+
+export interface GraphExecTask extends GraphTask {
+	status: string;
+}
+
+const DONE_STATUSES = new Set(["complete", "skipped", "escalated"]);
+
+/**
+ * Validate task dependencies. Returns one human-readable error per problem,
+ * or an empty array when the graph is a valid DAG.
+ */
+export function validateTaskDependencies(tasks: GraphTask[]): string[] {
+	const errors: string[] = [];
+	const ids = new Set<number>();
+	for (const task of tasks) {
+		if (ids.has(task.id)) errors.push(`Task id ${task.id} is used by more than one task`);
+		ids.add(task.id);
+	}
+
+	for (const task of tasks) {
+		for (const dep of task.dependsOn ?? []) {
+			if (dep === task.id) {
+				errors.push(`Task ${task.id} depends on itself`);
+			} else if (!ids.has(dep)) {
+				errors.push(`Task ${task.id} depends on unknown task ${dep}`);
+			}
+		}
+	}
+	if (errors.length > 0) return errors;
+
+	const cycle = findCycle(tasks);
+	if (cycle) {
+		errors.push(`Dependency cycle: ${cycle.map((id) => `Task ${id}`).join(" → ")}`);
+	}
+	return errors;
+}
+
+/** True when every dependency of `task` is complete. Unknown ids are ignored. */
+export function dependenciesMet(task: GraphTask, tasks: GraphExecTask[]): boolean {
+	for (const dep of task.dependsOn ?? []) {
+		const target = tasks.find((t) => t.id === dep);
+		if (target && target.status !== "complete") return false;
+	}
+	return true;
+}
+
+/**
+ * Index of the next task to execute: the first unfinished task, in plan order,
+ * whose dependencies are all complete. Returns -1 when nothing is runnable —
+ * either everything is done or the remaining tasks are blocked by a
+ * skipped/escalated dependency.
+ */
+export function nextRunnableTaskIndex(tasks: GraphExecTask[]): number {
+	return tasks.findIndex((t) => !DONE_STATUSES.has(t.status) && dependenciesMet(t, tasks));
+}
+
+// --- Internal ---
+
+function findCycle(tasks: GraphTask[]): number[] | null {
+	const byId = new Map(tasks.map((t) => [t.id, t]));
+	const state = new Map<number, "visiting" | "done">();
+	const stack: number[] = [];
+
+	const visit = (id: number): number[] | null => {
+		const mark = state.get(id);
+		if (mark === "done") return null;
+		if (mark === "visiting") return [...stack.slice(stack.indexOf(id)), id];
+
+		state.set(id, "visiting");
+		stack.push(id);
+		for (const dep of byId.get(id)?.dependsOn ?? []) {
+			const cycle = visit(dep);
+			if (cycle) return cycle;
+		}
+		stack.pop();
+		state.set(id, "done");
+		return null;
+	};
+
+	for (const task of tasks) {
+		const cycle = visit(task.id);
+		if (cycle) return cycle;
+	}
+	return null;
+}
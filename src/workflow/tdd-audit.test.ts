@@ -0,0 +1,48 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { formatTddReport, getAuditLog, recordAuditEvent, resetAuditLog, takeUnpersistedAuditEvents, type TddAuditEvent } from "./tdd-audit.ts";
+
+const T0 = Date.UTC(2026, 0, 5, 10, 0, 0);
+
+const events: TddAuditEvent[] = [
+	{ at: T0, kind: "test-run", files: ["src/a.test.ts"], suite: false, passed: false },
+	{ at: T0 + 1000, kind: "impl-write", file: "src/a.ts", testFile: "src/a.test.ts" },
+	{ at: T0 + 2000, kind: "block", files: ["src/b.ts"], reason: "TDD: Create a test file first. Expected: src/b.test.ts" },
+	{ at: T0 + 3000, kind: "impl-write", file: "scripts/gen.ts", testFile: null },
+	{ at: T0 + 4000, kind: "override", reason: "regenerating fixtures" },
+	{ at: T0 + 5000, kind: "override-used", command: "git apply fix.patch", files: [] },
+	{ at: T0 + 6000, kind: "impl-write", file: "src/c.ts", testFile: "src/c.test.ts" },
+];
+
+describe("audit log", () => {
+	beforeEach(() => resetAuditLog());
+
+	it("hands out each event for persistence once", () => {
+		recordAuditEvent(events[0]);
+		expect(takeUnpersistedAuditEvents()).toEqual([events[0]]);
+		recordAuditEvent(events[1]);
+		expect(takeUnpersistedAuditEvents()).toEqual([events[1]]);
+		expect(getAuditLog()).toEqual([events[0], events[1]]);
+	});
+});
+
+describe("formatTddReport", () => {
+	it("summarizes unmapped files, overrides, test-first order and the timeline", () => {
+		const report = formatTddReport(events, { mode: "tdd", scope: "session" });
+
+		expect(report).toContain("- **Activity:** 3 implementation write(s), 1 test run(s), 1 block(s), 1 override(s)");
+		expect(report).toContain("### Implementation files without a mapped test\n\n- `scripts/gen.ts`");
+		expect(report).toContain('- 2026-01-05 10:00:04 — "regenerating fixtures" — used by `git apply fix.patch`');
+		expect(report).toContain("- `src/a.ts` — ✓ test ran before the first write");
+		expect(report).toContain("- `src/c.ts` — ✗ first write before its test ran in this scope");
+		expect(report).toContain("| 2026-01-05 10:00:02 | Blocked | `src/b.ts`: TDD: Create a test file first. Expected: src/b.test.ts |");
+		expect(report).toContain("| 2026-01-05 10:00:00 | Test run | `src/a.test.ts` — failed |");
+	});
+
+	it("limits a workflow report to events since the workflow started", () => {
+		const report = formatTddReport(events, { mode: "tdd", scope: 'workflow "add auth"', since: T0 + 3500 });
+
+		expect(report).toContain('- **Scope:** workflow "add auth" (since 2026-01-05 10:00:03 UTC)');
+		expect(report).toContain("### Implementation files without a mapped test\n\nNone.");
+		expect(report).not.toContain("src/a.ts");
+	});
+});
@@ -0,0 +1,221 @@
+/**
+ * TDD audit log — what the guard saw and decided, in order: implementation writes,
+ * test runs, blocks and bash-write overrides. Persisted in session entries (see
+ * state.ts) and summarized by `/tdd report` as Markdown for PR descriptions.
+ *
+ * Workflow subprocesses run without a session, so they append their events to
+ * .superteam-tdd-audit.jsonl in the project directory instead (one JSON object
+ * per line), named by the AUDIT_FILE_ENV_VAR the dispatcher sets.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+
+export type TddAuditEvent =
+	| {
+		at: number;
+		kind: "impl-write";
+		file: string;
+		/** Mapped test file, or null when no mapping strategy matched */
+		testFile: string | null;
+	}
+	| {
+		at: number;
+		kind: "test-run";
+		/** Test files that ran; empty with `suite` for a whole-suite run */
+		files: string[];
+		suite: boolean;
+		/** Unknown for user bash runs (pre-execution hook) */
+		passed?: boolean;
+	}
+	| {
+		at: number;
+		kind: "block";
+		files: string[];
+		/** First line of the block message */
+		reason: string;
+	}
+	| {
+		at: number;
+		kind: "override";
+		reason: string;
+	}
+	| {
+		at: number;
+		kind: "override-used";
+		command: string;
+		files: string[];
+	};
+
+let auditLog: TddAuditEvent[] = [];
+/** Events recorded since the last persisted audit entry */
+let unpersisted: TddAuditEvent[] = [];
+
+export function recordAuditEvent(event: TddAuditEvent): void {
+	auditLog.push(event);
+	unpersisted.push(event);
+}
+
+export function getAuditLog(): TddAuditEvent[] {
+	return auditLog;
+}
+
+export function resetAuditLog(): void {
+	auditLog = [];
+	unpersisted = [];
+}
+
+/** Replace the log with the events persisted on the current branch. */
+export function restoreAuditLog(events: TddAuditEvent[]): void {
+	auditLog = [...events];
+	unpersisted = [];
+}
+
+/** Events not yet written to a session entry; the caller persists them. */
+export function takeUnpersistedAuditEvents(): TddAuditEvent[] {
+	const events = unpersisted;
+	unpersisted = [];
+	return events;
+}
+
+// --- Subprocess events ---
+
+/** Env var naming the file a dispatched subprocess appends its audit events to */
+export const AUDIT_FILE_ENV_VAR = "PI_SUPERTEAM_TDD_AUDIT_FILE";
+
+const WORKFLOW_AUDIT_FILE = ".superteam-tdd-audit.jsonl";
+
+/** Where the current workflow's subprocesses record their audit events. */
+export function workflowAuditPath(cwd: string): string {
+	return path.join(cwd, WORKFLOW_AUDIT_FILE);
+}
+
+export function appendAuditEvents(filePath: string, events: TddAuditEvent[]): void {
+	if (events.length === 0) return;
+	fs.appendFileSync(filePath, events.map((e) => JSON.stringify(e) + "\n").join(""));
+}
+
+/** Audit events recorded by the workflow's subprocesses. */
+export function readWorkflowAuditEvents(cwd: string): TddAuditEvent[] {
+	const p = workflowAuditPath(cwd);
+	if (!fs.existsSync(p)) return [];
+	const events: TddAuditEvent[] = [];
+	for (const line of fs.readFileSync(p, "utf-8").split("\n")) {
+		if (!line.trim()) continue;
+		try {
+			events.push(JSON.parse(line));
+		} catch {
+			// Partial write — skip the line
+		}
+	}
+	return events;
+}
+
+export function clearWorkflowAuditEvents(cwd: string): void {
+	fs.rmSync(workflowAuditPath(cwd), { force: true });
+}
+
+/** This session's events and the workflow subprocesses', in time order. */
+export function workflowAuditLog(cwd: string): TddAuditEvent[] {
+	return [...auditLog, ...readWorkflowAuditEvents(cwd)].sort((a, b) => a.at - b.at);
+}
+
+// --- Report ---
+
+export interface TddReportOptions {
+	mode: string;
+	/** "session", or the workflow description */
+	scope: string;
+	/** Only events at or after this time (workflow start) */
+	since?: number;
+}
+
+function formatTime(at: number): string {
+	return new Date(at).toISOString().slice(0, 19).replace("T", " ");
+}
+
+function code(files: string[]): string {
+	return files.map((f) => `\`${f}\``).join(", ");
+}
+
+function describeEvent(event: TddAuditEvent): [string, string] {
+	switch (event.kind) {
+		case "impl-write":
+			return ["Impl write", `${code([event.file])}${event.testFile ? ` (test: ${code([event.testFile])})` : " (no mapped test)"}`];
+		case "test-run": {
+			const result = event.passed === undefined ? "result unknown" : event.passed ? "passed" : "failed";
+			return ["Test run", `${event.suite ? "whole suite" : code(event.files)} — ${result}`];
+		}
+		case "block":
+			return ["Blocked", `${event.files.length > 0 ? `${code(event.files)}: ` : ""}${event.reason}`];
+		case "override":
+			return ["Override granted", `"${event.reason}"`];
+		case "override-used":
+			return ["Override used", `\`${event.command}\`${event.files.length > 0 ? ` → ${code(event.files)}` : ""}`];
+	}
+}
+
+/** Escape a value for a Markdown table cell. */
+function cell(text: string): string {
+	return text.replace(/\|/g, "\\|").replace(/\n/g, " ");
+}
+
+/**
+ * Markdown compliance report: implementation files without a mapped test,
+ * overrides with their reasons, whether each file's test ran before its first
+ * write, and the full timeline.
+ */
+export function formatTddReport(events: TddAuditEvent[], options: TddReportOptions): string {
+	const scoped = events.filter((e) => options.since === undefined || e.at >= options.since);
+	const writes = scoped.filter((e) => e.kind === "impl-write");
+	const runs = scoped.filter((e) => e.kind === "test-run");
+	const blocks = scoped.filter((e) => e.kind === "block");
+	const overrides = scoped.filter((e) => e.kind === "override");
+	const used = scoped.filter((e) => e.kind === "override-used");
+
+	const lines = [
+		"## TDD compliance report",
+		"",
+		`- **Scope:** ${options.scope}${options.since !== undefined ? ` (since ${formatTime(options.since)} UTC)` : ""}`,
+		`- **Mode:** ${options.mode.toUpperCase()}`,
+		`- **Activity:** ${writes.length} implementation write(s), ${runs.length} test run(s), ${blocks.length} block(s), ${overrides.length} override(s)`,
+	];
+
+	lines.push("", "### Implementation files without a mapped test", "");
+	const unmapped = [...new Set(writes.filter((w) => !w.testFile).map((w) => w.file))];
+	if (unmapped.length === 0) lines.push("None.");
+	for (const file of unmapped) lines.push(`- ${code([file])}`);
+
+	lines.push("", "### Overrides", "");
+	if (overrides.length === 0) lines.push("None.");
+	for (const override of overrides) {
+		// An override covers the next guarded bash mutation after it was granted
+		const use = used.find((u) => u.at >= override.at);
+		const usage = use ? `used by \`${use.command}\`${use.files.length > 0 ? ` on ${code(use.files)}` : ""}` : "unused";
+		lines.push(`- ${formatTime(override.at)} — "${override.reason}" — ${usage}`);
+	}
+
+	lines.push("", "### Test-first order", "");
+	const firstWrites = new Map<string, Extract<TddAuditEvent, { kind: "impl-write" }>>();
+	for (const write of writes) {
+		if (write.testFile && !firstWrites.has(write.file)) firstWrites.set(write.file, write);
+	}
+	if (firstWrites.size === 0) lines.push("No implementation writes with a mapped test.");
+	for (const [file, write] of firstWrites) {
+		const ranBefore = runs.some((r) => r.at <= write.at && (r.suite || r.files.includes(write.testFile!)));
+		lines.push(`- ${code([file])} — ${ranBefore ? "✓ test ran before the first write" : "✗ first write before its test ran in this scope"}`);
+	}
+
+	lines.push("", "### Timeline", "");
+	if (scoped.length === 0) {
+		lines.push("No events recorded.");
+	} else {
+		lines.push("| Time (UTC) | Event | Details |", "| --- | --- | --- |");
+		for (const event of scoped) {
+			const [label, details] = describeEvent(event);
+			lines.push(`| ${formatTime(event.at)} | ${label} | ${cell(details)} |`);
+		}
+	}
+
+	return lines.join("\n");
+}
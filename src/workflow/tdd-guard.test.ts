@@ -0,0 +1,465 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+
+vi.mock("./git-utils.js", () => ({
+	getTrackedFiles: vi.fn(),
+}));
+
+import { getTrackedFiles } from "./git-utils.ts";
+import { formatTddReport, getAuditLog, resetAuditLog } from "./tdd-audit.ts";
+import { getConfig } from "../config.ts";
+import {
+	formatTddStatus,
+	getTddState,
+	grantBashWriteAllowance,
+	handleToolCall,
+	handleToolResult,
+	handleUserBash,
+	inlineTestMarker,
+	mapImplToTest,
+	mapTestToImpl,
+	markTestFileExists,
+	resetTddState,
+	resetTestFileCache,
+} from "./tdd-guard.ts";
+
+const mockGetTrackedFiles = vi.mocked(getTrackedFiles);
+
+function writeEvent(filePath: string): any {
+	return { type: "tool_call", toolCallId: "1", toolName: "write", input: { path: filePath, content: "" } };
+}
+
+/** A bash tool_result as pi sends it: no exit code in details, a non-zero exit is an error result. */
+function testRunResult(exitCode: number, command = "npx vitest run", output = ""): any {
+	const text = exitCode === 0 ? output : `${output}\n\nCommand exited with code ${exitCode}`;
+	return {
+		type: "tool_result", toolCallId: "2", toolName: "bash", input: { command },
+		content: [{ type: "text", text }], details: undefined, isError: exitCode !== 0,
+	};
+}
+
+describe("language presets", () => {
+	let tmpDir: string;
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+		getConfig("/nonexistent-path-for-test", true);
+		resetTddState();
+	});
+
+	function presetConfig(preset: string | string[]) {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "tdd-guard-"));
+		fs.writeFileSync(path.join(tmpDir, ".superteam.json"), JSON.stringify({ tddMode: "tdd", testFileMapping: { preset } }));
+		return getConfig(tmpDir, true);
+	}
+
+	it.each([
+		["python", "pkg/calc.py", "tests/pkg/test_calc.py", "pkg/calc.py"],
+		["python", "pkg/sub/foo.py", "tests/pkg/sub/test_foo.py", "pkg/sub/foo.py"],
+		["python", "setup.py", "tests/test_setup.py", "setup.py"],
+		["go", "pkg/calc/calc.go", "pkg/calc/calc_test.go", "pkg/calc/calc.go"],
+		["java", "src/main/java/com/acme/Calc.java", "src/test/java/com/acme/CalcTest.java", "src/main/java/com/acme/Calc.java"],
+		["kotlin", "src/main/kotlin/acme/Calc.kt", "src/test/kotlin/acme/CalcTest.kt", "src/main/kotlin/acme/Calc.kt"],
+		["ruby", "lib/acme/calc.rb", "spec/acme/calc_spec.rb", "lib/acme/calc.rb"],
+		["rust", "src/calc.rs", "src/calc.rs", "src/calc.rs"],
+	])("%s maps %s to %s and back", (preset, impl, test, back) => {
+		const config = presetConfig(preset);
+		expect(mapImplToTest(impl, config)).toBe(test);
+		expect(mapTestToImpl(test, config)).toBe(back);
+	});
+
+	it("maps prefix tests in the same directory without a test root", () => {
+		const config = presetConfig("python");
+		const sameDir = { ...config, testFileMapping: { ...config.testFileMapping, strategies: config.testFileMapping.strategies.slice(1) } };
+		expect(mapImplToTest("pkg/calc.py", sameDir)).toBe("pkg/test_calc.py");
+		expect(mapTestToImpl("pkg/test_calc.py", sameDir)).toBe("pkg/calc.py");
+	});
+
+	it("combines presets for polyglot repos", () => {
+		const config = presetConfig(["typescript", "go"]);
+		expect(mapImplToTest("web/app.ts", config)).toBe("web/app.test.ts");
+		expect(mapImplToTest("svc/main.go", config)).toBe("svc/main_test.go");
+		expect(inlineTestMarker("svc/main.go", config)).toBeUndefined();
+	});
+
+	it("takes `go test ./...` as a whole-suite run and package paths as whole-directory targets", () => {
+		const config = presetConfig("go");
+		const ctx = { cwd: tmpDir } as any;
+		markTestFileExists("pkg/calc/calc_test.go", config);
+		markTestFileExists("pkg/calcutil/util_test.go", config);
+
+		handleToolResult(testRunResult(1, "go test -run calc ./pkg/calc/..."), ctx);
+		expect(getTddState().testFiles["pkg/calc/calc_test.go"]).toMatchObject({ hasEverRun: true, lastPassed: false });
+		expect(getTddState().testFiles["pkg/calcutil/util_test.go"].hasEverRun).toBe(false);
+
+		handleToolResult(testRunResult(0, "go test ./..."), ctx);
+		expect(getTddState().testFiles["pkg/calcutil/util_test.go"]).toMatchObject({ hasEverRun: true, lastPassed: true });
+		expect(getTddState().lastTestRun).toMatchObject({ passed: true });
+	});
+
+	it("allows a Rust module write that adds its inline tests, then requires a test run", async () => {
+		presetConfig("rust");
+		const ctx = { cwd: tmpDir };
+		const blocked = await handleToolCall(writeEvent("src/calc.rs"), ctx as any);
+		expect(blocked?.reason).toContain("Expected an inline #[cfg(test)] test module in src/calc.rs");
+
+		const withTests = { ...writeEvent("src/calc.rs"), input: { path: "src/calc.rs", content: "fn add() {}\n#[cfg(test)]\nmod tests {}" } };
+		expect(await handleToolCall(withTests, ctx as any)).toBeUndefined();
+
+		const result = await handleToolCall(writeEvent("src/calc.rs"), ctx as any);
+		expect(result?.reason).toContain("Run your tests first");
+	});
+
+	it("counts inline tests as written only when the write adds them", async () => {
+		presetConfig("rust");
+		fs.writeFileSync(path.join(tmpDir, ".superteam.json"), JSON.stringify({ tddMode: "tdd", tddStrict: true, testFileMapping: { preset: "rust" } }));
+		getConfig(tmpDir, true);
+		const ctx = { cwd: tmpDir } as any;
+		fs.mkdirSync(path.join(tmpDir, "src"));
+		fs.writeFileSync(path.join(tmpDir, "src/calc.rs"), "fn add() {}\n#[cfg(test)]\nmod tests {}");
+		const rewrite = { ...writeEvent("src/calc.rs"), input: { path: "src/calc.rs", content: "fn add() { 1 }\n#[cfg(test)]\nmod tests {}" } };
+
+		expect((await handleToolCall(rewrite, ctx))?.reason).toContain("Run your tests first");
+
+		handleToolResult(testRunResult(0, "cargo test"), ctx);
+		expect((await handleToolCall(rewrite, ctx))?.reason).toContain("TDD (strict)");
+	});
+});
+
+describe("existing test discovery", () => {
+	let tmpDir: string;
+	let ctx: any;
+
+	beforeEach(() => {
+		vi.clearAllMocks();
+		mockGetTrackedFiles.mockResolvedValue([]);
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "tdd-guard-"));
+		fs.writeFileSync(path.join(tmpDir, ".superteam.json"), JSON.stringify({ tddMode: "tdd" }));
+		getConfig(tmpDir, true);
+		ctx = { cwd: tmpDir };
+		resetTddState();
+		resetTestFileCache();
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+		getConfig("/nonexistent-path-for-test", true);
+	});
+
+	it("blocks an impl write when no test exists anywhere", async () => {
+		const result = await handleToolCall(writeEvent("src/foo.ts"), ctx);
+		expect(result?.reason).toContain("Create a test file first. Expected: src/foo.test.ts");
+	});
+
+	it("finds a test file already on disk", async () => {
+		fs.mkdirSync(path.join(tmpDir, "src"));
+		fs.writeFileSync(path.join(tmpDir, "src/foo.test.ts"), "");
+
+		const result = await handleToolCall(writeEvent("src/foo.ts"), ctx);
+		// Exists — now only asks for a test run
+		expect(result?.reason).toContain("Run your tests first");
+		expect(getTddState().testFiles["src/foo.test.ts"].exists).toBe(true);
+	});
+
+	it("finds a test file tracked in git and caches the listing for the session", async () => {
+		mockGetTrackedFiles.mockResolvedValue(["src/foo.test.ts", "src/bar.test.ts"]);
+
+		await handleToolCall(writeEvent("src/foo.ts"), ctx);
+		await handleToolCall(writeEvent(path.join(tmpDir, "src/bar.ts")), ctx);
+
+		expect(getTddState().testFiles["src/foo.test.ts"].exists).toBe(true);
+		expect(getTddState().testFiles[path.join(tmpDir, "src/bar.test.ts")].exists).toBe(true);
+		expect(mockGetTrackedFiles).toHaveBeenCalledTimes(1);
+	});
+
+	it("allows the write once tests have run, including runs before the test was discovered", async () => {
+		mockGetTrackedFiles.mockResolvedValue(["src/foo.test.ts"]);
+		handleToolResult(testRunResult(0), ctx);
+
+		expect(await handleToolCall(writeEvent("src/foo.ts"), ctx)).toBeUndefined();
+		expect(getTddState().testFiles["src/foo.test.ts"]).toMatchObject({ hasEverRun: true, lastPassed: true });
+	});
+});
+
+describe("per-test-file run tracking", () => {
+	let tmpDir: string;
+	let ctx: any;
+	let config: any;
+
+	beforeEach(() => {
+		mockGetTrackedFiles.mockResolvedValue([]);
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "tdd-guard-"));
+		fs.writeFileSync(path.join(tmpDir, ".superteam.json"), JSON.stringify({ tddMode: "tdd" }));
+		config = getConfig(tmpDir, true);
+		ctx = { cwd: tmpDir };
+		resetTddState();
+		resetTestFileCache();
+		markTestFileExists("src/foo.test.ts", config);
+		markTestFileExists("src/other.test.ts", config);
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+		getConfig("/nonexistent-path-for-test", true);
+	});
+
+	it("marks only the test files named in the command", async () => {
+		handleToolResult(testRunResult(0, "npx vitest run ./src/other.test.ts"), ctx);
+
+		expect(getTddState().testFiles["src/other.test.ts"]).toMatchObject({ hasEverRun: true, lastPassed: true });
+		expect(getTddState().testFiles["src/foo.test.ts"].hasEverRun).toBe(false);
+		const result = await handleToolCall(writeEvent("src/foo.ts"), ctx);
+		expect(result?.reason).toContain("Run your tests first. Test file exists (src/foo.test.ts)");
+	});
+
+	it("shows a passing run of the mapped test as passed in /tdd status", async () => {
+		await handleToolCall(writeEvent("src/foo.ts"), ctx);
+		handleToolResult(testRunResult(0, "npx vitest run src/foo.test.ts"), ctx);
+
+		expect(formatTddStatus("tdd")).toContain("src/foo.ts → src/foo.test.ts  exists ✓  run ✓  passed ✓");
+	});
+
+	it("reports the pass/fail of test runs in the TDD report", () => {
+		resetAuditLog();
+		handleToolResult(testRunResult(0, "npx vitest run src/foo.test.ts"), ctx);
+		handleToolResult(testRunResult(1, "npx vitest run src/other.test.ts"), ctx);
+
+		const report = formatTddReport(getAuditLog(), { mode: "tdd", scope: "session" });
+		expect(report).toMatch(/\| Test run \| `src\/foo\.test\.ts` — passed \|/);
+		expect(report).toMatch(/\| Test run \| `src\/other\.test\.ts` — failed \|/);
+	});
+
+	it("selects known test files by filter argument and ignores flags", () => {
+		handleToolResult(testRunResult(1, "npx vitest run --reporter=verbose foo && echo done"), ctx);
+
+		expect(getTddState().testFiles["src/foo.test.ts"]).toMatchObject({ hasEverRun: true, lastPassed: false });
+		expect(getTddState().testFiles["src/other.test.ts"].hasEverRun).toBe(false);
+	});
+
+	it("treats a command without targets as a whole-suite run", () => {
+		handleToolResult(testRunResult(0, "npx vitest run --coverage"), ctx);
+
+		expect(getTddState().testFiles["src/foo.test.ts"].hasEverRun).toBe(true);
+		expect(getTddState().testFiles["src/other.test.ts"].hasEverRun).toBe(true);
+	});
+
+	it("does not take a runner subcommand or a flag value as a filter", () => {
+		markTestFileExists("src/runner.test.ts", config);
+		markTestFileExists("src/matcher.test.ts", config);
+		handleToolResult(testRunResult(1, "npx vitest run -t matcher"), ctx);
+
+		const files = getTddState().testFiles;
+		expect(files["src/runner.test.ts"]).toMatchObject({ hasEverRun: true, lastPassed: false });
+		expect(files["src/runner.test.ts"].lastFailedAt).toBeUndefined();
+		expect(files["src/foo.test.ts"].hasEverRun).toBe(true);
+		expect(files["src/matcher.test.ts"].lastFailedAt).toBeUndefined();
+	});
+
+	it("matches filters against whole path segments and basenames only", () => {
+		markTestFileExists("src/foobar.test.ts", config);
+		handleToolResult(testRunResult(1, "npx vitest run foo"), ctx);
+
+		expect(getTddState().testFiles["src/foo.test.ts"].lastPassed).toBe(false);
+		expect(getTddState().testFiles["src/foobar.test.ts"].hasEverRun).toBe(false);
+	});
+
+	it("takes per-file outcomes from the parsed test output", () => {
+		const output = [" ✓ src/foo.test.ts (3 tests) 12ms", " ✗ src/other.test.ts (2 tests) 8ms", " ✓ src/new.test.ts (1 test) 3ms"].join("\n");
+		handleToolResult(testRunResult(1, "npx vitest run", output), ctx);
+
+		const files = getTddState().testFiles;
+		expect(files["src/foo.test.ts"].lastPassed).toBe(true);
+		expect(files["src/other.test.ts"].lastPassed).toBe(false);
+		expect(files["src/new.test.ts"]).toMatchObject({ exists: true, hasEverRun: true, lastPassed: true });
+	});
+
+	it("tracks user bash runs per file without a pass/fail result", () => {
+		handleUserBash({ type: "user_bash", command: "npx vitest run src/foo.test.ts" } as any, ctx);
+
+		expect(getTddState().testFiles["src/foo.test.ts"]).toMatchObject({ hasEverRun: true });
+		expect(getTddState().testFiles["src/foo.test.ts"].lastPassed).toBeUndefined();
+		expect(getTddState().testFiles["src/other.test.ts"].hasEverRun).toBe(false);
+	});
+});
+
+describe("strict RED verification", () => {
+	let tmpDir: string;
+	let ctx: any;
+
+	beforeEach(() => {
+		mockGetTrackedFiles.mockResolvedValue([]);
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "tdd-guard-"));
+		fs.writeFileSync(path.join(tmpDir, ".superteam.json"), JSON.stringify({ tddMode: "tdd", tddStrict: true }));
+		ctx = { cwd: tmpDir };
+		resetTddState();
+		resetTestFileCache();
+		markTestFileExists("src/foo.test.ts", getConfig(tmpDir, true));
+		markTestFileExists("src/other.test.ts", getConfig(tmpDir));
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+		getConfig("/nonexistent-path-for-test", true);
+	});
+
+	it("blocks the first write while the mapped test has only passed", async () => {
+		handleToolResult(testRunResult(0, "npx vitest run src/foo.test.ts"), ctx);
+
+		const result = await handleToolCall(writeEvent("src/foo.ts"), ctx);
+		expect(result?.block).toBe(true);
+		expect(result?.reason).toContain("TDD (strict): Watch the test fail before the first write to src/foo.ts");
+		expect(result?.reason).toContain("src/foo.test.ts has only been seen passing");
+	});
+
+	it("keeps blocking after a passing run of just that test", async () => {
+		handleToolResult(testRunResult(0, "npx vitest run src/foo.test.ts", " ✓ src/foo.test.ts (1 test) 2ms"), ctx);
+
+		expect(getTddState().testFiles["src/foo.test.ts"].lastPassed).toBe(true);
+		expect(getTddState().testFiles["src/foo.test.ts"].lastFailedAt).toBeUndefined();
+		expect((await handleToolCall(writeEvent("src/foo.ts"), ctx))?.reason).toContain("has only been seen passing");
+	});
+
+	it("does not take a failing whole-suite exit code as evidence", async () => {
+		handleToolResult(testRunResult(1, "npx vitest run"), ctx);
+
+		const result = await handleToolCall(writeEvent("src/foo.ts"), ctx);
+		expect(result?.reason).toContain("Only a failing whole-suite run was seen");
+	});
+
+	it("allows the write after a failing run of just that test, then later writes too", async () => {
+		handleToolResult(testRunResult(1, "npx vitest run src/foo.test.ts"), ctx);
+		expect(await handleToolCall(writeEvent("src/foo.ts"), ctx)).toBeUndefined();
+
+		// GREEN and REFACTOR writes are not re-checked
+		handleToolResult(testRunResult(0, "npx vitest run src/foo.test.ts"), ctx);
+		expect(await handleToolCall(writeEvent("src/foo.ts"), ctx)).toBeUndefined();
+	});
+
+	it("accepts a failing result for the file in the parsed output", async () => {
+		const output = [" ✓ src/other.test.ts (2 tests) 4ms", " ✗ src/foo.test.ts (1 test) 3ms"].join("\n");
+		handleToolResult(testRunResult(1, "npx vitest run", output), ctx);
+
+		expect(await handleToolCall(writeEvent("src/foo.ts"), ctx)).toBeUndefined();
+		expect((await handleToolCall(writeEvent("src/other.ts"), ctx))?.block).toBe(true);
+	});
+});
+
+describe("bash file mutations", () => {
+	let tmpDir: string;
+	let ctx: any;
+
+	beforeEach(() => {
+		tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "tdd-guard-"));
+		fs.writeFileSync(path.join(tmpDir, ".superteam.json"), JSON.stringify({ tddMode: "tdd" }));
+		getConfig(tmpDir, true);
+		ctx = { cwd: tmpDir };
+		mockGetTrackedFiles.mockResolvedValue([]);
+		resetTddState();
+		resetTestFileCache();
+	});
+
+	afterEach(() => {
+		fs.rmSync(tmpDir, { recursive: true, force: true });
+		getConfig("/nonexistent-path-for-test", true);
+	});
+
+	function bashEvent(command: string): any {
+		return { type: "tool_call", toolCallId: "3", toolName: "bash", input: { command } };
+	}
+
+	it("allows test runs, test file writes and stderr redirects", async () => {
+		expect(await handleToolCall(bashEvent("npx vitest run 2>&1 | tail -5"), ctx)).toBeUndefined();
+		expect(await handleToolCall(bashEvent("cat <<'EOF' > src/foo.test.ts\nimport x > y\nEOF"), ctx)).toBeUndefined();
+		expect(await handleToolCall(bashEvent("grep -n 'a > src/foo.ts' README.md"), ctx)).toBeUndefined();
+	});
+
+	it("blocks mutations of impl files it can name", async () => {
+		const result = await handleToolCall(bashEvent("python -c \"open('src/foo.ts', 'w').write('')\""), ctx);
+		expect(result?.reason).toContain("Use write/edit tool instead of bash file mutation for src/foo.ts");
+	});
+
+	it("blocks mutations whose files it can't name, unless a one-time allowance is active", async () => {
+		const result = await handleToolCall(bashEvent("git apply fix.patch"), ctx);
+		expect(result?.reason).toContain("Can't tell which files `git apply` changes");
+
+		grantBashWriteAllowance("applying reviewed patch");
+		expect(await handleToolCall(bashEvent("git apply fix.patch"), ctx)).toBeUndefined();
+		expect(await handleToolCall(bashEvent("git apply fix.patch"), ctx)).toMatchObject({ block: true });
+	});
+
+	it("allows directory creation, build output and dependencies", async () => {
+		mockGetTrackedFiles.mockResolvedValue(["src/foo.ts", "src/foo.test.ts"]);
+		for (const dir of ["dist", "node_modules/left-pad", "src"]) fs.mkdirSync(path.join(tmpDir, dir), { recursive: true });
+		fs.writeFileSync(path.join(tmpDir, "dist/index.js"), "");
+		fs.writeFileSync(path.join(tmpDir, "node_modules/left-pad/index.js"), "");
+
+		expect(await handleToolCall(bashEvent("mkdir -p src/utils"), ctx)).toBeUndefined();
+		expect(await handleToolCall(bashEvent("rm -rf dist"), ctx)).toBeUndefined();
+		expect(await handleToolCall(bashEvent("rm -rf node_modules"), ctx)).toBeUndefined();
+		// Tracked source, and new files, are still guarded
+		expect((await handleToolCall(bashEvent("rm -rf src"), ctx))?.block).toBe(true);
+		expect((await handleToolCall(bashEvent("echo x > src/new.ts"), ctx))?.block).toBe(true);
+	});
+
+	it("warns instead of blocking when git rewrites files it doesn't name", async () => {
+		for (const command of ["git pull", "git stash pop"]) {
+			expect(await handleToolCall(bashEvent(command), ctx)).toBeUndefined();
+			const result = handleToolResult(testRunResult(0, command, "Updated."), ctx);
+			expect(result?.content).toEqual([{ type: "text", text: expect.stringContaining(`TDD Warning: \`${command}\` may have changed implementation files`) }]);
+		}
+		// The warning is shown once
+		expect(handleToolResult(testRunResult(0, "git status"), ctx)).toBeUndefined();
+	});
+
+	it("treats checkout operands as files only when they exist and aren't refs", async () => {
+		fs.mkdirSync(path.join(tmpDir, "src"));
+		fs.writeFileSync(path.join(tmpDir, "src/foo.ts"), "");
+		mockGetTrackedFiles.mockResolvedValue(["src/foo.ts"]);
+
+		expect(await handleToolCall(bashEvent("git checkout feature/x"), ctx)).toBeUndefined();
+		expect((await handleToolCall(bashEvent("git checkout src/foo.ts"), ctx))?.reason).toContain("bash file mutation for src/foo.ts");
+	});
+
+	it("records blocks, overrides, test runs and impl writes in the audit log", async () => {
+		resetAuditLog();
+		fs.mkdirSync(path.join(tmpDir, "src"));
+		fs.writeFileSync(path.join(tmpDir, "src/foo.test.ts"), "");
+
+		await handleToolCall(bashEvent("echo x > src/foo.ts"), ctx);
+		grantBashWriteAllowance("codegen");
+		await handleToolCall(bashEvent("echo x > src/foo.ts"), ctx);
+		handleToolResult(testRunResult(1, "npx vitest run src/foo.test.ts"), ctx);
+		await handleToolCall(writeEvent("src/foo.ts"), ctx);
+
+		expect(getAuditLog().map(({ at, ...event }) => event)).toEqual([
+			{ kind: "block", files: ["src/foo.ts"], reason: "TDD: Use write/edit tool instead of bash file mutation for src/foo.ts." },
+			{ kind: "override", reason: "codegen" },
+			{ kind: "override-used", command: "echo x > src/foo.ts", files: ["src/foo.ts"] },
+			{ kind: "test-run", files: ["src/foo.test.ts"], suite: false, passed: false },
+			{ kind: "impl-write", file: "src/foo.ts", testFile: "src/foo.test.ts" },
+		]);
+	});
+});
+
+describe("formatTddStatus", () => {
+	beforeEach(() => resetTddState());
+
+	it("lists impl files with their mapped test and its state", () => {
+		const state = getTddState();
+		state.implFiles["src/b.ts"] = { mappedTestFile: "src/b.test.ts" };
+		state.implFiles["src/a.ts"] = { mappedTestFile: "src/a.test.ts" };
+		state.testFiles["src/a.test.ts"] = { exists: true, hasEverRun: true, lastPassed: false };
+
+		expect(formatTddStatus("tdd")).toBe([
+			"TDD mode: TDD",
+			"src/a.ts → src/a.test.ts  exists ✓  run ✓  passed ✗",
+			"src/b.ts → src/b.test.ts  exists ✗  run ✗  passed –",
+		].join("\n"));
+	});
+
+	it("says when nothing has been checked", () => {
+		expect(formatTddStatus("off")).toBe("TDD mode: OFF\nNo implementation files checked yet.");
+	});
+});
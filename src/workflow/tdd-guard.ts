@@ -7,13 +7,15 @@
  *   atdd — like tdd, but also warns when no acceptance test exists
  *
  * Guard enforces the mechanical minimum:
- *   1. Test file must exist for the target module
- *   2. Tests must have been run at least once
+ *   1. Test file must exist for the target module (written this session, on disk, or tracked in git)
+ *   2. The mapped test must have been run at least once (tracked per test file)
  *
- * RED→GREEN→REFACTOR discipline is taught by skills and rules, not the guard.
- * REFACTOR phase (tests passing) is never blocked.
+ * RED→GREEN→REFACTOR discipline is taught by skills and rules, not the guard —
+ * unless `tddStrict` is set: then the first write to a module also needs its
+ * test seen failing (RED). Later writes (GREEN, REFACTOR) are never blocked.
  */
 
+import * as fs from "node:fs";
 import * as path from "node:path";
 import type {
 	ExtensionContext,
@@ -25,7 +27,11 @@ import type {
 	UserBashEventResult,
 } from "@mariozechner/pi-coding-agent";
 import { isToolCallEventType } from "@mariozechner/pi-coding-agent";
-import { type SuperteamConfig, getConfig } from "../config.js";
+import { type MappingStrategy, type SuperteamConfig, getConfig } from "../config.js";
+import { findBashMutations } from "../shell-mutations.js";
+import { getTrackedFiles } from "./git-utils.js";
+import { recordAuditEvent } from "./tdd-audit.js";
+import { parseTestOutput, type TestResult } from "./test-output-parser.js";
 
 // --- State ---
 
@@ -34,6 +40,8 @@ interface TestFileState {
 	lastRun?: number;
 	lastPassed?: boolean;
 	hasEverRun: boolean;
+	/** Last time this file was seen failing — a run of just this file, or its own result in the output */
+	lastFailedAt?: number;
 }
 
 interface ImplFileState {
@@ -47,11 +55,19 @@ interface BashWriteAllowance {
 	consumed: boolean;
 }
 
+interface TestRun {
+	at: number;
+	/** Unknown for user bash runs (pre-execution hook) */
+	passed?: boolean;
+}
+
 export interface TddState {
 	testFiles: Record<string, TestFileState>;
 	implFiles: Record<string, ImplFileState>;
 	acceptanceTests: Record<string, TestFileState>;
 	bashWriteAllowance?: BashWriteAllowance;
+	/** Latest whole-suite test run — applied to test files discovered on disk afterwards */
+	lastTestRun?: TestRun;
 }
 
 function defaultTddState(): TddState {
@@ -72,8 +88,46 @@ export function resetTddState(): void {
 	tddState = defaultTddState();
 }
 
+// --- Existing test discovery ---
+
+/** `git ls-files` for the session's cwd, loaded once per session */
+let trackedFiles: { cwd: string; files: Promise<Set<string>> } | null = null;
+
+/** Forget the cached `git ls-files` listing (called on session start). */
+export function resetTestFileCache(): void {
+	trackedFiles = null;
+}
+
+function getTrackedFileSet(cwd: string): Promise<Set<string>> {
+	if (trackedFiles?.cwd !== cwd) {
+		trackedFiles = { cwd, files: getTrackedFiles(cwd).then((files) => new Set(files)) };
+	}
+	return trackedFiles.files;
+}
+
+function fileContains(filePath: string, text: string): boolean {
+	try {
+		return fs.readFileSync(filePath, "utf-8").includes(text);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Does the test file already exist outside this session's writes?
+ * Checks the working tree first, then the cached `git ls-files` listing.
+ */
+export async function testFileExists(testFile: string, cwd: string): Promise<boolean> {
+	const absolute = path.resolve(cwd, testFile);
+	if (fs.existsSync(absolute)) return true;
+	const relative = path.relative(cwd, absolute).split(path.sep).join("/");
+	return (await getTrackedFileSet(cwd)).has(relative);
+}
+
+/** Replace the guard state with a persisted snapshot (copied, missing maps defaulted). */
 export function restoreTddState(state: TddState): void {
-	tddState = state;
+	const copy = JSON.parse(JSON.stringify(state)) as Partial<TddState>;
+	tddState = { ...defaultTddState(), ...copy };
 }
 
 // --- File classification ---
@@ -121,56 +175,99 @@ export function isExemptFile(filePath: string, config: SuperteamConfig): boolean
 
 // --- Impl → Test file mapping ---
 
-/**
- * Given an implementation file, find its expected test file using mapping strategies.
- */
-export function mapImplToTest(implPath: string, config: SuperteamConfig): string | null {
+/** Test suffix for strategies without their own — the first suffix strategy's, or ".test.ts" */
+function defaultTestSuffix(config: SuperteamConfig): string {
+	return config.testFileMapping.strategies.find((s) => s.type === "suffix")?.testSuffix || ".test.ts";
+}
+
+function defaultImplSuffix(config: SuperteamConfig): string {
+	return config.testFileMapping.strategies.find((s) => s.type === "suffix")?.implSuffix || ".ts";
+}
+
+/** Path of `filePath` inside `root`, or null when it lies outside. */
+function relativeTo(root: string, filePath: string): string | null {
+	const relative = path.relative(root, filePath);
+	return relative.startsWith("..") || path.isAbsolute(relative) ? null : relative;
+}
+
+/** The test file for an impl file and the strategy that produced it (none for overrides). */
+function resolveImplMapping(implPath: string, config: SuperteamConfig): { testFile: string; strategy?: MappingStrategy } | null {
 	// Check explicit overrides first
 	if (config.testFileMapping.overrides[implPath]) {
-		return config.testFileMapping.overrides[implPath];
+		return { testFile: config.testFileMapping.overrides[implPath] };
 	}
 
 	const dir = path.dirname(implPath);
 	const basename = path.basename(implPath);
 	const ext = path.extname(implPath);
-	const stem = basename.slice(0, -ext.length);
 
 	for (const strategy of config.testFileMapping.strategies) {
+		// Strategies scoped to an extension skip other files
+		if (strategy.type !== "suffix" && strategy.implSuffix && !basename.endsWith(strategy.implSuffix)) continue;
+		const stem = basename.slice(0, -(strategy.implSuffix?.length || ext.length));
+
 		switch (strategy.type) {
 			case "suffix": {
 				if (strategy.implSuffix && strategy.testSuffix && basename.endsWith(strategy.implSuffix)) {
-					const testName = stem + strategy.testSuffix;
-					return path.join(dir, testName);
+					const testName = basename.slice(0, -ext.length) + strategy.testSuffix;
+					return { testFile: path.join(dir, testName), strategy };
 				}
 				break;
 			}
 			case "directory": {
 				if (strategy.testDir) {
 					const testDir = path.join(dir, strategy.testDir);
-					// Use first suffix strategy's test suffix, or default
-					const testSuffix = config.testFileMapping.strategies.find((s) => s.type === "suffix")?.testSuffix || ".test.ts";
-					const testName = stem + testSuffix;
-					return path.join(testDir, testName);
+					const testName = stem + (strategy.testSuffix || defaultTestSuffix(config));
+					return { testFile: path.join(testDir, testName), strategy };
 				}
 				break;
 			}
 			case "mirror": {
 				if (strategy.srcRoot && strategy.testRoot) {
-					const relative = path.relative(strategy.srcRoot, implPath);
-					if (!relative.startsWith("..")) {
-						const testSuffix = config.testFileMapping.strategies.find((s) => s.type === "suffix")?.testSuffix || ".test.ts";
-						const testName = stem + testSuffix;
-						return path.join(strategy.testRoot, path.dirname(relative), testName);
+					const relative = relativeTo(strategy.srcRoot, implPath);
+					if (relative !== null) {
+						const testName = stem + (strategy.testSuffix || defaultTestSuffix(config));
+						return { testFile: path.join(strategy.testRoot, path.dirname(relative), testName), strategy };
 					}
 				}
 				break;
 			}
+			case "prefix": {
+				if (strategy.testPrefix && strategy.implSuffix) {
+					const testName = strategy.testPrefix + stem + (strategy.testSuffix || strategy.implSuffix);
+					if (!strategy.testRoot) return { testFile: path.join(dir, testName), strategy };
+					// Test root mirrors the package path — impl files must sit under srcRoot when one is set
+					const relative = strategy.srcRoot ? relativeTo(strategy.srcRoot, implPath) : implPath;
+					if (relative !== null) {
+						return { testFile: path.join(strategy.testRoot, path.dirname(relative), testName), strategy };
+					}
+				}
+				break;
+			}
+			case "inline": {
+				if (strategy.implSuffix) return { testFile: implPath, strategy };
+				break;
+			}
 		}
 	}
 
 	return null;
 }
 
+/**
+ * Given an implementation file, find its expected test file using mapping strategies.
+ * An `inline` strategy maps a module to itself (tests live in the module).
+ */
+export function mapImplToTest(implPath: string, config: SuperteamConfig): string | null {
+	return resolveImplMapping(implPath, config)?.testFile ?? null;
+}
+
+/** Marker of the inline strategy `implPath` maps through (e.g. "#[cfg(test)]"), if any. */
+export function inlineTestMarker(implPath: string, config: SuperteamConfig): string | undefined {
+	const strategy = resolveImplMapping(implPath, config)?.strategy;
+	return strategy?.type === "inline" ? (strategy.inlineMarker || "#[cfg(test)]") : undefined;
+}
+
 /**
  * Reverse: given a test file, derive the impl file it covers.
  */
@@ -196,69 +293,189 @@ export function mapTestToImpl(testPath: string, config: SuperteamConfig): string
 				const parentDir = dir.replace(new RegExp(`/${strategy.testDir}$`), "");
 				// Strip test suffix
 				const suffixStrategy = config.testFileMapping.strategies.find((s) => s.type === "suffix");
-				if (suffixStrategy?.testSuffix && basename.endsWith(suffixStrategy.testSuffix)) {
-					const stem = basename.slice(0, -suffixStrategy.testSuffix.length);
-					return path.join(parentDir, stem + (suffixStrategy.implSuffix || ".ts"));
+				const testSuffix = strategy.testSuffix || suffixStrategy?.testSuffix;
+				if (testSuffix && basename.endsWith(testSuffix)) {
+					const stem = basename.slice(0, -testSuffix.length);
+					return path.join(parentDir, stem + (strategy.implSuffix || suffixStrategy?.implSuffix || ".ts"));
 				}
 			}
 		}
+		if (strategy.type === "mirror" && strategy.srcRoot && strategy.testRoot) {
+			const relative = relativeTo(strategy.testRoot, testPath);
+			const testSuffix = strategy.testSuffix || defaultTestSuffix(config);
+			if (relative !== null && basename.endsWith(testSuffix)) {
+				const stem = basename.slice(0, -testSuffix.length);
+				return path.join(strategy.srcRoot, path.dirname(relative), stem + (strategy.implSuffix || defaultImplSuffix(config)));
+			}
+		}
+		if (strategy.type === "prefix" && strategy.testPrefix && strategy.implSuffix) {
+			const testSuffix = strategy.testSuffix || strategy.implSuffix;
+			if (basename.startsWith(strategy.testPrefix) && basename.endsWith(testSuffix)) {
+				const stem = basename.slice(strategy.testPrefix.length, -testSuffix.length);
+				if (!strategy.testRoot) return path.join(dir, stem + strategy.implSuffix);
+				const relative = relativeTo(strategy.testRoot, testPath);
+				if (relative !== null) {
+					return path.join(strategy.srcRoot ?? "", path.dirname(relative), stem + strategy.implSuffix);
+				}
+			}
+		}
+		if (strategy.type === "inline" && strategy.implSuffix && basename.endsWith(strategy.implSuffix)) {
+			return testPath;
+		}
 	}
 
 	return null;
 }
 
-// --- Bash heuristics ---
+// --- Bash mutations ---
 
 /**
- * Patterns that indicate file mutation in bash commands.
- * Returns the target file path if detected, or null.
+ * Files a bash command writes, as far as the shell parser can tell.
+ * Mutations with unknown targets (e.g. `git apply`) are left out — see checkBashCommand.
  */
 export function detectBashFileMutation(command: string): string[] {
-	const targets: string[] = [];
-
-	// Redirect: > file, >> file
-	const redirects = command.match(/[12]?\s*>{1,2}\s*([^\s;|&]+)/g);
-	if (redirects) {
-		for (const r of redirects) {
-			const file = r.replace(/^[12]?\s*>{1,2}\s*/, "").trim();
-			if (file && !file.startsWith("/dev/")) targets.push(file);
+	return [...new Set(findBashMutations(command).flatMap((m) => m.targets))];
+}
+
+// --- Test command detection ---
+
+/** The configured test command the command starts with (longest match), if any. */
+function matchTestCommand(command: string, config: SuperteamConfig): string | undefined {
+	const trimmed = command.trim();
+	return config.testCommands
+		.filter((tc) => {
+			// Match exact command or command with args
+			return trimmed === tc || trimmed.startsWith(`${tc} `) || trimmed.startsWith(`${tc}\n`);
+		})
+		.sort((a, b) => b.length - a.length)[0];
+}
+
+// --- Test run targeting ---
+
+/** Shell operators that end the test command's own arguments */
+const COMMAND_SEPARATORS = new Set(["&&", "||", ";", "|"]);
+
+/** "./src/a.test.ts" → "src/a.test.ts", "tests/test_a.py::test_x" → "tests/test_a.py", "./pkg/..." → "pkg" */
+function normalizeTestArg(arg: string): string {
+	return arg
+		.replace(/^['"]|['"]$/g, "")
+		.replace(/::.*$/, "")
+		.replace(/\/?\.\.\.$/, "")
+		.replace(/^\.\//, "");
+}
+
+/** Runner subcommands that can lead the arguments ("npx vitest run", "go test" configured as "go") */
+const TEST_SUBCOMMANDS = new Set(["run", "test", "watch", "related", "exec"]);
+
+/** Runner flags whose value is the next word (a name pattern, marker or option — not a target) */
+const VALUE_FLAGS = new Set([
+	"-t", "--testNamePattern", "-k", "-m", "-n", "-p", "-c", "--config", "--reporter", "--project",
+	"--root", "--dir", "--grep", "-g", "--maxfail", "-run", "-count", "-timeout", "-tags",
+]);
+
+/** Positional arguments after the matched test command — subcommands, flags and their values, and shell continuations dropped. */
+function testCommandArgs(command: string, testCommand: string): string[] {
+	const args: string[] = [];
+	let skipValue = false;
+	let leading = true;
+	for (const token of command.trim().slice(testCommand.length).trim().split(/\s+/)) {
+		if (COMMAND_SEPARATORS.has(token) || /^\d?>/.test(token)) break;
+		if (!token) continue;
+		if (skipValue) {
+			skipValue = false;
+			continue;
+		}
+		if (token.startsWith("-")) {
+			skipValue = VALUE_FLAGS.has(token);
+			continue;
 		}
+		if (leading && TEST_SUBCOMMANDS.has(token)) continue;
+		leading = false;
+		const arg = normalizeTestArg(token);
+		if (arg && arg !== ".") args.push(arg);
 	}
+	return args;
+}
 
-	// sed -i
-	const sedMatch = command.match(/sed\s+(?:-[a-zA-Z]*i[a-zA-Z]*|-i(?:\s+(?:'[^']*'|"[^"]*"|[^\s]+))?\s)/);
-	if (sedMatch) {
-		// Extract file targets after sed -i expression
-		const sedFiles = command.match(/sed\s+.*?\s+([^\s;|&]+\.[a-zA-Z]+)/);
-		if (sedFiles) targets.push(sedFiles[1]);
-	}
+/** A filter argument selects a test file when it is one of its whole path segments (or runs of them) or its basename without extensions. */
+function matchesTestFilter(relPath: string, arg: string): boolean {
+	return `/${relPath}/`.includes(`/${arg}/`) || path.posix.basename(relPath).startsWith(`${arg}.`);
+}
 
-	// tee (writes to file)
-	const teeMatch = command.match(/tee\s+(?:-a\s+)?([^\s;|&]+)/);
-	if (teeMatch) targets.push(teeMatch[1]);
+function toRelative(filePath: string, cwd: string): string {
+	return path.relative(cwd, path.resolve(cwd, filePath)).split(path.sep).join("/");
+}
 
-	// mv, cp (destination)
-	const mvCpMatch = command.match(/(?:mv|cp)\s+(?:-[a-zA-Z]+\s+)*[^\s]+\s+([^\s;|&]+)/);
-	if (mvCpMatch) targets.push(mvCpMatch[1]);
+/** The key a test file is tracked under — paths may be absolute or cwd-relative. */
+function findTestFileKey(filePath: string, cwd: string): string {
+	if (tddState.testFiles[filePath]) return filePath;
+	const target = path.resolve(cwd, filePath);
+	return Object.keys(tddState.testFiles).find((k) => path.resolve(cwd, k) === target) ?? filePath;
+}
 
-	// Heredoc: cat > file << EOF / cat << EOF > file
-	const heredocMatch = command.match(/cat\s+(?:>+\s*([^\s<]+)|.*?>\s*([^\s<]+))/);
-	if (heredocMatch) {
-		const file = heredocMatch[1] || heredocMatch[2];
-		if (file) targets.push(file);
+/**
+ * Test files a command was pointed at: test file arguments, plus known test files
+ * a filter argument names by path segment or basename. Null when the command runs the whole suite
+ * (no test file or path argument).
+ */
+function targetedTestFiles(args: string[], cwd: string, config: SuperteamConfig): string[] | null {
+	const targets = new Set<string>();
+	let targeted = false;
+	for (const arg of args) {
+		if (isTestFile(arg, config)) {
+			targets.add(findTestFileKey(arg, cwd));
+			targeted = true;
+			continue;
+		}
+		if (arg.includes("/")) targeted = true;
+		for (const [file, state] of Object.entries(tddState.testFiles)) {
+			if (state.exists && matchesTestFilter(toRelative(file, cwd), arg)) {
+				targets.add(file);
+				targeted = true;
+			}
+		}
 	}
+	return targeted ? [...targets] : null;
+}
 
-	return [...new Set(targets)];
+/**
+ * Per-file outcome from parsed test results. A file is found when a result name
+ * contains a test file path (vitest file lines, pytest node ids, JUnit files);
+ * it passed only if all of its results passed.
+ */
+function testFilesInResults(results: TestResult[], config: SuperteamConfig): Map<string, boolean> {
+	const files = new Map<string, boolean>();
+	for (const result of results) {
+		const file = result.name
+			.split(/::|\s+/)
+			.map((token) => token.replace(/:\d+(?::\d+)?$/, ""))
+			.find((token) => token.includes(".") && isTestFile(token, config));
+		if (file) files.set(file, (files.get(file) ?? true) && result.passed);
+	}
+	return files;
 }
 
-// --- Test command detection ---
+/** `redEvidence`: the outcome is specific to this file, so a failure counts as RED for strict mode. */
+function recordTestRun(filePath: string, at: number, passed: boolean | undefined, config: SuperteamConfig, redEvidence = false): void {
+	const states = [ensureTestFileState(filePath)];
+	if (isAcceptanceTestFile(filePath, config)) states.push(ensureAcceptanceTestState(filePath));
+	for (const state of states) {
+		state.hasEverRun = true;
+		state.lastRun = at;
+		if (passed !== undefined) state.lastPassed = passed;
+		if (redEvidence && passed === false) state.lastFailedAt = at;
+	}
+}
 
-function isTestCommand(command: string, config: SuperteamConfig): boolean {
-	const trimmed = command.trim();
-	return config.testCommands.some((tc) => {
-		// Match exact command or command with args
-		return trimmed === tc || trimmed.startsWith(`${tc} `) || trimmed.startsWith(`${tc}\n`);
-	});
+/** Whole-suite run: every known test file ran with the command's outcome. */
+function recordSuiteRun(at: number, passed: boolean | undefined): void {
+	tddState.lastTestRun = passed === undefined ? { at } : { at, passed };
+	for (const state of [...Object.values(tddState.testFiles), ...Object.values(tddState.acceptanceTests)]) {
+		if (!state.exists) continue;
+		state.hasEverRun = true;
+		state.lastRun = at;
+		if (passed !== undefined) state.lastPassed = passed;
+	}
 }
 
 // --- Guard event handlers ---
@@ -266,32 +483,41 @@ function isTestCommand(command: string, config: SuperteamConfig): boolean {
 /**
  * Handle tool_call events. Returns block result if TDD violation detected.
  */
-export function handleToolCall(
+export async function handleToolCall(
 	event: ToolCallEvent,
 	ctx: ExtensionContext,
-): ToolCallEventResult | undefined {
+): Promise<ToolCallEventResult | undefined> {
 	const config = getConfig(ctx.cwd);
 	const mode = config.tddMode;
 	if (mode === "off") return undefined;
 
 	// --- Write tool ---
 	if (isToolCallEventType("write", event)) {
-		return checkImplWrite(event.input.path, config, mode);
+		return auditBlock(await checkImplWrite(event.input.path, config, mode, ctx.cwd, event.input.content), [event.input.path]);
 	}
 
 	// --- Edit tool ---
 	if (isToolCallEventType("edit", event)) {
-		return checkImplWrite(event.input.path, config, mode);
+		const newText = (event.input.edits ?? []).map((e) => e.newText).join("\n");
+		return auditBlock(await checkImplWrite(event.input.path, config, mode, ctx.cwd, newText), [event.input.path]);
 	}
 
 	// --- Bash tool ---
 	if (isToolCallEventType("bash", event)) {
-		return checkBashCommand(event.input.command, config, mode);
+		return checkBashCommand(event.input.command, config, ctx.cwd);
 	}
 
 	return undefined;
 }
 
+/** Record a block in the audit log, keeping the first line of its message. */
+function auditBlock(result: ToolCallEventResult | undefined, files: string[]): ToolCallEventResult | undefined {
+	if (result?.block) {
+		recordAuditEvent({ at: Date.now(), kind: "block", files, reason: (result.reason ?? "").split("\n")[0] });
+	}
+	return result;
+}
+
 /** Pending ATDD warnings to inject into next tool_result */
 let pendingAtddWarning: string | null = null;
 
@@ -301,7 +527,17 @@ export function consumeAtddWarning(): string | null {
 	return w;
 }
 
-function checkImplWrite(filePath: string, config: SuperteamConfig, mode: string): ToolCallEventResult | undefined {
+/** Pending bash warning to inject into the command's tool_result */
+let pendingBashWarning: string | null = null;
+
+/** `content`: the text being written (write) or inserted (edit) — used for inline tests. */
+async function checkImplWrite(
+	filePath: string,
+	config: SuperteamConfig,
+	mode: string,
+	cwd: string,
+	content = "",
+): Promise<ToolCallEventResult | undefined> {
 	// Test files always allowed
 	if (isTestFile(filePath, config)) {
 		// Track that this test file exists
@@ -331,17 +567,44 @@ function checkImplWrite(filePath: string, config: SuperteamConfig, mode: string)
 
 	if (!testFile) {
 		// No mapping found → allow with warning (don't block on mapping uncertainty)
+		recordAuditEvent({ at: Date.now(), kind: "impl-write", file: filePath, testFile: null });
 		return undefined;
 	}
 
+	const testKey = findTestFileKey(testFile, cwd);
+
 	// Track impl file mapping
 	if (!tddState.implFiles[filePath]) {
-		tddState.implFiles[filePath] = { mappedTestFile: testFile };
+		tddState.implFiles[filePath] = { mappedTestFile: testKey };
+	}
+
+	const marker = inlineTestMarker(filePath, config);
+	if (marker) {
+		// Inline tests (e.g. Rust #[cfg(test)]) — adding the test module is the test-first step.
+		// Once the file has one, later writes go through the checks below like any impl write.
+		const onDisk = fileContains(path.resolve(cwd, filePath), marker);
+		if (!onDisk && content.includes(marker)) {
+			ensureTestFileState(testKey).exists = true;
+			recordAuditEvent({ at: Date.now(), kind: "impl-write", file: filePath, testFile: testKey });
+			return undefined; // ALLOW
+		}
+		if (!tddState.testFiles[testKey]?.exists && onDisk) {
+			markDiscoveredTestFile(testKey);
+		}
+	} else if (!tddState.testFiles[testKey]?.exists && await testFileExists(testFile, cwd)) {
+		// Pick up tests that predate the session (on disk or tracked in git)
+		markDiscoveredTestFile(testKey);
 	}
 
-	const testState = tddState.testFiles[testFile];
+	const testState = tddState.testFiles[testKey];
 
 	// Does test file exist?
+	if (!testState?.exists && marker) {
+		return {
+			block: true,
+			reason: `TDD: Add tests first. Expected an inline ${marker} test module in ${testFile}.\nWrite a failing test, run it, then implement.`,
+		};
+	}
 	if (!testState?.exists) {
 		return {
 			block: true,
@@ -357,6 +620,17 @@ function checkImplWrite(filePath: string, config: SuperteamConfig, mode: string)
 		};
 	}
 
+	// Strict: the first write to a module needs RED evidence for its test
+	const implState = tddState.implFiles[filePath];
+	if (config.tddStrict && !implState.lastWrite && !testState.lastFailedAt) {
+		return {
+			block: true,
+			reason: missingRedEvidence(filePath, testFile, testState, config),
+		};
+	}
+	implState.lastWrite = Date.now();
+	recordAuditEvent({ at: implState.lastWrite, kind: "impl-write", file: filePath, testFile: testKey });
+
 	// ATDD: warn if no acceptance test (don't block)
 	if (mode === "atdd") {
 		const hasAcceptance = Object.values(tddState.acceptanceTests).some((a) => a.exists);
@@ -370,28 +644,87 @@ function checkImplWrite(filePath: string, config: SuperteamConfig, mode: string)
 	return undefined;
 }
 
-function checkBashCommand(command: string, config: SuperteamConfig, mode: string): ToolCallEventResult | undefined {
-	const targets = detectBashFileMutation(command);
-	if (targets.length === 0) return undefined; // No file mutation detected
+/** Strict-mode block message: what RED evidence for the test is missing. */
+function missingRedEvidence(implPath: string, testFile: string, testState: TestFileState, config: SuperteamConfig): string {
+	const seen = testState.lastPassed === true
+		? `${testFile} has only been seen passing.`
+		: testState.lastPassed === false
+			? `Only a failing whole-suite run was seen — its exit code doesn't show that ${testFile} failed.`
+			: `${testFile} ran without a result the guard can check (user bash runs report no exit code).`;
+	const runCommand = `${config.testCommands[0] ?? "<test command>"} ${testFile}`;
+	return `TDD (strict): Watch the test fail before the first write to ${implPath}. ${seen}\n` +
+		`Write a failing test for the new behavior and run it (e.g. ${runCommand}). ` +
+		`RED evidence is a non-zero exit from a run of just that test file, or a failing result for it in the test output.`;
+}
+
+/**
+ * git commands that move the tree to existing commits or stashes. The guard
+ * can't tell which files they change, but they write no new code, so they
+ * get a warning rather than a block.
+ */
+const TREE_REWRITE_MUTATORS = new Set([
+	"git merge", "git pull", "git rebase", "git cherry-pick", "git revert",
+	"git reset", "git clean", "git stash pop", "git stash apply",
+]);
+
+/**
+ * Whether a bash target is project source: tracked in git (or a directory of
+ * tracked files), an impl file written this session, or a new file. Existing
+ * paths with no tracked files (build output, dependencies) and paths outside
+ * the project are not.
+ */
+async function isSourceTarget(target: string, cwd: string): Promise<boolean> {
+	const absolute = path.resolve(cwd, target);
+	const relative = path.relative(cwd, absolute).split(path.sep).join("/");
+	if (relative === "") return true;
+	if (relative.startsWith("../") || path.isAbsolute(relative)) return false;
+	if (tddState.implFiles[target] || tddState.implFiles[relative]) return true;
+	const tracked = await getTrackedFileSet(cwd);
+	if (tracked.has(relative)) return true;
+	for (const file of tracked) {
+		if (file.startsWith(`${relative}/`)) return true;
+	}
+	return !fs.existsSync(absolute);
+}
+
+async function checkBashCommand(command: string, config: SuperteamConfig, cwd: string): Promise<ToolCallEventResult | undefined> {
+	const mutations = findBashMutations(command, cwd);
+	if (mutations.length === 0) return undefined; // No file mutation detected
 
 	// Check if any target is an impl file that should be guarded
-	for (const target of targets) {
-		if (isTestFile(target, config)) continue; // Test file writes ok
-		if (isExemptFile(target, config)) continue; // Exempt files ok
+	for (const { command: mutator, targets } of mutations) {
+		// Creating directories writes no code
+		if (mutator === "mkdir") continue;
+
+		if (targets.length === 0 && TREE_REWRITE_MUTATORS.has(mutator)) {
+			pendingBashWarning = `TDD Warning: \`${mutator}\` may have changed implementation files the guard can't see. ` +
+				`Run the tests before building on these changes.`;
+			continue;
+		}
 
-		const testFile = mapImplToTest(target, config);
-		if (!testFile) continue; // Unmapped files ok
+		// The command changes files it doesn't name — any of them may be an impl file
+		const guarded: (string | undefined)[] = [];
+		if (targets.length === 0) guarded.push(undefined);
+		for (const t of targets) {
+			if (isTestFile(t, config) || isExemptFile(t, config) || !mapImplToTest(t, config)) continue;
+			if (await isSourceTarget(t, cwd)) guarded.push(t);
+		}
+		if (guarded.length === 0) continue; // Test, exempt, unmapped and non-source files ok
 
 		// Check bash write allowance
 		if (tddState.bashWriteAllowance && !tddState.bashWriteAllowance.consumed) {
 			tddState.bashWriteAllowance.consumed = true;
+			recordAuditEvent({ at: Date.now(), kind: "override-used", command, files: guarded.filter((t): t is string => t !== undefined) });
 			return undefined; // Allowed by one-time override
 		}
 
-		return {
+		const target = guarded[0];
+		return auditBlock({
 			block: true,
-			reason: `TDD: Use write/edit tool instead of bash file mutation for ${target}.\nThis ensures TDD enforcement can track your changes.\nUse /tdd allow-bash-write once "<reason>" for a one-time exception.`,
-		};
+			reason: target
+				? `TDD: Use write/edit tool instead of bash file mutation for ${target}.\nThis ensures TDD enforcement can track your changes.\nUse /tdd allow-bash-write once "<reason>" for a one-time exception.`
+				: `TDD: Can't tell which files \`${mutator}\` changes, so the guard can't check them.\nUse write/edit tools for implementation files.\nUse /tdd allow-bash-write once "<reason>" for a one-time exception.`,
+		}, target ? [target] : []);
 	}
 
 	return undefined;
@@ -409,43 +742,54 @@ export function handleToolResult(
 	// Inject ATDD warnings into write/edit results
 	if (event.toolName === "write" || event.toolName === "edit") {
 		const warning = consumeAtddWarning();
-		if (warning && !event.isError) {
-			const existingText = event.content.map((c) => ("text" in c ? c.text : "")).join("\n");
-			return {
-				content: [{ type: "text", text: `${existingText}\n\n⚠️ ${warning}` }],
-			};
-		}
+		if (warning && !event.isError) return appendWarning(event, warning);
 	}
 
 	// Only care about bash results (test executions)
 	if (event.toolName !== "bash") return undefined;
 
+	// Warnings from the command's tool_call (files changed by git the guard can't see)
+	const bashWarning = pendingBashWarning;
+	pendingBashWarning = null;
+	const warned = bashWarning && !event.isError ? appendWarning(event, bashWarning) : undefined;
+
 	const command = (event.input as any)?.command;
-	if (!command || !isTestCommand(command, config)) return undefined;
+	const testCommand = command ? matchTestCommand(command, config) : undefined;
+	if (!testCommand) return warned;
 
-	const exitCode = (event.details as any)?.exitCode ?? null;
-	const passed = exitCode === 0;
+	// pi's bash tool reports a non-zero exit as an error result (its details carry no exit code)
+	const passed = !event.isError;
 	const now = Date.now();
 
-	// Mark all known test files as run
-	for (const [file, state] of Object.entries(tddState.testFiles)) {
-		if (state.exists) {
-			state.hasEverRun = true;
-			state.lastRun = now;
-			state.lastPassed = passed;
-		}
+	// Only the test files the command targeted ran; no target means the whole suite
+	const targets = targetedTestFiles(testCommandArgs(command, testCommand), ctx.cwd, config);
+	// The exit code is a file's own result only when the command ran that one file
+	if (targets) {
+		for (const file of targets) recordTestRun(file, now, passed, config, targets.length === 1);
+	} else {
+		recordSuiteRun(now, passed);
 	}
 
-	// Also mark acceptance tests
-	for (const [file, state] of Object.entries(tddState.acceptanceTests)) {
-		if (state.exists) {
-			state.hasEverRun = true;
-			state.lastRun = now;
-			state.lastPassed = passed;
-		}
+	// Files named in the output ran for sure, with their own outcome
+	const output = event.content.map((c) => ("text" in c ? c.text : "")).join("\n");
+	const ran = new Set(targets ?? []);
+	for (const [file, filePassed] of testFilesInResults(parseTestOutput(output, config.testOutputFormat), config)) {
+		const key = findTestFileKey(file, ctx.cwd);
+		ensureTestFileState(key).exists = true;
+		recordTestRun(key, now, filePassed, config, true);
+		ran.add(key);
 	}
+	recordAuditEvent({ at: now, kind: "test-run", files: [...ran], suite: !targets, passed });
 
-	return undefined;
+	return warned;
+}
+
+/** The tool result with a warning appended to its text. */
+function appendWarning(event: ToolResultEvent, warning: string): ToolResultEventResult {
+	const existingText = event.content.map((c) => ("text" in c ? c.text : "")).join("\n");
+	return {
+		content: [{ type: "text", text: `${existingText}\n\n⚠️ ${warning}` }],
+	};
 }
 
 // --- User bash handler (pre-execution, no result) ---
@@ -457,16 +801,17 @@ export function handleUserBash(
 	const config = getConfig(ctx.cwd);
 	if (config.tddMode === "off") return undefined;
 
-	if (isTestCommand(event.command, config)) {
+	const testCommand = matchTestCommand(event.command, config);
+	if (testCommand) {
 		// Mark tests as "run attempted" — we can't know pass/fail
 		const now = Date.now();
-		for (const [file, state] of Object.entries(tddState.testFiles)) {
-			if (state.exists) {
-				state.hasEverRun = true;
-				state.lastRun = now;
-				// Don't set lastPassed — unknown
-			}
+		const targets = targetedTestFiles(testCommandArgs(event.command, testCommand), ctx.cwd, config);
+		if (targets) {
+			for (const file of targets) recordTestRun(file, now, undefined, config);
+		} else {
+			recordSuiteRun(now, undefined);
 		}
+		recordAuditEvent({ at: now, kind: "test-run", files: targets ?? [], suite: !targets });
 	}
 
 	return undefined;
@@ -480,6 +825,7 @@ export function grantBashWriteAllowance(reason: string): void {
 		grantedAt: Date.now(),
 		consumed: false,
 	};
+	recordAuditEvent({ at: tddState.bashWriteAllowance.grantedAt, kind: "override", reason });
 }
 
 // --- State helpers ---
@@ -498,6 +844,21 @@ function ensureAcceptanceTestState(filePath: string): TestFileState {
 	return tddState.acceptanceTests[filePath];
 }
 
+/**
+ * Record a test file found on disk or in git. A test command run earlier this
+ * session ran it too, so it inherits that run.
+ */
+function markDiscoveredTestFile(testFile: string): void {
+	const state = ensureTestFileState(testFile);
+	state.exists = true;
+	const run = tddState.lastTestRun;
+	if (run && !state.hasEverRun) {
+		state.hasEverRun = true;
+		state.lastRun = run.at;
+		if (run.passed !== undefined) state.lastPassed = run.passed;
+	}
+}
+
 /**
  * Mark a test file as existing (called when we see a write to a test file).
  */
@@ -510,7 +871,37 @@ export function markTestFileExists(filePath: string, config: SuperteamConfig): v
 
 /**
  * Serialize TDD state for session persistence.
+ * Deep copy — the live state keeps mutating after the entry is appended.
  */
 export function serializeTddState(): TddState {
-	return { ...tddState };
+	return JSON.parse(JSON.stringify(tddState)) as TddState;
+}
+
+// --- Status view ---
+
+function mark(value: boolean | undefined): string {
+	return value === undefined ? "?" : value ? "✓" : "✗";
+}
+
+/**
+ * `/tdd status` — each guarded impl file with its mapped test and whether that
+ * test exists, has run, and passed its latest run.
+ */
+export function formatTddStatus(mode: string): string {
+	const impls = Object.entries(tddState.implFiles);
+	const lines = [`TDD mode: ${mode.toUpperCase()}`];
+	if (impls.length === 0) {
+		lines.push("No implementation files checked yet.");
+		return lines.join("\n");
+	}
+	for (const [impl, { mappedTestFile }] of impls.sort(([a], [b]) => a.localeCompare(b))) {
+		if (!mappedTestFile) {
+			lines.push(`${impl} → (no mapped test)`);
+			continue;
+		}
+		const test = tddState.testFiles[mappedTestFile];
+		const passed = test?.hasEverRun ? mark(test.lastPassed) : "–";
+		lines.push(`${impl} → ${mappedTestFile}  exists ${mark(!!test?.exists)}  run ${mark(!!test?.hasEverRun)}  passed ${passed}`);
+	}
+	return lines.join("\n");
 }
@@ -9,6 +9,7 @@ import { execFile as execFileCb } from "node:child_process";
 import { promisify } from "node:util";
 import { getCurrentSha } from "./git-utils.js";
 import { parseTestOutput, type TestResult } from "./test-output-parser.js";
+import type { TestOutputFormat } from "../config.js";
 
 export type { TestResult };
 
@@ -64,10 +65,11 @@ export function classifyFailures(
   return { newFailures, preExisting, flakeCandidates, newPasses };
 }
 
-/** Run test command, parse output, return baseline. */
+/** Run test command, parse output (in `format`, auto-detected by default), return baseline. */
 export async function captureBaseline(
   testCommand: string,
   cwd: string,
+  format: TestOutputFormat = "auto",
 ): Promise<TestBaseline> {
   const sha = await getCurrentSha(cwd);
   const capturedAt = Date.now();
@@ -89,7 +91,7 @@ export async function captureBaseline(
   }
 
   const combinedOutput = stdout + "\n" + stderr;
-  const results = parseTestOutput(combinedOutput);
+  const results = parseTestOutput(combinedOutput, format);
   const knownFailures = results.filter(r => !r.passed).map(r => r.name);
 
   return {
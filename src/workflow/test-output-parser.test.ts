@@ -1,5 +1,5 @@
 import { describe, it, expect } from "vitest";
-import { parseTestOutput, type TestResult } from "./test-output-parser.js";
+import { parseTestOutput, detectTestOutputFormat, type TestResult } from "./test-output-parser.js";
 
 describe("parseTestOutput", () => {
   it("parses vitest/jest passing test lines", () => {
@@ -93,3 +93,141 @@ describe("parseTestOutput", () => {
     expect(results[0].output).toContain("line 2 of error");
   });
 });
+
+describe("parseTestOutput — pytest", () => {
+  it("parses verbose result lines and the short test summary", () => {
+    const output = [
+      "============================= test session starts ==============================",
+      "tests/test_math.py::test_add PASSED                                      [ 25%]",
+      "tests/test_math.py::TestSub::test_sub FAILED                             [ 50%]",
+      "tests/test_math.py::test_skip SKIPPED (not ready)                        [ 75%]",
+      "tests/test_math.py::test_known XFAIL                                     [100%]",
+      "=========================== short test summary info ============================",
+      "FAILED tests/test_math.py::TestSub::test_sub - assert 1 == 2",
+    ].join("\n");
+    const results = parseTestOutput(output);
+    expect(results).toEqual([
+      { name: "tests/test_math.py::test_add", passed: true },
+      { name: "tests/test_math.py::TestSub::test_sub", passed: false, output: "assert 1 == 2" },
+      { name: "tests/test_math.py::test_known", passed: true },
+    ]);
+  });
+
+  it("records failures from the summary in non-verbose mode", () => {
+    const output = [
+      "============================= test session starts ==============================",
+      "tests/test_a.py .F                                                       [100%]",
+      "FAILED tests/test_a.py::test_b - ValueError",
+    ].join("\n");
+    const results = parseTestOutput(output);
+    expect(results).toEqual([{ name: "tests/test_a.py::test_b", passed: false, output: "ValueError" }]);
+  });
+});
+
+describe("parseTestOutput — go test -v", () => {
+  it("parses RUN/PASS/FAIL lines with durations and failure logs", () => {
+    const output = [
+      "=== RUN   TestAdd",
+      "--- PASS: TestAdd (0.00s)",
+      "=== RUN   TestSub",
+      "    math_test.go:12: got 1, want 2",
+      "--- FAIL: TestSub (0.25s)",
+      "=== RUN   TestSkip",
+      "--- SKIP: TestSkip (0.00s)",
+      "FAIL",
+      "FAIL\texample.com/math\t0.301s",
+    ].join("\n");
+    const results = parseTestOutput(output);
+    expect(results).toEqual([
+      { name: "TestAdd", passed: true, duration: 0 },
+      { name: "TestSub", passed: false, duration: 250, output: "math_test.go:12: got 1, want 2" },
+    ]);
+  });
+});
+
+describe("parseTestOutput — cargo test", () => {
+  it("parses result lines and attaches failure stdout", () => {
+    const output = [
+      "running 3 tests",
+      "test tests::it_works ... ok",
+      "test tests::it_fails ... FAILED",
+      "test tests::slow ... ignored",
+      "",
+      "failures:",
+      "",
+      "---- tests::it_fails stdout ----",
+      "thread 'tests::it_fails' panicked at 'assertion failed'",
+      "",
+      "failures:",
+      "    tests::it_fails",
+    ].join("\n");
+    const results = parseTestOutput(output);
+    expect(results).toEqual([
+      { name: "tests::it_works", passed: true },
+      { name: "tests::it_fails", passed: false, output: "thread 'tests::it_fails' panicked at 'assertion failed'" },
+    ]);
+  });
+});
+
+describe("parseTestOutput — TAP", () => {
+  it("parses ok/not ok lines, directives and YAML diagnostics", () => {
+    const output = [
+      "TAP version 13",
+      "1..4",
+      "ok 1 - adds numbers",
+      "not ok 2 - subtracts numbers",
+      "  ---",
+      "  message: expected 2",
+      "  ...",
+      "ok 3 - later # SKIP not implemented",
+      "not ok 4 - flaky thing # TODO fix",
+    ].join("\n");
+    const results = parseTestOutput(output);
+    expect(results).toEqual([
+      { name: "adds numbers", passed: true },
+      { name: "subtracts numbers", passed: false, output: "message: expected 2" },
+      { name: "flaky thing", passed: true },
+    ]);
+  });
+});
+
+describe("parseTestOutput — JUnit XML", () => {
+  it("parses testcases with failures, errors and skips", () => {
+    const output = [
+      "<?xml version=\"1.0\"?>",
+      "<testsuites>",
+      "  <testsuite name=\"math\">",
+      "    <testcase classname=\"math\" name=\"adds\" time=\"0.012\"/>",
+      "    <testcase classname=\"math\" name=\"subtracts\" time=\"0.5\">",
+      "      <failure message=\"expected 2 &amp; got 1\">stack trace</failure>",
+      "    </testcase>",
+      "    <testcase classname=\"math\" name=\"divides\"><error message=\"boom\"/></testcase>",
+      "    <testcase classname=\"math\" name=\"later\"><skipped/></testcase>",
+      "  </testsuite>",
+      "</testsuites>",
+    ].join("\n");
+    const results = parseTestOutput(output);
+    expect(results).toEqual([
+      { name: "math.adds", passed: true, duration: 12 },
+      { name: "math.subtracts", passed: false, duration: 500, output: "stack trace" },
+      { name: "math.divides", passed: false, output: "boom" },
+    ]);
+  });
+});
+
+describe("format selection", () => {
+  it("detects each format from its output", () => {
+    expect(detectTestOutputFormat(" ✓ src/a.test.ts > works (1ms)")).toBe("vitest");
+    expect(detectTestOutputFormat("tests/test_a.py::test_b PASSED")).toBe("pytest");
+    expect(detectTestOutputFormat("--- PASS: TestAdd (0.00s)")).toBe("go");
+    expect(detectTestOutputFormat("test tests::x ... ok")).toBe("cargo");
+    expect(detectTestOutputFormat("TAP version 13\nok 1 - a")).toBe("tap");
+    expect(detectTestOutputFormat("<testsuite><testcase name=\"a\"/></testsuite>")).toBe("junit");
+  });
+
+  it("uses an explicit format instead of detecting", () => {
+    const output = "test tests::x ... ok\n ✓ src/a.test.ts > works";
+    expect(parseTestOutput(output, "vitest")).toEqual([{ name: "src/a.test.ts > works", passed: true }]);
+    expect(parseTestOutput(output, "cargo")).toEqual([{ name: "tests::x", passed: true }]);
+  });
+});
@@ -1,10 +1,20 @@
 /**
  * Test output parser — extract individual test results from CLI output.
  *
- * Supports vitest/jest (✓/✗) and bun test (✓/×) output formats.
- * Falls back to empty array if output is unparseable.
+ * A registry of parsers, one per output format:
+ *   - vitest: vitest/jest (✓/✗) and bun test (✓/×)
+ *   - pytest: `pytest -v` result lines and the short test summary
+ *   - go: `go test -v` (=== RUN / --- PASS / --- FAIL)
+ *   - cargo: `cargo test` (test name ... ok / FAILED)
+ *   - tap: Test Anything Protocol (ok N / not ok N)
+ *   - junit: JUnit XML (<testcase> elements)
+ *
+ * The format is detected from the output unless `testOutputFormat` is set in
+ * config. Falls back to empty array if output is unparseable.
  */
 
+import type { TestOutputFormat } from "../config.js";
+
 export interface TestResult {
   name: string;
   passed: boolean;
@@ -12,49 +22,324 @@ export interface TestResult {
   output?: string;
 }
 
+export type ParserFormat = Exclude<TestOutputFormat, "auto">;
+
+export interface TestOutputParser {
+  /** True if the (ANSI-stripped) output looks like this format */
+  detect(output: string): boolean;
+  parse(output: string): TestResult[];
+}
+
 // Strip ANSI escape sequences (color codes, cursor movements, etc.)
 const ANSI_RE = /\x1b\[[0-9;]*m/g;
 
+// --- vitest / jest / bun ---
+
 // Match: " ✓ test name (Nms)" or " ✗ test name (Nms)" or " × test name (Nms)"
 const TEST_LINE_RE = /^\s*([✓✗×])\s+(.+?)(?:\s+\((\d+)ms\))?\s*$/;
 // Match: "   → error text"
 const ERROR_LINE_RE = /^\s+→\s+(.+)$/;
 
-export function parseTestOutput(output: string): TestResult[] {
-  const lines = output.replace(ANSI_RE, "").split("\n");
-  const results: TestResult[] = [];
-  let currentFailOutput: string[] = [];
-  let lastResult: TestResult | null = null;
-
-  function flushFailOutput() {
-    if (lastResult && !lastResult.passed && currentFailOutput.length > 0) {
-      lastResult.output = currentFailOutput.join("\n");
-    }
-    currentFailOutput = [];
-  }
-
-  for (const line of lines) {
-    const testMatch = line.match(TEST_LINE_RE);
-    if (testMatch) {
-      flushFailOutput();
-      const [, marker, name, durationStr] = testMatch;
-      const passed = marker === "✓";
+const vitestParser: TestOutputParser = {
+  detect: (output) => /^\s*[✓✗×]\s+\S/m.test(output),
+  parse(output) {
+    const lines = output.split("\n");
+    const results: TestResult[] = [];
+    let currentFailOutput: string[] = [];
+    let lastResult: TestResult | null = null;
+
+    function flushFailOutput() {
+      if (lastResult && !lastResult.passed && currentFailOutput.length > 0) {
+        lastResult.output = currentFailOutput.join("\n");
+      }
+      currentFailOutput = [];
+    }
+
+    for (const line of lines) {
+      const testMatch = line.match(TEST_LINE_RE);
+      if (testMatch) {
+        flushFailOutput();
+        const [, marker, name, durationStr] = testMatch;
+        const passed = marker === "✓";
+        const result: TestResult = {
+          name: name.trim(),
+          passed,
+          ...(durationStr ? { duration: parseInt(durationStr, 10) } : {}),
+        };
+        results.push(result);
+        lastResult = result;
+        continue;
+      }
+
+      const errorMatch = line.match(ERROR_LINE_RE);
+      if (errorMatch && lastResult && !lastResult.passed) {
+        currentFailOutput.push(errorMatch[1]);
+      }
+    }
+
+    flushFailOutput();
+    return results;
+  },
+};
+
+// --- pytest ---
+
+// Match: "tests/test_a.py::test_add PASSED   [ 50%]"
+const PYTEST_LINE_RE = /^(\S+::\S+)\s+(PASSED|FAILED|ERROR|XFAIL|XPASS|SKIPPED)\b/;
+// Match: "FAILED tests/test_a.py::test_sub - assert 1 == 2" (short test summary)
+const PYTEST_SUMMARY_RE = /^(FAILED|ERROR)\s+(\S+::\S+)(?:\s+-\s+(.+))?$/;
+
+const pytestParser: TestOutputParser = {
+  detect: (output) =>
+    /^=+ test session starts =+$/m.test(output) || /^\S+::\S+\s+(PASSED|FAILED|ERROR)\b/m.test(output),
+  parse(output) {
+    const byName = new Map<string, TestResult>();
+
+    for (const line of output.split("\n")) {
+      const trimmed = line.trim();
+      const summary = trimmed.match(PYTEST_SUMMARY_RE);
+      if (summary) {
+        const [, , name, message] = summary;
+        const existing = byName.get(name) ?? { name, passed: false };
+        existing.passed = false;
+        if (message) existing.output = message;
+        byName.set(name, existing);
+        continue;
+      }
+
+      const match = trimmed.match(PYTEST_LINE_RE);
+      if (!match) continue;
+      const [, name, outcome] = match;
+      if (outcome === "SKIPPED") continue;
+      // XFAIL is an expected failure and XPASS an unexpected pass — neither breaks the suite
+      const passed = outcome === "PASSED" || outcome === "XFAIL" || outcome === "XPASS";
+      byName.set(name, { ...byName.get(name), name, passed });
+    }
+
+    return [...byName.values()];
+  },
+};
+
+// --- go test -v ---
+
+// Match: "=== RUN   TestAdd" / "--- FAIL: TestAdd/sub (0.01s)"
+const GO_RUN_RE = /^\s*=== RUN\s+(\S+)/;
+const GO_RESULT_RE = /^\s*--- (PASS|FAIL|SKIP): (\S+)(?: \((\d+(?:\.\d+)?)s\))?/;
+
+const goParser: TestOutputParser = {
+  detect: (output) => /^\s*--- (PASS|FAIL|SKIP): \S+/m.test(output) || /^=== RUN\s+\S+/m.test(output),
+  parse(output) {
+    const results: TestResult[] = [];
+    const logs = new Map<string, string[]>();
+    let current: string | null = null;
+
+    for (const line of output.split("\n")) {
+      const run = line.match(GO_RUN_RE);
+      if (run) {
+        current = run[1];
+        logs.set(current, []);
+        continue;
+      }
+
+      const result = line.match(GO_RESULT_RE);
+      if (result) {
+        const [, status, name, seconds] = result;
+        current = null;
+        if (status === "SKIP") continue;
+        const entry: TestResult = {
+          name,
+          passed: status === "PASS",
+          ...(seconds ? { duration: Math.round(parseFloat(seconds) * 1000) } : {}),
+        };
+        const log = logs.get(name);
+        if (!entry.passed && log && log.length > 0) entry.output = log.join("\n");
+        results.push(entry);
+        continue;
+      }
+
+      // Test log lines (t.Errorf etc.) are indented under the running test
+      if (current && /^\s+\S/.test(line)) {
+        logs.get(current)!.push(line.trim());
+      }
+    }
+
+    return results;
+  },
+};
+
+// --- cargo test ---
+
+// Match: "test tests::it_works ... ok"
+const CARGO_LINE_RE = /^test (\S+) \.\.\. (ok|FAILED|ignored)\b/;
+// Match: "---- tests::fails stdout ----"
+const CARGO_FAILURE_HEADER_RE = /^---- (\S+) stdout ----$/;
+
+const cargoParser: TestOutputParser = {
+  detect: (output) => /^test \S+ \.\.\. (ok|FAILED|ignored)\b/m.test(output),
+  parse(output) {
+    const results: TestResult[] = [];
+    const failureOutput = new Map<string, string[]>();
+    let section: string | null = null;
+
+    for (const line of output.split("\n")) {
+      const match = line.match(CARGO_LINE_RE);
+      if (match) {
+        const [, name, status] = match;
+        if (status !== "ignored") results.push({ name, passed: status === "ok" });
+        continue;
+      }
+
+      const header = line.match(CARGO_FAILURE_HEADER_RE);
+      if (header) {
+        section = header[1];
+        failureOutput.set(section, []);
+        continue;
+      }
+
+      if (section) {
+        if (line.trim() === "" || line.startsWith("failures:")) {
+          section = null;
+        } else {
+          failureOutput.get(section)!.push(line);
+        }
+      }
+    }
+
+    for (const r of results) {
+      const lines = failureOutput.get(r.name);
+      if (!r.passed && lines && lines.length > 0) r.output = lines.join("\n");
+    }
+    return results;
+  },
+};
+
+// --- TAP ---
+
+// Match: "ok 1 - description # SKIP reason" / "not ok 2 description"
+const TAP_LINE_RE = /^(not )?ok\b\s*(\d+)?\s*(?:-\s*)?([^#]*?)\s*(?:#\s*(\w+)\b.*)?$/;
+
+const tapParser: TestOutputParser = {
+  detect: (output) => /^TAP version \d+/m.test(output) || /^(not )?ok \d+\b/m.test(output),
+  parse(output) {
+    const results: TestResult[] = [];
+    let lastFailure: TestResult | null = null;
+    let diagnostics: string[] | null = null;
+
+    for (const line of output.split("\n")) {
+      // YAML diagnostics block after a failing test: "  ---" ... "  ..."
+      if (diagnostics) {
+        if (/^\s+\.\.\.\s*$/.test(line)) {
+          if (lastFailure && diagnostics.length > 0) lastFailure.output = diagnostics.join("\n");
+          diagnostics = null;
+        } else {
+          diagnostics.push(line.trim());
+        }
+        continue;
+      }
+      if (lastFailure && /^\s+---\s*$/.test(line)) {
+        diagnostics = [];
+        continue;
+      }
+
+      const match = line.match(TAP_LINE_RE);
+      if (!match) continue;
+      const [, notOk, num, description, directive] = match;
+      const dir = directive?.toUpperCase();
+      if (dir === "SKIP") {
+        lastFailure = null;
+        continue;
+      }
+
+      // "not ok # TODO" is a known, expected failure
       const result: TestResult = {
-        name: name.trim(),
-        passed,
-        ...(durationStr ? { duration: parseInt(durationStr, 10) } : {}),
+        name: description || `test ${num ?? results.length + 1}`,
+        passed: !notOk || dir === "TODO",
       };
       results.push(result);
-      lastResult = result;
-      continue;
+      lastFailure = result.passed ? null : result;
     }
 
-    const errorMatch = line.match(ERROR_LINE_RE);
-    if (errorMatch && lastResult && !lastResult.passed) {
-      currentFailOutput.push(errorMatch[1]);
+    return results;
+  },
+};
+
+// --- JUnit XML ---
+
+const JUNIT_TESTCASE_RE = /<testcase\b([^>]*?)(?:\/>|>([\s\S]*?)<\/testcase>)/g;
+const XML_ATTR_RE = /([\w:-]+)\s*=\s*"([^"]*)"/g;
+
+function decodeXml(text: string): string {
+  return text
+    .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, "$1")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function parseXmlAttrs(attrs: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const m of attrs.matchAll(XML_ATTR_RE)) result[m[1]] = decodeXml(m[2]);
+  return result;
+}
+
+const junitParser: TestOutputParser = {
+  detect: (output) => /<testsuites?\b/.test(output) || /<testcase\b/.test(output),
+  parse(output) {
+    const results: TestResult[] = [];
+
+    for (const m of output.matchAll(JUNIT_TESTCASE_RE)) {
+      const attrs = parseXmlAttrs(m[1]);
+      const body = m[2] ?? "";
+      if (/<skipped\b/.test(body)) continue;
+
+      const name = attrs.classname ? `${attrs.classname}.${attrs.name}` : attrs.name;
+      if (!name) continue;
+
+      const failure = body.match(/<(failure|error)\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1>)/);
+      const result: TestResult = { name, passed: !failure };
+      if (attrs.time && !Number.isNaN(parseFloat(attrs.time))) {
+        result.duration = Math.round(parseFloat(attrs.time) * 1000);
+      }
+      if (failure) {
+        const message = parseXmlAttrs(failure[2]).message;
+        const text = decodeXml(failure[3] ?? "").trim();
+        const detail = text || message;
+        if (detail) result.output = detail;
+      }
+      results.push(result);
     }
-  }
 
-  flushFailOutput();
-  return results;
+    return results;
+  },
+};
+
+// --- Registry ---
+
+const PARSERS: Record<ParserFormat, TestOutputParser> = {
+  vitest: vitestParser,
+  pytest: pytestParser,
+  go: goParser,
+  cargo: cargoParser,
+  tap: tapParser,
+  junit: junitParser,
+};
+
+/** Auto-detection order — most distinctive signatures first, vitest last as the historical default. */
+const DETECTION_ORDER: ParserFormat[] = ["junit", "tap", "go", "cargo", "pytest", "vitest"];
+
+/**
+ * Detect which format the output is in. Returns "vitest" (the historical default)
+ * when nothing matches.
+ */
+export function detectTestOutputFormat(output: string): ParserFormat {
+  const clean = output.replace(ANSI_RE, "");
+  return DETECTION_ORDER.find((format) => PARSERS[format].detect(clean)) ?? "vitest";
+}
+
+export function parseTestOutput(output: string, format: TestOutputFormat = "auto"): TestResult[] {
+  const clean = output.replace(ANSI_RE, "");
+  const resolved = format === "auto" ? detectTestOutputFormat(clean) : format;
+  return PARSERS[resolved].parse(clean);
 }
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, afterEach } from "vitest";
+import * as fs from "node:fs";
+import * as os from "node:os";
+import * as path from "node:path";
+import { execFileSync } from "node:child_process";
+import { getConfig, type SuperteamConfig } from "../config.ts";
+import { checkVacuousTests } from "./vacuous-tests.ts";
+
+let dir: string;
+let baseSha: string;
+let config: SuperteamConfig;
+
+function git(...args: string[]): string {
+	return execFileSync("git", args, { cwd: dir, encoding: "utf-8" }).trim();
+}
+
+function write(file: string, content: string): void {
+	fs.mkdirSync(path.dirname(path.join(dir, file)), { recursive: true });
+	fs.writeFileSync(path.join(dir, file), content);
+}
+
+const read = (file: string) => fs.readFileSync(path.join(dir, file), "utf-8");
+
+beforeEach(() => {
+	dir = fs.mkdtempSync(path.join(os.tmpdir(), "vacuous-tests-"));
+	git("init");
+	git("config", "user.email", "test@test.com");
+	git("config", "user.name", "Test");
+	write("src/math.js", "exports.double = (n) => n;\n");
+	git("add", ".");
+	git("commit", "-m", "initial");
+	baseSha = git("rev-parse", "HEAD");
+	config = { ...getConfig("/nonexistent-path-for-test", true), testCommand: "node", testFilePatterns: ["*.test.js"] };
+});
+
+afterEach(() => {
+	fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe("checkVacuousTests", () => {
+	it("flags test files that pass with the implementation reverted, then restores the work", async () => {
+		// The task's work: a fixed and a new module, one real test and one vacuous one
+		write("src/math.js", "exports.double = (n) => n * 2;\n");
+		write("src/format.js", "exports.pct = (n) => `${n}%`;\n");
+		write("src/math.test.js", "if (require('./math.js').double(2) !== 4) process.exit(1);\n");
+		write("src/format.test.js", "require('node:assert').ok(true);\n");
+		git("add", ".");
+		git("commit", "-m", "task");
+		write("src/wip.test.js", "if (require('./format.js').pct(5) !== '5%') process.exit(1);\n"); // untracked
+
+		const check = await checkVacuousTests(dir, baseSha, config);
+
+		expect(check.implFiles.sort()).toEqual(["src/format.js", "src/math.js"]);
+		expect(check.testFiles.sort()).toEqual(["src/format.test.js", "src/math.test.js", "src/wip.test.js"]);
+		expect(check.vacuous).toEqual(["src/format.test.js"]);
+		expect(read("src/math.js")).toBe("exports.double = (n) => n * 2;\n");
+		expect(read("src/format.js")).toBe("exports.pct = (n) => `${n}%`;\n");
+		expect(git("status", "--porcelain")).toBe("?? src/wip.test.js");
+	});
+
+	it("skips when the task changed no test files", async () => {
+		write("src/math.js", "exports.double = (n) => n * 2;\n");
+
+		const check = await checkVacuousTests(dir, baseSha, config);
+		expect(check.skipped).toBe("the task changed no test files");
+		expect(check.vacuous).toEqual([]);
+	});
+
+	it("skips without a testCommand", async () => {
+		const check = await checkVacuousTests(dir, baseSha, { ...config, testCommand: "" });
+		expect(check.skipped).toBe("no testCommand configured");
+	});
+});
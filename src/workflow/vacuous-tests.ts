@@ -0,0 +1,110 @@
+/**
+ * Vacuous test check — do a task's tests fail without its implementation?
+ *
+ * Temporarily puts the task's non-test source files back to their state at
+ * `gitShaBeforeImpl` (files it created are removed), re-runs the test files it
+ * changed one at a time with `testCommand <file>`, then restores the work. A test
+ * file that still passes doesn't exercise the new code.
+ */
+
+import * as fs from "node:fs";
+import * as path from "node:path";
+import { execFile as execFileCb } from "node:child_process";
+import { promisify } from "node:util";
+import type { SuperteamConfig } from "../config.js";
+import { computeChangedFiles, getUntrackedFiles, readFileAtSha } from "./git-utils.js";
+import { isExemptFile, isTestFile } from "./tdd-guard.js";
+import { parseTestOutput } from "./test-output-parser.js";
+
+const execFile = promisify(execFileCb);
+
+export interface VacuousTestCheck {
+	/** Test files re-run with the implementation reverted */
+	testFiles: string[];
+	/** Implementation files reverted for the run */
+	implFiles: string[];
+	/** Test files that still passed — they don't exercise the new code */
+	vacuous: string[];
+	/** Why the check didn't run */
+	skipped?: string;
+}
+
+/** Files the task changed: commits since `baseSha`, plus uncommitted and untracked files. */
+async function taskChangedFiles(cwd: string, baseSha: string): Promise<string[]> {
+	const [committed, unstaged, untracked] = await Promise.all([
+		computeChangedFiles(cwd, baseSha),
+		computeChangedFiles(cwd),
+		getUntrackedFiles(cwd),
+	]);
+	return [...new Set([...committed, ...unstaged, ...untracked])];
+}
+
+function quote(arg: string): string {
+	return /^[\w./@:+-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`;
+}
+
+/** Run `testCommand <file>`; passes when it exits zero with no failing result in the output. */
+async function testFilePasses(testCommand: string, file: string, cwd: string, config: SuperteamConfig): Promise<boolean> {
+	try {
+		const { stdout, stderr } = await execFile("bash", ["-c", `${testCommand} ${quote(file)}`], {
+			cwd,
+			timeout: 120_000,
+			maxBuffer: 10 * 1024 * 1024,
+		});
+		return parseTestOutput(`${stdout}\n${stderr}`, config.testOutputFormat).every((r) => r.passed);
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Re-run the task's changed test files with its implementation reverted.
+ * The working tree is always restored, even if a test run throws.
+ */
+export async function checkVacuousTests(cwd: string, baseSha: string, config: SuperteamConfig): Promise<VacuousTestCheck> {
+	const testCommand = config.testCommand;
+	const changed = await taskChangedFiles(cwd, baseSha);
+	const testFiles = changed.filter((f) => isTestFile(f, config) && fs.existsSync(path.join(cwd, f)));
+	const implFiles = changed.filter((f) => !isTestFile(f, config) && !isExemptFile(f, config));
+	const result: VacuousTestCheck = { testFiles, implFiles, vacuous: [] };
+
+	if (!testCommand) return { ...result, skipped: "no testCommand configured" };
+	if (testFiles.length === 0) return { ...result, skipped: "the task changed no test files" };
+	if (implFiles.length === 0) return { ...result, skipped: "the task changed no implementation files" };
+
+	// Current contents (null = the task deleted the file) to restore afterwards
+	const saved = new Map<string, Buffer | null>();
+	for (const file of implFiles) {
+		const absolute = path.join(cwd, file);
+		saved.set(file, fs.existsSync(absolute) ? fs.readFileSync(absolute) : null);
+	}
+
+	try {
+		for (const file of implFiles) {
+			const absolute = path.join(cwd, file);
+			const before = await readFileAtSha(cwd, baseSha, file);
+			if (before) {
+				fs.mkdirSync(path.dirname(absolute), { recursive: true });
+				fs.writeFileSync(absolute, before);
+			} else {
+				fs.rmSync(absolute, { force: true });
+			}
+		}
+
+		for (const file of testFiles) {
+			if (await testFilePasses(testCommand, file, cwd, config)) result.vacuous.push(file);
+		}
+	} finally {
+		for (const [file, content] of saved) {
+			const absolute = path.join(cwd, file);
+			if (content) {
+				fs.mkdirSync(path.dirname(absolute), { recursive: true });
+				fs.writeFileSync(absolute, content);
+			} else {
+				fs.rmSync(absolute, { force: true });
+			}
+		}
+	}
+
+	return result;
+}
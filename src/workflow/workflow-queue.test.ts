@@ -4,7 +4,18 @@ import * as fs from "node:fs";
 import * as path from "node:path";
 import * as os from "node:os";
 
-import { enqueueWorkflow, dequeueWorkflow, peekQueue, clearQueue, type QueuedWorkflow } from "./workflow-queue.ts";
+import {
+  enqueueWorkflow,
+  dequeueWorkflow,
+  peekQueue,
+  clearQueue,
+  removeQueued,
+  moveQueued,
+  attachParentDesign,
+  createQueuedWorkflowState,
+  formatQueue,
+  type QueuedWorkflow,
+} from "./workflow-queue.ts";
 
 describe("workflow-queue", () => {
   let tmpDir: string;
@@ -69,4 +80,54 @@ describe("workflow-queue", () => {
     const items = peekQueue(tmpDir);
     expect(items[0].parentScoutOutput).toBe("scout data");
   });
+
+  it("removeQueued drops an item by position and ignores bad positions", () => {
+    enqueueWorkflow(tmpDir, { title: "T1", description: "D1" });
+    enqueueWorkflow(tmpDir, { title: "T2", description: "D2" });
+    expect(removeQueued(tmpDir, 5)).toBeUndefined();
+    expect(removeQueued(tmpDir, NaN)).toBeUndefined();
+    expect(removeQueued(tmpDir, 1)?.title).toBe("T2");
+    expect(peekQueue(tmpDir).map((i) => i.title)).toEqual(["T1"]);
+  });
+
+  it("moveQueued reorders items", () => {
+    for (const t of ["A", "B", "C"]) enqueueWorkflow(tmpDir, { title: t, description: t });
+    expect(moveQueued(tmpDir, 2, 0)).toBe(true);
+    expect(peekQueue(tmpDir).map((i) => i.title)).toEqual(["C", "A", "B"]);
+    expect(moveQueued(tmpDir, 0, 3)).toBe(false);
+  });
+
+  it("attachParentDesign fills the design path on this workflow's splits only", () => {
+    enqueueWorkflow(tmpDir, { title: "Old", description: "D", parentDesignPath: "docs/old-design.md" });
+    enqueueWorkflow(tmpDir, { title: "New", description: "D" });
+    enqueueWorkflow(tmpDir, { title: "Other", description: "D" });
+    attachParentDesign(tmpDir, ["Old", "New"], "docs/new-design.md");
+    expect(peekQueue(tmpDir).map((i) => i.parentDesignPath)).toEqual(["docs/old-design.md", "docs/new-design.md", undefined]);
+  });
+
+  it("formatQueue lists items with positions", () => {
+    expect(formatQueue([])).toBe("Workflow queue is empty.");
+    const text = formatQueue([{ title: "API", description: "endpoint", parentScoutOutput: "s" }, { title: "CLI", description: "help" }]);
+    expect(text).toContain("1. API [reuses scout] — endpoint");
+    expect(text).toContain("2. CLI — help");
+  });
+});
+
+describe("createQueuedWorkflowState", () => {
+  it("starts at triage with the parent's scout output and design doc", () => {
+    const state = createQueuedWorkflowState({
+      title: "API", description: "New endpoint", parentScoutOutput: "scout data", parentDesignPath: "docs/plans/x-design.md",
+    });
+    expect(state.phase).toBe("brainstorm");
+    expect(state.userDescription).toBe("API: New endpoint");
+    expect(state.brainstorm.step).toBe("triage");
+    expect(state.brainstorm.scoutOutput).toContain("scout data");
+    expect(state.brainstorm.scoutOutput).toContain("docs/plans/x-design.md");
+    expect(state.parentDesignPath).toBe("docs/plans/x-design.md");
+  });
+
+  it("runs the scout when there is no parent scout output", () => {
+    const state = createQueuedWorkflowState({ title: "API", description: "New endpoint" });
+    expect(state.brainstorm).toEqual({ step: "scout" });
+  });
 });
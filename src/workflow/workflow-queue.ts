@@ -5,6 +5,7 @@
 
 import * as fs from "node:fs";
 import * as path from "node:path";
+import { createInitialState, type OrchestratorState } from "./orchestrator-state.js";
 
 const QUEUE_FILE = ".superteam-queue.json";
 
@@ -55,3 +56,71 @@ export function clearQueue(cwd: string): void {
 	const p = queuePath(cwd);
 	if (fs.existsSync(p)) fs.unlinkSync(p);
 }
+
+function inRange(index: number, items: QueuedWorkflow[]): boolean {
+	return Number.isInteger(index) && index >= 0 && index < items.length;
+}
+
+/** Remove the item at a 0-based position. Returns it, or undefined if out of range. */
+export function removeQueued(cwd: string, index: number): QueuedWorkflow | undefined {
+	const items = readQueue(cwd);
+	if (!inRange(index, items)) return undefined;
+	const [removed] = items.splice(index, 1);
+	writeQueue(cwd, items);
+	return removed;
+}
+
+/** Move the item at `from` to position `to` (0-based). Returns false if either is out of range. */
+export function moveQueued(cwd: string, from: number, to: number): boolean {
+	const items = readQueue(cwd);
+	if (!inRange(from, items) || !inRange(to, items)) return false;
+	const [item] = items.splice(from, 1);
+	items.splice(to, 0, item);
+	writeQueue(cwd, items);
+	return true;
+}
+
+/**
+ * Record the parent's design doc on the splits it queued, once brainstorm has written it.
+ * Only items without a design path yet are touched, so older splits keep their own parent.
+ */
+export function attachParentDesign(cwd: string, titles: string[], designPath: string): void {
+	const items = readQueue(cwd);
+	let changed = false;
+	for (const item of items) {
+		if (!item.parentDesignPath && titles.includes(item.title)) {
+			item.parentDesignPath = designPath;
+			changed = true;
+		}
+	}
+	if (changed) writeQueue(cwd, items);
+}
+
+/**
+ * Initial state for a queued child workflow. With the parent's scout output the
+ * child starts at triage instead of re-running the scout; the parent design doc
+ * is referenced so the child builds on the decisions already made.
+ */
+export function createQueuedWorkflowState(item: QueuedWorkflow): OrchestratorState {
+	const state = createInitialState(`${item.title}: ${item.description}`);
+	if (item.parentDesignPath) state.parentDesignPath = item.parentDesignPath;
+	if (item.parentScoutOutput) {
+		const designNote = item.parentDesignPath
+			? `\n\n## Parent design\nThis workflow was split from a larger feature designed in ${item.parentDesignPath}. Read it for decisions shared with this work.`
+			: "";
+		state.brainstorm = { step: "triage", scoutOutput: item.parentScoutOutput + designNote, conversationLog: [] };
+	}
+	return state;
+}
+
+export function formatQueue(items: QueuedWorkflow[]): string {
+	if (items.length === 0) return "Workflow queue is empty.";
+	const lines = [`Queued workflows (${items.length}):`];
+	items.forEach((item, i) => {
+		const reuse = item.parentScoutOutput ? " [reuses scout]" : "";
+		lines.push(`${i + 1}. ${item.title}${reuse} — ${item.description}`);
+	});
+	lines.push("");
+	lines.push("/workflow queue start [n] | move <from> <to> | drop <n>");
+	return lines.join("\n");
+}